@@ -1,6 +1,170 @@
+use std::sync::Mutex;
+
+use tauri::Manager;
+use tauri_plugin_clipboard_manager::ClipboardExt;
+use tauri_plugin_dialog::DialogExt;
+
+/// Write an export chosen in the native save dialog. Returns false if the
+/// user cancels.
+#[tauri::command]
+async fn save_file(
+  app: tauri::AppHandle,
+  file_name: String,
+  contents: String,
+) -> Result<bool, String> {
+  let Some(path) = app
+    .dialog()
+    .file()
+    .set_file_name(&file_name)
+    .blocking_save_file()
+  else {
+    return Ok(false);
+  };
+  let path = path.into_path().map_err(|e| e.to_string())?;
+  std::fs::write(path, contents).map_err(|e| e.to_string())?;
+  Ok(true)
+}
+
+/// Cache file for a key. Keys are hex-encoded by the frontend; anything
+/// else is rejected so a key can never point outside the cache directory.
+fn cache_path(app: &tauri::AppHandle, key: &str) -> Result<std::path::PathBuf, String> {
+  if key.is_empty() || !key.chars().all(|c| c.is_ascii_hexdigit()) {
+    return Err("invalid cache key".into());
+  }
+  let dir = app
+    .path()
+    .app_data_dir()
+    .map_err(|e| e.to_string())?
+    .join("cache");
+  std::fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+  Ok(dir.join(format!("{key}.json")))
+}
+
+#[tauri::command]
+fn cache_read(app: tauri::AppHandle, key: String) -> Result<Option<String>, String> {
+  match std::fs::read_to_string(cache_path(&app, &key)?) {
+    Ok(value) => Ok(Some(value)),
+    Err(e) if e.kind() == std::io::ErrorKind::NotFound => Ok(None),
+    Err(e) => Err(e.to_string()),
+  }
+}
+
+/// Writes go to a temporary file first so a crash can't leave a torn vault
+#[tauri::command]
+fn cache_write(app: tauri::AppHandle, key: String, value: String) -> Result<(), String> {
+  let path = cache_path(&app, &key)?;
+  let tmp = path.with_extension("tmp");
+  std::fs::write(&tmp, value).map_err(|e| e.to_string())?;
+  std::fs::rename(&tmp, &path).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn cache_remove(app: tauri::AppHandle, key: String) -> Result<(), String> {
+  match std::fs::remove_file(cache_path(&app, &key)?) {
+    Err(e) if e.kind() != std::io::ErrorKind::NotFound => Err(e.to_string()),
+    _ => Ok(()),
+  }
+}
+
+/// Clipboard used for secrets. It's kept alive for the whole run because on
+/// Linux the copied text goes away with the clipboard that set it.
+struct SecretClipboard(Mutex<Option<arboard::Clipboard>>);
+
+/// Copy a secret, asking the OS to keep it out of clipboard history, cloud
+/// clipboard sync and clipboard monitors where it supports that
+#[tauri::command]
+fn clipboard_write_secret(
+  state: tauri::State<'_, SecretClipboard>,
+  text: String,
+) -> Result<(), String> {
+  let mut guard = state.0.lock().map_err(|e| e.to_string())?;
+  if guard.is_none() {
+    *guard = Some(arboard::Clipboard::new().map_err(|e| e.to_string())?);
+  }
+  let clipboard = guard.as_mut().expect("clipboard was just created");
+
+  #[allow(unused_mut)]
+  let mut set = clipboard.set();
+  #[cfg(target_os = "windows")]
+  {
+    use arboard::SetExtWindows;
+    set = set
+      .exclude_from_history()
+      .exclude_from_cloud()
+      .exclude_from_monitoring();
+  }
+  #[cfg(target_os = "linux")]
+  {
+    use arboard::SetExtLinux;
+    set = set.exclude_from_history();
+  }
+  #[cfg(target_os = "macos")]
+  {
+    use arboard::SetExtApple;
+    set = set.exclude_from_history();
+  }
+  set.text(text).map_err(|e| e.to_string())
+}
+
+/// Current clipboard text, or None if it holds something else
+#[tauri::command]
+fn clipboard_read(app: tauri::AppHandle) -> Option<String> {
+  app.clipboard().read_text().ok()
+}
+
+#[tauri::command]
+fn clipboard_clear(app: tauri::AppHandle) -> Result<(), String> {
+  app.clipboard().clear().map_err(|e| e.to_string())
+}
+
+/// Keychain entry holding the session token: the macOS Keychain, Windows
+/// Credential Manager or the Secret Service on Linux
+fn token_entry(app: &tauri::AppHandle) -> Result<keyring::Entry, String> {
+  keyring::Entry::new(&app.config().identifier, "session_token").map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn token_load(app: tauri::AppHandle) -> Result<Option<String>, String> {
+  match token_entry(&app)?.get_password() {
+    Ok(token) => Ok(Some(token)),
+    Err(keyring::Error::NoEntry) => Ok(None),
+    Err(e) => Err(e.to_string()),
+  }
+}
+
+#[tauri::command]
+fn token_save(app: tauri::AppHandle, token: String) -> Result<(), String> {
+  token_entry(&app)?
+    .set_password(&token)
+    .map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn token_clear(app: tauri::AppHandle) -> Result<(), String> {
+  match token_entry(&app)?.delete_credential() {
+    Err(keyring::Error::NoEntry) | Ok(()) => Ok(()),
+    Err(e) => Err(e.to_string()),
+  }
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
+    .plugin(tauri_plugin_dialog::init())
+    .plugin(tauri_plugin_clipboard_manager::init())
+    .manage(SecretClipboard(Mutex::new(None)))
+    .invoke_handler(tauri::generate_handler![
+      save_file,
+      cache_read,
+      cache_write,
+      cache_remove,
+      clipboard_write_secret,
+      clipboard_read,
+      clipboard_clear,
+      token_load,
+      token_save,
+      token_clear
+    ])
     .setup(|app| {
       if cfg!(debug_assertions) {
         app.handle().plugin(
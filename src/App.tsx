@@ -10,11 +10,16 @@ import Login from "./components/Login";
 import Register from "./components/Register";
 import Vault from "./components/Vault";
 import Settings from "./components/Settings";
+import Health from "./components/Health";
 import Landing from "./components/Landing";
+import ClipboardToast from "./components/ClipboardToast";
+import SessionMonitor from "./components/SessionMonitor";
 import { api } from "./lib/api";
 
 function AppContent() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  // The token store is async (the desktop keychain), so routes wait for it
+  const [restoring, setRestoring] = useState(true);
   const [theme, setTheme] = useState<"light" | "dark">(() => {
     if (typeof window !== "undefined") {
       const saved = localStorage.getItem("theme");
@@ -29,7 +34,15 @@ function AppContent() {
   const navigate = useNavigate();
 
   useEffect(() => {
-    setIsAuthenticated(api.isAuthenticated());
+    let cancelled = false;
+    api.restoreSession().then((restored) => {
+      if (cancelled) return;
+      setIsAuthenticated(restored);
+      setRestoring(false);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   useEffect(() => {
@@ -54,6 +67,10 @@ function AppContent() {
     navigate("/");
   };
 
+  if (restoring) {
+    return <div className="min-h-screen bg-background" />;
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground transition-colors duration-300">
       <Routes>
@@ -105,6 +122,12 @@ function AppContent() {
             )
           }
         />
+        <Route
+          path="/health"
+          element={
+            isAuthenticated ? <Health /> : <Navigate to="/login" replace />
+          }
+        />
         <Route
           path="/"
           element={
@@ -116,6 +139,8 @@ function AppContent() {
           }
         />
       </Routes>
+      {isAuthenticated && <SessionMonitor onLogout={handleLogout} />}
+      <ClipboardToast />
     </div>
   );
 }
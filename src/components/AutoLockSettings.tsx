@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { isTauri } from "@tauri-apps/api/core";
+import {
+  getAutoLockConfig,
+  IDLE_MINUTES_OPTIONS,
+  saveAutoLockConfig,
+  type AutoLockConfig,
+} from "../lib/autolock";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Timer } from "lucide-react";
+
+export default function AutoLockSettings() {
+  const [config, setConfig] = useState<AutoLockConfig>(getAutoLockConfig);
+
+  // Applies the next time the vault is unlocked
+  const update = (changes: Partial<AutoLockConfig>) => {
+    const next = { ...config, ...changes };
+    setConfig(next);
+    saveAutoLockConfig(next);
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <Timer className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Auto-lock</CardTitle>
+        </div>
+        <CardDescription>
+          Lock the vault when you step away. Changes apply the next time you
+          unlock.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="idleMinutes">Lock after inactivity</Label>
+          <select
+            id="idleMinutes"
+            value={config.idleMinutes}
+            onChange={(e) => update({ idleMinutes: Number(e.target.value) })}
+            className="h-9 px-2 text-sm rounded-md border border-input bg-background"
+          >
+            {IDLE_MINUTES_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0
+                  ? "Never"
+                  : `${minutes} ${minutes === 1 ? "minute" : "minutes"}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="lockOnHide">
+            Lock when the window is hidden or minimized
+          </Label>
+          <Switch
+            id="lockOnHide"
+            checked={config.lockOnHide}
+            onCheckedChange={(lockOnHide) => update({ lockOnHide })}
+          />
+        </div>
+
+        {isTauri() && (
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="lockOnSleep">Lock when the computer sleeps</Label>
+            <Switch
+              id="lockOnSleep"
+              checked={config.lockOnSleep}
+              onCheckedChange={(lockOnSleep) => update({ lockOnSleep })}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import type { Folder } from "../lib/crypto";
+import { buildFolderTree, flattenFolderTree } from "../lib/folders";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Tag, X } from "lucide-react";
+
+interface BulkActionsProps {
+  count: number;
+  folders: Folder[];
+  onMove: (folderId: string | undefined) => void;
+  onTag: (tag: string) => void;
+  onDone: () => void;
+  // While a save is running
+  disabled?: boolean;
+}
+
+// Value of the "No folder" option; folder ids are UUIDs so it can't clash
+const NO_FOLDER = "__none__";
+
+export default function BulkActions({
+  count,
+  folders,
+  onMove,
+  onTag,
+  onDone,
+  disabled = false,
+}: BulkActionsProps) {
+  const [tag, setTag] = useState("");
+
+  const submitTag = () => {
+    if (disabled || !tag.trim()) return;
+    onTag(tag.trim());
+    setTag("");
+  };
+
+  return (
+    <div className="mx-2 mt-3 p-3 rounded-lg border bg-background space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{count} selected</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          title="Done selecting"
+          onClick={onDone}
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <select
+        aria-label="Move selected to folder"
+        value=""
+        disabled={disabled || count === 0}
+        onChange={(e) =>
+          onMove(e.target.value === NO_FOLDER ? undefined : e.target.value)
+        }
+        className="w-full h-8 px-2 text-xs rounded-md border border-input bg-background"
+      >
+        <option value="" disabled>
+          Move to…
+        </option>
+        <option value={NO_FOLDER}>No folder</option>
+        {flattenFolderTree(buildFolderTree(folders)).map(({ folder, depth }) => (
+          <option key={folder.id} value={folder.id}>
+            {"\u00a0\u00a0".repeat(depth)}
+            {folder.name}
+          </option>
+        ))}
+      </select>
+      <div className="flex gap-2">
+        <Input
+          placeholder="Add tag"
+          aria-label="Tag selected entries"
+          value={tag}
+          onChange={(e) => setTag(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && submitTag()}
+          className="h-8 text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 gap-1 shrink-0"
+          disabled={disabled || count === 0 || !tag.trim()}
+          onClick={submitTag}
+        >
+          <Tag className="w-3 h-3" /> Tag
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import {
+  CLEAR_SECONDS_OPTIONS,
+  getClipboardClearSeconds,
+  saveClipboardClearSeconds,
+} from "../lib/clipboard";
+import { Label } from "./ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { ClipboardX } from "lucide-react";
+
+const describeSeconds = (seconds: number) =>
+  seconds === 0
+    ? "Never"
+    : seconds < 60
+      ? `${seconds} seconds`
+      : `${seconds / 60} ${seconds === 60 ? "minute" : "minutes"}`;
+
+export default function ClipboardSettings() {
+  const [seconds, setSeconds] = useState(getClipboardClearSeconds);
+
+  const handleChange = (value: number) => {
+    setSeconds(value);
+    saveClipboardClearSeconds(value);
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <ClipboardX className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Clipboard</CardTitle>
+        </div>
+        <CardDescription>
+          Copied passwords and codes are cleared unless you've copied
+          something else since
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="clipboardClear">Clear clipboard after</Label>
+          <select
+            id="clipboardClear"
+            value={seconds}
+            onChange={(e) => handleChange(Number(e.target.value))}
+            className="h-9 px-2 text-sm rounded-md border border-input bg-background"
+          >
+            {CLEAR_SECONDS_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {describeSeconds(option)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
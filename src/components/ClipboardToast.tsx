@@ -0,0 +1,51 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  clearClipboard,
+  getClipboardCountdown,
+  subscribeClipboard,
+} from "../lib/clipboard";
+import { Button } from "./ui/button";
+import { ClipboardCheck } from "lucide-react";
+
+export default function ClipboardToast() {
+  const countdown = useSyncExternalStore(subscribeClipboard, getClipboardCountdown);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!countdown) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [countdown]);
+
+  if (!countdown) return null;
+
+  const remaining = Math.max(0, Math.ceil((countdown.clearsAt - now) / 1000));
+  const progress = Math.min(1, remaining / countdown.seconds);
+
+  const handleClear = () => {
+    clearClipboard().catch((err) => console.error("Clipboard clear error:", err));
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-sm rounded-xl border bg-background shadow-lg overflow-hidden"
+    >
+      <div className="flex items-center gap-3 px-4 py-3">
+        <ClipboardCheck className="w-4 h-4 shrink-0 text-primary" />
+        <span className="flex-1 text-sm">
+          Copied. Clipboard clears in{" "}
+          <span className="tabular-nums font-medium">{remaining}s</span>
+        </span>
+        <Button variant="ghost" size="sm" onClick={handleClear} className="h-8">
+          Clear now
+        </Button>
+      </div>
+      <div
+        className="h-0.5 bg-primary transition-[width] duration-200 ease-linear"
+        style={{ width: `${progress * 100}%` }}
+      />
+    </div>
+  );
+}
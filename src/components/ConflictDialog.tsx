@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { getEntrySubtitle, type VaultEntry } from "../lib/entries";
+import type { ConflictChoice, EntryConflict } from "../lib/merge";
+
+interface ConflictDialogProps {
+  // Open while there are conflicts to resolve
+  conflicts: EntryConflict[] | null;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+const CHOICES: { choice: ConflictChoice; label: string }[] = [
+  { choice: "local", label: "Keep this device's" },
+  { choice: "remote", label: "Keep other device's" },
+  { choice: "both", label: "Keep both" },
+];
+
+function EntryVersion({
+  title,
+  entry,
+}: {
+  title: string;
+  entry: VaultEntry | null;
+}) {
+  return (
+    <div className="rounded-lg border p-3 space-y-1 min-w-0">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        {title}
+      </p>
+      {entry ? (
+        <>
+          <p className="font-medium truncate">{entry.name}</p>
+          <p className="text-sm text-muted-foreground truncate">
+            {getEntrySubtitle(entry)}
+          </p>
+          {entry.updatedAt && (
+            <p className="text-xs text-muted-foreground">
+              Edited {new Date(entry.updatedAt).toLocaleString()}
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-destructive">Deleted</p>
+      )}
+    </div>
+  );
+}
+
+export default function ConflictDialog({
+  conflicts,
+  onResolve,
+}: ConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflicts]);
+
+  const allChosen = !!conflicts && conflicts.every((c) => choices[c.id]);
+
+  return (
+    // Closing without choosing would leave the vault half-merged
+    <Dialog open={!!conflicts}>
+      <DialogContent
+        className="border shadow-2xl max-w-2xl"
+        showCloseButton={false}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold">
+            Resolve Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            These entries were changed on this device and on another one.
+            Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto py-2">
+          {conflicts?.map((conflict) => (
+            <div key={conflict.id} className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <EntryVersion title="This device" entry={conflict.local} />
+                <EntryVersion title="Other device" entry={conflict.remote} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {CHOICES.map(({ choice, label }) => (
+                  <Button
+                    key={choice}
+                    type="button"
+                    size="sm"
+                    variant={choices[conflict.id] === choice ? "default" : "outline"}
+                    onClick={() =>
+                      setChoices((prev) => ({ ...prev, [conflict.id]: choice }))
+                    }
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button disabled={!allChosen} onClick={() => onResolve(choices)}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { deriveVaultKey } from "../lib/auth";
+import {
+  createEmptyVault,
+  decryptVault,
+  getVaultKdf,
+  type Vault,
+} from "../lib/crypto";
+import { normalizeEntry } from "../lib/entries";
+import {
+  exportCsv,
+  exportEncryptedBackup,
+  exportJson,
+  exportKeePassXml,
+  saveExportFile,
+  type ExportFormat,
+} from "../lib/export";
+import { loadEncryptedVault } from "../lib/sync";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertCircle, AlertTriangle, CheckCircle2, Download } from "lucide-react";
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  {
+    format: "backup",
+    label: "Encrypted Backup",
+    description: "Password-protected file in the zCloudPass vault format",
+  },
+  { format: "json", label: "JSON", description: "Plaintext entries as stored in your vault" },
+  { format: "csv", label: "CSV", description: "Plaintext spreadsheet, one row per entry" },
+  {
+    format: "keepass",
+    label: "KeePass XML",
+    description: "Plaintext file for KeePass and KeePassXC",
+  },
+];
+
+export default function ExportSettings() {
+  const [format, setFormat] = useState<ExportFormat>("backup");
+  const [masterPassword, setMasterPassword] = useState("");
+  const [backupPassword, setBackupPassword] = useState("");
+  const [confirmBackupPassword, setConfirmBackupPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const isBackup = format === "backup";
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+
+    if (isBackup) {
+      if (backupPassword !== confirmBackupPassword) {
+        setError("Backup passwords do not match");
+        return;
+      }
+      if (backupPassword.length < 8) {
+        setError("Backup password must be at least 8 characters long");
+        return;
+      }
+    }
+
+    setLoading(true);
+
+    try {
+      // Plaintext exports only run after the master password is re-entered
+      const key = await deriveVaultKey(masterPassword);
+      const response = await loadEncryptedVault();
+      let vault = createEmptyVault();
+      if (response.encrypted_vault) {
+        let decrypted: Vault;
+        try {
+          decrypted = await decryptVault(response.encrypted_vault, key);
+        } catch {
+          throw new Error("Master password is incorrect");
+        }
+        vault = { ...decrypted, entries: decrypted.entries.map(normalizeEntry) };
+      }
+
+      const file =
+        format === "backup"
+          ? await exportEncryptedBackup(
+              vault,
+              backupPassword,
+              response.encrypted_vault
+                ? getVaultKdf(response.encrypted_vault)
+                : undefined,
+            )
+          : format === "json"
+            ? exportJson(vault)
+            : format === "csv"
+              ? exportCsv(vault)
+              : exportKeePassXml(vault);
+
+      const saved = await saveExportFile(file);
+      setMasterPassword("");
+      setBackupPassword("");
+      setConfirmBackupPassword("");
+      if (saved) {
+        const count = vault.entries.length;
+        setSuccess(
+          `Exported ${count} ${count === 1 ? "entry" : "entries"} to ${file.fileName}.`,
+        );
+      }
+    } catch (err) {
+      console.error("Export error:", err);
+      setError(err instanceof Error ? err.message : "Failed to export vault");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <Download className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Export</CardTitle>
+        </div>
+        <CardDescription>
+          {EXPORT_FORMATS.find((f) => f.format === format)!.description}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleExport} className="space-y-5">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert className="bg-green-500/10 border-green-500/20 text-green-600 dark:text-green-400">
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>{success}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            {EXPORT_FORMATS.map((option) => (
+              <Button
+                key={option.format}
+                type="button"
+                variant={format === option.format ? "default" : "outline"}
+                onClick={() => {
+                  setFormat(option.format);
+                  setError("");
+                  setSuccess("");
+                }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          {!isBackup && (
+            <Alert className="bg-amber-500/10 border-amber-500/20 text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                This file will contain your passwords unencrypted. Store it
+                somewhere safe and delete it when you are done.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isBackup && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="backupPassword">Backup Password</Label>
+                <Input
+                  id="backupPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={backupPassword}
+                  onChange={(e) => setBackupPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  className="h-11"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmBackupPassword">Confirm Backup Password</Label>
+                <Input
+                  id="confirmBackupPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={confirmBackupPassword}
+                  onChange={(e) => setConfirmBackupPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  className="h-11"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="exportMasterPassword">Master Password</Label>
+            <Input
+              id="exportMasterPassword"
+              type="password"
+              placeholder="••••••••"
+              value={masterPassword}
+              onChange={(e) => setMasterPassword(e.target.value)}
+              required
+              disabled={loading}
+              className="h-11"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full h-11 text-base font-semibold"
+            disabled={loading}
+          >
+            {loading ? "Exporting..." : "Export Vault"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
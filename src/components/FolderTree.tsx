@@ -0,0 +1,224 @@
+import { useState, type DragEvent } from "react";
+import type { Folder } from "../lib/crypto";
+import { buildFolderTree, type FolderNode, type ListFilter } from "../lib/folders";
+import { Button } from "./ui/button";
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder as FolderIcon,
+  FolderOpen,
+  FolderPlus,
+  Layers,
+  Pencil,
+  Tag,
+  Trash2,
+} from "lucide-react";
+
+// dataTransfer type carrying the JSON array of dragged entry ids
+export const ENTRY_DRAG_TYPE = "application/x-zcloudpass-entries";
+
+interface FolderTreeProps {
+  folders: Folder[];
+  tags: string[];
+  filter: ListFilter;
+  onFilterChange: (filter: ListFilter) => void;
+  onCreateFolder: (parentId?: string) => void;
+  onRenameFolder: (folder: Folder) => void;
+  onDeleteFolder: (folder: Folder) => void;
+  // A folder id, or undefined when dropped on "All entries"
+  onMoveEntries: (ids: string[], folderId: string | undefined) => void;
+  onTagEntries: (ids: string[], tag: string) => void;
+  // While a save is running; nothing can be dropped or edited
+  disabled?: boolean;
+}
+
+const draggedIds = (e: DragEvent): string[] => {
+  try {
+    const ids = JSON.parse(e.dataTransfer.getData(ENTRY_DRAG_TYPE));
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+};
+
+export default function FolderTree({
+  folders,
+  tags,
+  filter,
+  onFilterChange,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  onMoveEntries,
+  onTagEntries,
+  disabled = false,
+}: FolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Props for a row that accepts dropped entries
+  const dropZone = (key: string, onDrop: (ids: string[]) => void) => ({
+    onDragOver: (e: DragEvent) => {
+      if (disabled || !e.dataTransfer.types.includes(ENTRY_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      if (disabled) return;
+      const ids = draggedIds(e);
+      if (ids.length > 0) onDrop(ids);
+    },
+  });
+
+  const rowClass = (key: string, active: boolean) =>
+    `group flex items-center gap-2 px-2 h-8 rounded-md text-sm cursor-pointer transition-colors ${
+      dropTarget === key
+        ? "bg-primary/15 ring-1 ring-primary"
+        : active
+          ? "bg-muted font-medium"
+          : "hover:bg-muted/60"
+    }`;
+
+  const renderFolder = (node: FolderNode, depth: number) => {
+    const { folder } = node;
+    const key = `folder:${folder.id}`;
+    const active = filter.kind === "folder" && filter.id === folder.id;
+    const isCollapsed = collapsed[folder.id];
+    const Icon = active ? FolderOpen : FolderIcon;
+
+    return (
+      <li key={folder.id}>
+        <div
+          className={rowClass(key, active)}
+          style={{ paddingLeft: `${depth * 12 + 8}px` }}
+          onClick={() => onFilterChange({ kind: "folder", id: folder.id })}
+          {...dropZone(key, (ids) => onMoveEntries(ids, folder.id))}
+        >
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              className="shrink-0 text-muted-foreground"
+              onClick={(e) => {
+                e.stopPropagation();
+                setCollapsed({ ...collapsed, [folder.id]: !isCollapsed });
+              }}
+              aria-label={isCollapsed ? "Expand" : "Collapse"}
+            >
+              {isCollapsed ? (
+                <ChevronRight className="w-3 h-3" />
+              ) : (
+                <ChevronDown className="w-3 h-3" />
+              )}
+            </button>
+          ) : (
+            <span className="w-3 shrink-0" />
+          )}
+          <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1 truncate">{folder.name}</span>
+          <div
+            className="flex shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="New subfolder"
+              disabled={disabled}
+              onClick={() => onCreateFolder(folder.id)}
+            >
+              <FolderPlus className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Rename folder"
+              disabled={disabled}
+              onClick={() => onRenameFolder(folder)}
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-destructive"
+              title="Delete folder"
+              disabled={disabled}
+              onClick={() => onDeleteFolder(folder)}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+        {!isCollapsed && node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderFolder(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav className="px-2 pt-3 space-y-3" aria-label="Folders and tags">
+      <div
+        className={rowClass("all", filter.kind === "all")}
+        onClick={() => onFilterChange({ kind: "all" })}
+        title="Drop entries here to take them out of their folder"
+        {...dropZone("all", (ids) => onMoveEntries(ids, undefined))}
+      >
+        <Layers className="w-4 h-4 shrink-0 text-muted-foreground" />
+        <span className="flex-1 truncate">All entries</span>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between px-2">
+          <span className="text-xs uppercase tracking-wider text-muted-foreground">
+            Folders
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground"
+            title="New folder"
+            disabled={disabled}
+            onClick={() => onCreateFolder()}
+          >
+            <FolderPlus className="w-3 h-3" />
+          </Button>
+        </div>
+        <ul>{buildFolderTree(folders).map((node) => renderFolder(node, 0))}</ul>
+      </div>
+
+      {tags.length > 0 && (
+        <div>
+          <span className="block px-2 pb-1 text-xs uppercase tracking-wider text-muted-foreground">
+            Tags
+          </span>
+          <ul>
+            {tags.map((tag) => {
+              const key = `tag:${tag}`;
+              const active =
+                filter.kind === "tag" &&
+                filter.tag.toLowerCase() === tag.toLowerCase();
+              return (
+                <li
+                  key={tag}
+                  className={rowClass(key, active)}
+                  onClick={() => onFilterChange({ kind: "tag", tag })}
+                  {...dropZone(key, (ids) => onTagEntries(ids, tag))}
+                >
+                  <Tag className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate">{tag}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,446 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { deriveVaultKey } from "../lib/auth";
+import { watchAutoLock } from "../lib/autolock";
+import {
+  checkBreaches,
+  clearOfflineBreachFile,
+  getBreachCheckMode,
+  getBreachSource,
+  hasOfflineBreachFile,
+  loadOfflineBreachFile,
+  setBreachCheckMode,
+} from "../lib/breach";
+import { createEmptyVault, decryptVault, type Vault } from "../lib/crypto";
+import { getFieldValue, normalizeEntry } from "../lib/entries";
+import {
+  analyzeVault,
+  collectPasswords,
+  DEFAULT_MAX_AGE_MONTHS,
+  type PasswordItem,
+} from "../lib/health";
+import { loadEncryptedVault } from "../lib/sync";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ChevronRight,
+  Clock,
+  Copy,
+  FileUp,
+  Lock,
+  ShieldAlert,
+  ShieldX,
+  type LucideIcon,
+} from "lucide-react";
+
+const MAX_AGE_STORAGE_KEY = "health_max_age_months";
+
+const MAX_AGE_OPTIONS = [3, 6, 12, 24];
+
+const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { dateStyle: "medium" });
+
+interface IssueListProps {
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  empty: string;
+  children: React.ReactNode;
+  count: number;
+}
+
+function IssueList({ title, description, icon: Icon, empty, children, count }: IssueListProps) {
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <Icon className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">
+            {title} <span className="text-muted-foreground font-normal">({count})</span>
+          </CardTitle>
+        </div>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {count === 0 ? (
+          <p className="text-sm text-muted-foreground">{empty}</p>
+        ) : (
+          <ul className="divide-y border rounded-xl">{children}</ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Health() {
+  const [masterPassword, setMasterPassword] = useState("");
+  const [vault, setVault] = useState<Vault | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [maxAgeMonths, setMaxAgeMonths] = useState(() => {
+    const saved = Number(localStorage.getItem(MAX_AGE_STORAGE_KEY));
+    return MAX_AGE_OPTIONS.includes(saved) ? saved : DEFAULT_MAX_AGE_MONTHS;
+  });
+  const [breachOnline, setBreachOnline] = useState(
+    () => getBreachCheckMode() === "online",
+  );
+  const [breachFileLoaded, setBreachFileLoaded] = useState(hasOfflineBreachFile);
+  const [breaches, setBreaches] = useState<Map<string, number> | null>(null);
+  const [breachStatus, setBreachStatus] = useState("");
+  const navigate = useNavigate();
+
+  // The decrypted vault is forgotten on the same triggers that lock the vault
+  const unlocked = vault !== null;
+  useEffect(() => {
+    if (!unlocked) return;
+    return watchAutoLock(() => setVault(null));
+  }, [unlocked]);
+
+  // Re-check whenever the vault or the breach source changes
+  useEffect(() => {
+    const source = getBreachSource();
+    setBreaches(null);
+    setBreachStatus("");
+    if (!vault || !source) return;
+
+    let cancelled = false;
+    const passwords = collectPasswords(vault).map(
+      (item) => getFieldValue(item.entry, item.field)!,
+    );
+    setBreachStatus("Checking for breached passwords...");
+    checkBreaches(passwords, source)
+      .then((result) => {
+        if (cancelled) return;
+        setBreaches(result);
+        setBreachStatus("");
+      })
+      .catch((err) => {
+        console.error("Breach check error:", err);
+        if (!cancelled) {
+          setBreachStatus(err instanceof Error ? err.message : "Breach check failed");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [vault, breachOnline, breachFileLoaded]);
+
+  const report = useMemo(
+    () =>
+      vault
+        ? analyzeVault(vault, { maxAgeMonths, breaches: breaches ?? undefined })
+        : null,
+    [vault, maxAgeMonths, breaches],
+  );
+  const reusedCount = report?.reused.flat().length ?? 0;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+    try {
+      const key = await deriveVaultKey(masterPassword);
+      const response = await loadEncryptedVault();
+      let decrypted = createEmptyVault();
+      if (response.encrypted_vault) {
+        try {
+          decrypted = await decryptVault(response.encrypted_vault, key);
+        } catch {
+          throw new Error("Master password is incorrect");
+        }
+      }
+      setVault({ ...decrypted, entries: decrypted.entries.map(normalizeEntry) });
+      setMasterPassword("");
+    } catch (err) {
+      console.error("Health report error:", err);
+      setError(err instanceof Error ? err.message : "Failed to analyze vault");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMaxAgeChange = (months: number) => {
+    setMaxAgeMonths(months);
+    localStorage.setItem(MAX_AGE_STORAGE_KEY, String(months));
+  };
+
+  const handleBreachOnlineChange = (online: boolean) => {
+    setBreachCheckMode(online ? "online" : "off");
+    setBreachOnline(online);
+  };
+
+  const handleBreachFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      loadOfflineBreachFile(await file.text());
+      setBreachFileLoaded(true);
+    } catch (err) {
+      setBreachStatus(err instanceof Error ? err.message : "Failed to read hash file");
+    }
+  };
+
+  const handleClearBreachFile = () => {
+    clearOfflineBreachFile();
+    setBreachFileLoaded(false);
+  };
+
+  const breachEmpty =
+    breachStatus ||
+    (breaches
+      ? "None of your passwords appear in known breaches."
+      : "Turn on the online check or load a hash file below.");
+
+  // The vault opens the entry in edit mode once it's unlocked
+  const fixEntry = (item: PasswordItem) => {
+    navigate("/vault", { state: { editEntryId: item.entry.id } });
+  };
+
+  const renderItem = (item: PasswordItem, detail: string) => (
+    <li key={`${item.entry.id}:${item.field}`}>
+      <button
+        type="button"
+        onClick={() => fixEntry(item)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left hover:bg-muted/50 transition-colors"
+      >
+        <div className="min-w-0">
+          <div className="font-medium truncate">{item.entry.name}</div>
+          <div className="text-xs text-muted-foreground truncate">
+            {item.fieldLabel} · {detail}
+          </div>
+        </div>
+        <ChevronRight className="w-4 h-4 shrink-0 text-muted-foreground" />
+      </button>
+    </li>
+  );
+
+  const weakDetail = (item: PasswordItem) => {
+    const { score, patterns } = item.strength;
+    const found = [...new Set(patterns)];
+    return found.length > 0
+      ? `${STRENGTH_LABELS[score]} · ${found.join(", ")}`
+      : STRENGTH_LABELS[score];
+  };
+
+  return (
+    <div className="min-h-screen p-4 md:p-8">
+      <div className="max-w-2xl mx-auto space-y-8">
+        <div className="flex items-center gap-6">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/vault")}
+            className="w-11 h-11 rounded-2xl border hover:bg-muted"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight text-foreground">
+              Password Health
+            </h1>
+            <p className="text-muted-foreground flex items-center gap-2">
+              Find weak, reused, old and breached passwords
+            </p>
+          </div>
+        </div>
+
+        {!report ? (
+          <Card className="border shadow-sm">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3 mb-1">
+                <div className="p-2 bg-primary/10 rounded-xl">
+                  <Lock className="w-5 h-5 text-primary" />
+                </div>
+                <CardTitle className="text-xl">Analyze Vault</CardTitle>
+              </div>
+              <CardDescription>
+                Your passwords are checked on this device and never sent
+                anywhere. Breach checks only send the first five characters
+                of each password's hash
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleUnlock} className="space-y-5">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="healthMasterPassword">Master Password</Label>
+                  <Input
+                    id="healthMasterPassword"
+                    type="password"
+                    placeholder="••••••••"
+                    value={masterPassword}
+                    onChange={(e) => setMasterPassword(e.target.value)}
+                    required
+                    disabled={loading}
+                    className="h-11"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={loading || !masterPassword}
+                  className="w-full h-11 font-semibold"
+                >
+                  {loading ? "Analyzing..." : "Analyze"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="border shadow-sm">
+              <CardContent className="pt-6 flex items-center gap-6">
+                <div
+                  className={`text-5xl font-bold tabular-nums ${
+                    report.score >= 80
+                      ? "text-green-600 dark:text-green-400"
+                      : report.score >= 50
+                        ? "text-amber-500"
+                        : "text-destructive"
+                  }`}
+                  aria-label="Health score"
+                >
+                  {report.score}
+                </div>
+                <div className="space-y-1">
+                  <div className="font-semibold">Health score</div>
+                  <p className="text-sm text-muted-foreground">
+                    {report.total === 0
+                      ? "No passwords to check yet."
+                      : `${report.weak.length} weak, ${reusedCount} reused, ${report.old.length} old${
+                          breaches ? `, ${report.breached.length} breached` : ""
+                        } across ${report.total} ${
+                          report.total === 1 ? "password" : "passwords"
+                        }`}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <IssueList
+              title="Breached passwords"
+              description="Found in known data breaches; change these first"
+              icon={ShieldX}
+              empty={breachEmpty}
+              count={report.breached.length}
+            >
+              {report.breached.map((item) =>
+                renderItem(item, `Seen ${item.breachCount!.toLocaleString()} ${
+                  item.breachCount === 1 ? "time" : "times"
+                } in breaches`),
+              )}
+            </IssueList>
+
+            <IssueList
+              title="Weak passwords"
+              description="Easy to guess with common passwords, words and patterns"
+              icon={ShieldAlert}
+              empty="No weak passwords."
+              count={report.weak.length}
+            >
+              {report.weak.map((item) => renderItem(item, weakDetail(item)))}
+            </IssueList>
+
+            <IssueList
+              title="Reused passwords"
+              description="One breach exposes every entry that shares the password"
+              icon={Copy}
+              empty="No passwords are used more than once."
+              count={reusedCount}
+            >
+              {report.reused.flatMap((group) =>
+                group.map((item) =>
+                  renderItem(item, `Shared with ${group.length - 1} other ${
+                    group.length === 2 ? "entry" : "entries"
+                  }`),
+                ),
+              )}
+            </IssueList>
+
+            <IssueList
+              title="Old passwords"
+              description="Not changed within the period you choose"
+              icon={Clock}
+              empty="Every password was changed recently."
+              count={report.old.length}
+            >
+              {report.old.map((item) =>
+                renderItem(item, `Last changed ${formatDate(item.changedAt!)}`),
+              )}
+            </IssueList>
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="maxAge" className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-muted-foreground" />
+                Flag passwords older than
+              </Label>
+              <select
+                id="maxAge"
+                value={maxAgeMonths}
+                onChange={(e) => handleMaxAgeChange(Number(e.target.value))}
+                className="h-9 px-2 text-sm rounded-md border border-input bg-background"
+              >
+                {MAX_AGE_OPTIONS.map((months) => (
+                  <option key={months} value={months}>
+                    {months} months
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="breachOnline" className="flex items-center gap-2">
+                <ShieldX className="w-4 h-4 text-muted-foreground" />
+                Check online with Have I Been Pwned
+              </Label>
+              <Switch
+                id="breachOnline"
+                checked={breachOnline}
+                onCheckedChange={handleBreachOnlineChange}
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="breachFile" className="flex items-center gap-2">
+                <FileUp className="w-4 h-4 text-muted-foreground" />
+                {breachFileLoaded ? "Using a local hash file" : "Check against a local hash file"}
+              </Label>
+              {breachFileLoaded ? (
+                <Button variant="outline" size="sm" onClick={handleClearBreachFile}>
+                  Unload
+                </Button>
+              ) : (
+                <Input
+                  id="breachFile"
+                  type="file"
+                  accept=".txt,text/plain"
+                  onChange={(e) => handleBreachFile(e.target.files?.[0])}
+                  className="h-9 max-w-56"
+                />
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+interface HighlightedTextProps {
+  text: string;
+  // Character positions to mark, ascending
+  indices: number[];
+}
+
+export default function HighlightedText({ text, indices }: HighlightedTextProps) {
+  if (indices.length === 0) return <>{text}</>;
+
+  // Group consecutive positions so a matched word is one <mark>
+  const marked = new Set(indices);
+  const parts: { text: string; marked: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = parts[parts.length - 1];
+    if (last && last.marked === marked.has(i)) last.text += text[i];
+    else parts.push({ text: text[i], marked: marked.has(i) });
+  }
+
+  return (
+    <>
+      {parts.map((part, i) =>
+        part.marked ? (
+          <mark key={i} className="bg-amber-200/70 text-inherit rounded-sm dark:bg-amber-400/30">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useState } from "react";
+import { deriveVaultKey } from "../lib/auth";
+import { watchAutoLock } from "../lib/autolock";
+import {
+  createEmptyVault,
+  decryptVault,
+  encryptVault,
+  getVaultKdf,
+  type KdfParams,
+  type Vault,
+} from "../lib/crypto";
+import {
+  ENTRY_SCHEMAS,
+  getEntrySubtitle,
+  normalizeEntry,
+  type VaultEntry,
+} from "../lib/entries";
+import {
+  IMPORT_SOURCES,
+  findDuplicates,
+  parseImport,
+  type ImportFormat,
+} from "../lib/import";
+import {
+  getSyncError,
+  loadEncryptedVault,
+  queueVaultUpdate,
+} from "../lib/sync";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertCircle, CheckCircle2, FileUp } from "lucide-react";
+
+// Unlocked vault the preview was computed against
+interface ImportTarget {
+  vault: Vault;
+  key: string;
+  kdf: KdfParams | undefined;
+}
+
+export default function ImportSettings() {
+  const [format, setFormat] = useState<ImportFormat>("bitwarden-json");
+  const [file, setFile] = useState<File | null>(null);
+  const [masterPassword, setMasterPassword] = useState("");
+  const [target, setTarget] = useState<ImportTarget | null>(null);
+  const [parsed, setParsed] = useState<VaultEntry[]>([]);
+  const [duplicates, setDuplicates] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  const source = IMPORT_SOURCES.find((s) => s.format === format)!;
+  const selectedEntries = useMemo(
+    () => parsed.filter((entry) => selected.has(entry.id)),
+    [parsed, selected],
+  );
+
+  const resetPreview = () => {
+    setTarget(null);
+    setParsed([]);
+    setDuplicates(new Set());
+    setSelected(new Set());
+  };
+
+  // The decrypted vault and its key are forgotten on the same triggers that
+  // lock the vault
+  const unlocked = target !== null;
+  useEffect(() => {
+    if (!unlocked) return;
+    return watchAutoLock(resetPreview);
+  }, [unlocked]);
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setError("");
+    setSuccess("");
+    setLoading(true);
+
+    try {
+      const entries = parseImport(format, new Uint8Array(await file.arrayBuffer()));
+
+      const key = await deriveVaultKey(masterPassword);
+      const response = await loadEncryptedVault();
+      let vault = createEmptyVault();
+      let kdf: KdfParams | undefined;
+      if (response.encrypted_vault) {
+        let decrypted: Vault;
+        try {
+          decrypted = await decryptVault(response.encrypted_vault, key);
+        } catch {
+          throw new Error("Master password is incorrect");
+        }
+        vault = { ...decrypted, entries: decrypted.entries.map(normalizeEntry) };
+        kdf = getVaultKdf(response.encrypted_vault);
+      }
+
+      const found = findDuplicates(vault.entries, entries);
+      setTarget({ vault, key, kdf });
+      setParsed(entries);
+      setDuplicates(found);
+      // Duplicates start unticked; the user can still opt in
+      setSelected(
+        new Set(entries.filter((entry) => !found.has(entry.id)).map((entry) => entry.id)),
+      );
+      setMasterPassword("");
+    } catch (err) {
+      console.error("Import preview error:", err);
+      resetPreview();
+      setError(err instanceof Error ? err.message : "Failed to read import file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const handleImport = async () => {
+    if (!target || selectedEntries.length === 0) return;
+    setError("");
+    setLoading(true);
+
+    try {
+      const now = Date.now();
+      const updated: Vault = {
+        ...target.vault,
+        entries: [
+          ...target.vault.entries,
+          ...selectedEntries.map((entry) => ({
+            ...entry,
+            createdAt: now,
+            updatedAt: now,
+          })),
+        ],
+      };
+      const encrypted = await encryptVault(updated, target.key, target.kdf);
+      // Queued on this device whatever happens next, so the preview is spent
+      const syncState = await queueVaultUpdate(encrypted);
+
+      const count = selectedEntries.length;
+      const imported = `${count} ${count === 1 ? "entry" : "entries"}`;
+      resetPreview();
+      setFile(null);
+      if (syncState === "error") {
+        setError(
+          `Imported ${imported} on this device, but the server didn't accept the change: ${getSyncError() || "sync failed"}`,
+        );
+      } else if (syncState === "conflict") {
+        setError(
+          `Imported ${imported} on this device, but the vault was changed on another device. The import is merged in the next time you open the vault.`,
+        );
+      } else if (syncState === "pending" || syncState === "offline") {
+        setSuccess(
+          `Imported ${imported} on this device. The import reaches the server once you're back online.`,
+        );
+      } else {
+        setSuccess(`Imported ${imported}.`);
+      }
+    } catch (err) {
+      console.error("Import error:", err);
+      setError(err instanceof Error ? err.message : "Failed to import entries");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <FileUp className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Import</CardTitle>
+        </div>
+        <CardDescription>
+          Bring entries over from another password manager or browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert className="bg-green-500/10 border-green-500/20 text-green-600 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>{success}</AlertDescription>
+          </Alert>
+        )}
+
+        {!target ? (
+          <form onSubmit={handlePreview} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="importSource">Export Format</Label>
+              <select
+                id="importSource"
+                value={format}
+                onChange={(e) => {
+                  setFormat(e.target.value as ImportFormat);
+                  setFile(null);
+                }}
+                disabled={loading}
+                className="w-full h-11 px-3 text-sm rounded-md border border-input bg-background"
+              >
+                {IMPORT_SOURCES.map((s) => (
+                  <option key={s.format} value={s.format}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="importFile">Export File</Label>
+              <Input
+                // Remount to clear the picker when the format changes
+                key={format}
+                id="importFile"
+                type="file"
+                accept={source.accept}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={loading}
+                className="h-11"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="importMasterPassword">Master Password</Label>
+              <Input
+                id="importMasterPassword"
+                type="password"
+                placeholder="••••••••"
+                value={masterPassword}
+                onChange={(e) => setMasterPassword(e.target.value)}
+                required
+                disabled={loading}
+                className="h-11"
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full h-11 text-base font-semibold"
+              disabled={loading || !file}
+            >
+              {loading ? "Reading..." : "Preview Import"}
+            </Button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {parsed.length} {parsed.length === 1 ? "entry" : "entries"} found
+              {duplicates.size > 0 &&
+                ` · ${duplicates.size} already in your vault`}
+            </p>
+
+            <div className="max-h-80 overflow-y-auto rounded-xl border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all"
+                        checked={selected.size === parsed.length}
+                        onChange={(e) =>
+                          setSelected(
+                            e.target.checked
+                              ? new Set(parsed.map((entry) => entry.id))
+                              : new Set(),
+                          )
+                        }
+                      />
+                    </TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parsed.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          aria-label={`Import ${entry.name}`}
+                          checked={selected.has(entry.id)}
+                          onChange={() => toggleSelected(entry.id)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium max-w-40 truncate">
+                        {entry.name}
+                      </TableCell>
+                      <TableCell>{ENTRY_SCHEMAS[entry.type].label}</TableCell>
+                      <TableCell className="text-muted-foreground max-w-48 truncate">
+                        {getEntrySubtitle(entry)}
+                      </TableCell>
+                      <TableCell>
+                        {duplicates.has(entry.id) ? (
+                          <span className="text-xs font-medium text-amber-600 dark:text-amber-400">
+                            Duplicate
+                          </span>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">New</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={resetPreview}
+                disabled={loading}
+                className="flex-1 h-11"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={loading || selectedEntries.length === 0}
+                className="flex-1 h-11 font-semibold"
+              >
+                {loading
+                  ? "Encrypting..."
+                  : `Import ${selectedEntries.length} ${
+                      selectedEntries.length === 1 ? "Entry" : "Entries"
+                    }`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
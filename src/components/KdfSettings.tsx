@@ -0,0 +1,357 @@
+import { useEffect, useState } from "react";
+import { api } from "../lib/api";
+import { fetchAccountKdf, loadAccountKdf } from "../lib/auth";
+import {
+  benchmarkKdf,
+  decryptVault,
+  deriveCredentials,
+  encryptVault,
+  DEFAULT_ARGON2ID,
+  DEFAULT_KDF,
+  KDF_LIMITS,
+  type KdfParams,
+} from "../lib/crypto";
+import { loadEncryptedVault, storeVaultBlob } from "../lib/sync";
+import { clearPasskeys } from "../lib/passkey";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Slider } from "./ui/slider";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertCircle, CheckCircle2, Cpu, Gauge } from "lucide-react";
+
+// Target unlock time for the benchmark hint
+const UNLOCK_BUDGET_MS = 1000;
+
+const describeKdf = (kdf: KdfParams) =>
+  kdf.name === "Argon2id"
+    ? `Argon2id · ${kdf.memory / 1024} MiB · ${kdf.iterations} passes · ${kdf.parallelism} lanes`
+    : `PBKDF2-SHA256 · ${kdf.iterations.toLocaleString()} iterations`;
+
+interface KdfSettingsProps {
+  onLogout: () => void;
+}
+
+export default function KdfSettings({ onLogout }: KdfSettingsProps) {
+  const [currentKdf, setCurrentKdf] = useState<KdfParams | null>(null);
+  const [algorithm, setAlgorithm] = useState<KdfParams["name"]>("PBKDF2");
+  const [pbkdf2Iterations, setPbkdf2Iterations] = useState(
+    DEFAULT_KDF.iterations,
+  );
+  const [argonMemoryMiB, setArgonMemoryMiB] = useState(
+    DEFAULT_ARGON2ID.memory / 1024,
+  );
+  const [argonIterations, setArgonIterations] = useState(
+    DEFAULT_ARGON2ID.iterations,
+  );
+  const [argonParallelism, setArgonParallelism] = useState(
+    DEFAULT_ARGON2ID.parallelism,
+  );
+  const [benchmarkMs, setBenchmarkMs] = useState<number | null>(null);
+  const [benchmarking, setBenchmarking] = useState(false);
+  const [masterPassword, setMasterPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    const loadCurrentKdf = async () => {
+      try {
+        const email = api.getAccountEmail();
+        if (!email) return;
+        const kdf = await loadAccountKdf(email);
+        setCurrentKdf(kdf);
+        setAlgorithm(kdf.name);
+        if (kdf.name === "Argon2id") {
+          setArgonMemoryMiB(kdf.memory / 1024);
+          setArgonIterations(kdf.iterations);
+          setArgonParallelism(kdf.parallelism);
+        } else {
+          setPbkdf2Iterations(kdf.iterations);
+        }
+      } catch (err) {
+        console.error("Load KDF settings error:", err);
+      }
+    };
+    loadCurrentKdf();
+  }, []);
+
+  const selectedKdf: KdfParams =
+    algorithm === "Argon2id"
+      ? {
+          name: "Argon2id",
+          memory: argonMemoryMiB * 1024,
+          iterations: argonIterations,
+          parallelism: argonParallelism,
+        }
+      : { name: "PBKDF2", hash: "SHA-256", iterations: pbkdf2Iterations };
+
+  const resetBenchmark = () => setBenchmarkMs(null);
+
+  const handleBenchmark = async () => {
+    setBenchmarking(true);
+    setError("");
+    try {
+      setBenchmarkMs(await benchmarkKdf(selectedKdf));
+    } catch (err) {
+      console.error("KDF benchmark error:", err);
+      setError("Benchmark failed. Try lower memory settings.");
+    } finally {
+      setBenchmarking(false);
+    }
+  };
+
+  // The master password is stretched with the new settings, which gives a
+  // new auth hash and vault key: like a password change, the re-encrypted
+  // vault travels with the new hash so the backend applies both or neither.
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setLoading(true);
+
+    try {
+      const email = api.getAccountEmail();
+      if (!email) {
+        throw new Error("Session expired. Please login again.");
+      }
+      const response = await loadEncryptedVault();
+      if (response.offline) {
+        throw new Error(
+          "You're offline. Reconnect to change key derivation settings.",
+        );
+      }
+      const current = await deriveCredentials(
+        masterPassword,
+        email,
+        await fetchAccountKdf(email),
+      );
+      const next = await deriveCredentials(masterPassword, email, selectedKdf);
+
+      let reencryptedVault: string | undefined;
+      if (response.encrypted_vault) {
+        let vault;
+        try {
+          vault = await decryptVault(
+            response.encrypted_vault,
+            current.encryptionKey,
+          );
+        } catch {
+          throw new Error("Master password is incorrect");
+        }
+        // The envelope records the same settings
+        reencryptedVault = await encryptVault(
+          vault,
+          next.encryptionKey,
+          selectedKdf,
+        );
+      }
+
+      const { revision } = await api.changePassword({
+        current_password_hash: current.authHash,
+        new_password_hash: next.authHash,
+        encrypted_vault: reencryptedVault,
+        kdf: selectedKdf,
+      });
+      api.setAccountKdf(selectedKdf);
+      if (reencryptedVault) {
+        await storeVaultBlob(reencryptedVault, revision);
+      }
+      // They hold the old vault key
+      clearPasskeys(email);
+
+      setCurrentKdf(selectedKdf);
+      setMasterPassword("");
+      setSuccess("Key derivation settings updated. Please log in again.");
+
+      setTimeout(() => {
+        onLogout();
+      }, 2000);
+    } catch (err) {
+      console.error("Apply KDF error:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to update key derivation",
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <Cpu className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Key Derivation</CardTitle>
+        </div>
+        <CardDescription>
+          {currentKdf
+            ? `Current: ${describeKdf(currentKdf)}`
+            : "Choose how your master password is stretched before it signs you in and unlocks the vault"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleApply} className="space-y-5">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert className="bg-green-500/10 border-green-500/20 text-green-600 dark:text-green-400">
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>{success}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant={algorithm === "PBKDF2" ? "default" : "outline"}
+              onClick={() => {
+                setAlgorithm("PBKDF2");
+                resetBenchmark();
+              }}
+              className="flex-1"
+            >
+              PBKDF2
+            </Button>
+            <Button
+              type="button"
+              variant={algorithm === "Argon2id" ? "default" : "outline"}
+              onClick={() => {
+                setAlgorithm("Argon2id");
+                resetBenchmark();
+              }}
+              className="flex-1"
+            >
+              Argon2id
+            </Button>
+          </div>
+
+          {algorithm === "PBKDF2" ? (
+            <div className="space-y-3">
+              <Label>Iterations: {pbkdf2Iterations.toLocaleString()}</Label>
+              <Slider
+                value={[pbkdf2Iterations]}
+                onValueChange={(value) => {
+                  setPbkdf2Iterations(value[0]);
+                  resetBenchmark();
+                }}
+                min={KDF_LIMITS.pbkdf2Iterations.min}
+                max={KDF_LIMITS.pbkdf2Iterations.max}
+                step={50000}
+              />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="space-y-3">
+                <Label>Memory: {argonMemoryMiB} MiB</Label>
+                <Slider
+                  value={[argonMemoryMiB]}
+                  onValueChange={(value) => {
+                    setArgonMemoryMiB(value[0]);
+                    resetBenchmark();
+                  }}
+                  min={KDF_LIMITS.argon2MemoryMiB.min}
+                  max={KDF_LIMITS.argon2MemoryMiB.max}
+                  step={16}
+                />
+              </div>
+              <div className="space-y-3">
+                <Label>Iterations: {argonIterations}</Label>
+                <Slider
+                  value={[argonIterations]}
+                  onValueChange={(value) => {
+                    setArgonIterations(value[0]);
+                    resetBenchmark();
+                  }}
+                  min={KDF_LIMITS.argon2Iterations.min}
+                  max={KDF_LIMITS.argon2Iterations.max}
+                  step={1}
+                />
+              </div>
+              <div className="space-y-3">
+                <Label>Parallelism: {argonParallelism}</Label>
+                <Slider
+                  value={[argonParallelism]}
+                  onValueChange={(value) => {
+                    setArgonParallelism(value[0]);
+                    resetBenchmark();
+                  }}
+                  min={KDF_LIMITS.argon2Parallelism.min}
+                  max={KDF_LIMITS.argon2Parallelism.max}
+                  step={1}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-3 p-4 rounded-xl bg-muted border">
+            <div className="flex items-center gap-2 text-sm">
+              <Gauge className="h-4 w-4 text-muted-foreground" />
+              {benchmarkMs === null ? (
+                <span className="text-muted-foreground">
+                  Measure unlock time on this device
+                </span>
+              ) : (
+                <span
+                  className={
+                    benchmarkMs <= UNLOCK_BUDGET_MS
+                      ? "font-medium text-green-600 dark:text-green-400"
+                      : "font-medium text-destructive"
+                  }
+                >
+                  ~{Math.round(benchmarkMs)} ms per unlock
+                  {benchmarkMs > UNLOCK_BUDGET_MS && " (slower than 1s)"}
+                </span>
+              )}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleBenchmark}
+              disabled={benchmarking}
+            >
+              {benchmarking ? "Measuring..." : "Run Benchmark"}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="kdfMasterPassword">Master Password</Label>
+            <Input
+              id="kdfMasterPassword"
+              type="password"
+              placeholder="••••••••"
+              value={masterPassword}
+              onChange={(e) => setMasterPassword(e.target.value)}
+              required
+              disabled={loading}
+              className="h-11"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full h-11 text-base font-semibold"
+            disabled={loading}
+          >
+            {loading ? "Re-encrypting..." : "Apply to Account"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { api } from "../lib/api";
+import { loginWithMasterPassword, type PendingLogin } from "../lib/auth";
+import MfaPrompt from "./MfaPrompt";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -13,7 +14,7 @@ import {
   CardTitle,
 } from "./ui/card";
 import { Alert, AlertDescription } from "./ui/alert";
-import { Lock, Mail, AlertCircle } from "lucide-react";
+import { Lock, Mail, AlertCircle, ShieldCheck } from "lucide-react";
 
 interface LoginProps {
   onLoginSuccess: () => void;
@@ -24,6 +25,7 @@ export default function Login({ onLoginSuccess }: LoginProps) {
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [pending, setPending] = useState<PendingLogin | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,11 +33,12 @@ export default function Login({ onLoginSuccess }: LoginProps) {
     setLoading(true);
 
     try {
-      await api.login({
-        email,
-        master_password: password,
-      });
-      onLoginSuccess();
+      const next = await loginWithMasterPassword(email, password);
+      if (next) {
+        setPending(next);
+      } else {
+        onLoginSuccess();
+      }
     } catch (err) {
       console.error("Login error:", err);
       setError(err instanceof Error ? err.message : "Login failed");
@@ -50,65 +53,82 @@ export default function Login({ onLoginSuccess }: LoginProps) {
         <CardHeader className="space-y-1 pb-4">
           <div className="flex items-center justify-center mb-2">
             <div className="p-3 bg-primary/10 rounded-2xl">
-              <Lock className="w-8 h-8 text-primary" />
+              {pending ? (
+                <ShieldCheck className="w-8 h-8 text-primary" />
+              ) : (
+                <Lock className="w-8 h-8 text-primary" />
+              )}
             </div>
           </div>
           <CardTitle className="text-2xl font-bold tracking-tight text-center text-foreground">
-            Welcome Back
+            {pending ? "Two-Factor Authentication" : "Welcome Back"}
           </CardTitle>
           <CardDescription className="text-center text-base">
-            Securely access your digital keys
+            {pending
+              ? "One more step to access your vault"
+              : "Securely access your digital keys"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-5">
-            {error && (
-              <Alert variant="destructive" className="animate-in slide-in-from-top-2">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
+          {pending ? (
+            <MfaPrompt
+              pending={pending}
+              onVerified={onLoginSuccess}
+              onCancel={() => {
+                setPending(null);
+                setPassword("");
+              }}
+            />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              {error && (
+                <Alert variant="destructive" className="animate-in slide-in-from-top-2">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
 
-            <div className="space-y-2">
-              <Label htmlFor="email" className="text-sm font-medium ml-1">Email</Label>
-              <div className="relative group">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="name@example.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="pl-10 h-11"
-                  disabled={loading}
-                />
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-sm font-medium ml-1">Email</Label>
+                <div className="relative group">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="name@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="pl-10 h-11"
+                    disabled={loading}
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="space-y-2">
-              <div className="flex items-center justify-between ml-1">
-                <Label htmlFor="password" className="text-sm font-medium">Master Password</Label>
-              </div>
-              <div className="relative group">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="pl-10 h-11"
-                  disabled={loading}
-                />
+              <div className="space-y-2">
+                <div className="flex items-center justify-between ml-1">
+                  <Label htmlFor="password" className="text-sm font-medium">Master Password</Label>
+                </div>
+                <div className="relative group">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="pl-10 h-11"
+                    disabled={loading}
+                  />
+                </div>
               </div>
-            </div>
 
-            <Button type="submit" className="w-full h-11 text-base font-semibold" disabled={loading}>
-              {loading ? "Decrypting..." : "Unlock Vault"}
-            </Button>
-          </form>
+              <Button type="submit" className="w-full h-11 text-base font-semibold" disabled={loading}>
+                {loading ? "Decrypting..." : "Unlock Vault"}
+              </Button>
+            </form>
+          )}
         </CardContent>
         <CardFooter className="flex flex-col pt-0 pb-6">
           <div className="text-sm text-muted-foreground text-center">
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import type { PendingLogin } from "../lib/auth";
+import { parseMfaCode } from "../lib/mfa";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertCircle } from "lucide-react";
+
+interface MfaPromptProps {
+  pending: PendingLogin;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Second step of signing in, for accounts with two-factor authentication
+export default function MfaPrompt({
+  pending,
+  onVerified,
+  onCancel,
+}: MfaPromptProps) {
+  const canUseTotp = pending.methods.includes("totp");
+  const canUseRecovery = pending.methods.includes("recovery_code");
+  const [recovery, setRecovery] = useState(!canUseTotp);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const factor = parseMfaCode(code, recovery);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factor) return;
+    setError("");
+    setLoading(true);
+    try {
+      await pending.verify(factor);
+      onVerified();
+    } catch (err) {
+      console.error("Verification error:", err);
+      setError(err instanceof Error ? err.message : "Verification failed");
+      setLoading(false);
+    }
+  };
+
+  const switchMethod = () => {
+    setRecovery(!recovery);
+    setCode("");
+    setError("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="mfaCode" className="text-sm font-medium ml-1">
+          {recovery ? "Recovery code" : "Authentication code"}
+        </Label>
+        <Input
+          id="mfaCode"
+          key={recovery ? "recovery" : "totp"}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={recovery ? "xxxx-xxxx-xxxx" : "123 456"}
+          inputMode={recovery ? "text" : "numeric"}
+          autoComplete={recovery ? "off" : "one-time-code"}
+          autoFocus
+          required
+          disabled={loading}
+          className="h-11 font-mono tracking-wider"
+        />
+        <p className="text-xs text-muted-foreground ml-1">
+          {recovery
+            ? "Each recovery code works once."
+            : "Enter the code shown in your authenticator app."}
+        </p>
+      </div>
+
+      {canUseTotp && canUseRecovery && (
+        <button
+          type="button"
+          onClick={switchMethod}
+          className="text-sm text-primary hover:text-primary/80 transition-colors font-medium ml-1"
+        >
+          {recovery
+            ? "Use your authenticator app"
+            : "Use a recovery code instead"}
+        </button>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={loading}
+          className="h-11"
+        >
+          Back
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1 h-11 text-base font-semibold"
+          disabled={loading || !factor}
+        >
+          {loading ? "Verifying..." : "Verify"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useState } from "react";
+import {
+  api,
+  ApiError,
+  type MfaSetupResponse,
+  type MfaStatus,
+} from "../lib/api";
+import { copySecret } from "../lib/clipboard";
+import { saveExportFile } from "../lib/export";
+import {
+  formatTotpSecret,
+  otpauthQrCode,
+  parseMfaCode,
+  recoveryCodesFile,
+} from "../lib/mfa";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import {
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  Download,
+  ShieldCheck,
+} from "lucide-react";
+
+// setup: scanning the QR code; codes: showing fresh recovery codes;
+// disable/regenerate: asking for a code before changing anything
+type Step = "idle" | "setup" | "codes" | "disable" | "regenerate";
+
+const describeError = (err: unknown, fallback: string) => {
+  if (err instanceof ApiError && err.status === 400) {
+    return "Invalid code";
+  }
+  return err instanceof Error ? err.message : fallback;
+};
+
+export default function MfaSettings() {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [step, setStep] = useState<Step>("idle");
+  const [setup, setSetup] = useState<MfaSetupResponse | null>(null);
+  const [qrCode, setQrCode] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    api
+      .getMfaStatus()
+      .then(setStatus)
+      .catch((err) => {
+        console.error("Load MFA status error:", err);
+        setError("Couldn't load two-factor authentication settings");
+      });
+  }, []);
+
+  const reset = (next: Step = "idle") => {
+    setStep(next);
+    setCode("");
+    setError("");
+    setSuccess("");
+  };
+
+  // Run an action with the loading and error states handled
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setError("");
+    setSuccess("");
+    setLoading(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error("MFA settings error:", err);
+      setError(describeError(err, fallback));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showRecoveryCodes = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setStatus({ enabled: true, recovery_codes_remaining: codes.length });
+    reset("codes");
+  };
+
+  const handleSetup = () =>
+    run(async () => {
+      const response = await api.setupMfa();
+      setQrCode(await otpauthQrCode(response.otpauth_url));
+      setSetup(response);
+      reset("setup");
+    }, "Failed to start two-factor setup");
+
+  // Enabling needs a fresh authenticator code; turning it off or replacing
+  // recovery codes also takes a recovery code
+  const factor =
+    step === "setup"
+      ? parseMfaCode(code)
+      : parseMfaCode(code) ?? parseMfaCode(code, true);
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factor) return;
+
+    if (step === "setup" && "code" in factor) {
+      return run(async () => {
+        const { recovery_codes } = await api.enableMfa(factor.code);
+        setSetup(null);
+        setQrCode("");
+        showRecoveryCodes(recovery_codes);
+      }, "Failed to turn on two-factor authentication");
+    }
+    if (step === "regenerate") {
+      return run(async () => {
+        const { recovery_codes } = await api.regenerateRecoveryCodes(factor);
+        showRecoveryCodes(recovery_codes);
+      }, "Failed to create recovery codes");
+    }
+    return run(async () => {
+      await api.disableMfa(factor);
+      setStatus({ enabled: false });
+      reset();
+      setSuccess("Two-factor authentication is off.");
+    }, "Failed to turn off two-factor authentication");
+  };
+
+  const handleCopyCodes = async () => {
+    await copySecret(recoveryCodes.join("\n"));
+  };
+
+  const handleDownloadCodes = () =>
+    run(async () => {
+      await saveExportFile(
+        recoveryCodesFile(recoveryCodes, api.getAccountEmail()),
+      );
+    }, "Failed to save recovery codes");
+
+  const handleDone = () => {
+    setRecoveryCodes([]);
+    reset();
+  };
+
+  const remaining = status?.recovery_codes_remaining;
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Two-Factor Authentication</CardTitle>
+        </div>
+        <CardDescription>
+          {status?.enabled
+            ? `On${remaining !== undefined ? ` · ${remaining} recovery ${remaining === 1 ? "code" : "codes"} left` : ""}`
+            : "Ask for a code from an authenticator app when signing in"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert className="bg-green-500/10 border-green-500/20 text-green-600 dark:text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>{success}</AlertDescription>
+          </Alert>
+        )}
+
+        {step === "idle" && status && !status.enabled && (
+          <Button onClick={handleSetup} disabled={loading} className="w-full">
+            {loading ? "Starting..." : "Set up authenticator app"}
+          </Button>
+        )}
+
+        {step === "idle" && status?.enabled && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => reset("regenerate")}
+              className="flex-1"
+            >
+              New recovery codes
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => reset("disable")}
+              className="flex-1 text-destructive hover:text-destructive"
+            >
+              Turn off
+            </Button>
+          </div>
+        )}
+
+        {step === "codes" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Save these recovery codes somewhere safe. Each one signs you in
+              once if you lose your authenticator app, and they won't be shown
+              again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 p-3 rounded-lg bg-muted font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleCopyCodes} className="flex-1">
+                <Copy className="w-4 h-4" />
+                Copy
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleDownloadCodes}
+                disabled={loading}
+                className="flex-1"
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </Button>
+              <Button onClick={handleDone} className="flex-1">
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(step === "setup" || step === "disable" || step === "regenerate") && (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            {step === "setup" && setup && (
+              <div className="flex flex-col items-center gap-3">
+                <img
+                  src={qrCode}
+                  alt="QR code for your authenticator app"
+                  className="w-44 h-44 rounded-lg bg-white p-2"
+                />
+                <p className="text-sm text-muted-foreground text-center">
+                  Scan this with your authenticator app, or enter the key{" "}
+                  <span className="font-mono text-foreground break-all">
+                    {formatTotpSecret(setup.secret)}
+                  </span>
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="mfaSettingsCode">
+                {step === "setup"
+                  ? "Code from the app"
+                  : "Authentication or recovery code"}
+              </Label>
+              <Input
+                id="mfaSettingsCode"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                required
+                disabled={loading}
+                className="font-mono tracking-wider"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setSetup(null);
+                  reset();
+                }}
+                disabled={loading}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={step === "disable" ? "destructive" : "default"}
+                disabled={loading || !factor}
+                className="flex-1"
+              >
+                {step === "setup"
+                  ? "Turn on"
+                  : step === "disable"
+                    ? "Turn off"
+                    : "Create new codes"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
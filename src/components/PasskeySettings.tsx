@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { api } from "../lib/api";
+import { deriveVaultKey } from "../lib/auth";
+import { decryptVault } from "../lib/crypto";
+import {
+  enrollPasskey,
+  isPasskeySupported,
+  listPasskeys,
+  removePasskey,
+  type PasskeyRecord,
+} from "../lib/passkey";
+import { loadEncryptedVault } from "../lib/sync";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "./ui/card";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertCircle, CheckCircle2, Fingerprint, Trash2 } from "lucide-react";
+
+export default function PasskeySettings() {
+  const email = api.getAccountEmail();
+  const [passkeys, setPasskeys] = useState<PasskeyRecord[]>(() =>
+    email ? listPasskeys(email) : [],
+  );
+  const [name, setName] = useState("");
+  const [masterPassword, setMasterPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+  const supported = isPasskeySupported();
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) return;
+    setError("");
+    setSuccess("");
+    setLoading(true);
+
+    try {
+      // Check the key against the vault, or the passkey would wrap a key
+      // that can't open it
+      const key = await deriveVaultKey(masterPassword);
+      const response = await loadEncryptedVault();
+      if (response.encrypted_vault) {
+        try {
+          await decryptVault(response.encrypted_vault, key);
+        } catch {
+          throw new Error("Master password is incorrect");
+        }
+      }
+
+      await enrollPasskey(email, key, name);
+      setPasskeys(listPasskeys(email));
+      setName("");
+      setMasterPassword("");
+      setSuccess("Passkey added. Use it the next time you unlock the vault.");
+    } catch (err) {
+      console.error("Add passkey error:", err);
+      setError(err instanceof Error ? err.message : "Failed to add passkey");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemove = (passkey: PasskeyRecord) => {
+    if (!email || !confirm(`Remove "${passkey.name}"?`)) return;
+    removePasskey(passkey.id);
+    setPasskeys(listPasskeys(email));
+    setSuccess("");
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3 mb-1">
+          <div className="p-2 bg-primary/10 rounded-xl">
+            <Fingerprint className="w-5 h-5 text-primary" />
+          </div>
+          <CardTitle className="text-xl">Passkey Unlock</CardTitle>
+        </div>
+        <CardDescription>
+          Unlock the vault on this device with a passkey, fingerprint or face
+          instead of typing your master password. The master password keeps
+          working.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">
+            Passkeys aren't available in this browser.
+          </p>
+        ) : (
+          <>
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {success && (
+              <Alert className="bg-green-500/10 border-green-500/20 text-green-600 dark:text-green-400">
+                <CheckCircle2 className="h-4 w-4" />
+                <AlertDescription>{success}</AlertDescription>
+              </Alert>
+            )}
+
+            {passkeys.length > 0 && (
+              <ul className="divide-y border rounded-lg">
+                {passkeys.map((passkey) => (
+                  <li
+                    key={passkey.id}
+                    className="flex items-center justify-between gap-4 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {passkey.name}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(passkey)}
+                      title={`Remove ${passkey.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <form onSubmit={handleAdd} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="passkeyName">Name</Label>
+                <Input
+                  id="passkeyName"
+                  placeholder="This laptop"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="passkeyMasterPassword">Master Password</Label>
+                <Input
+                  id="passkeyMasterPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={masterPassword}
+                  onChange={(e) => setMasterPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loading || !masterPassword}
+              >
+                {loading ? "Waiting for passkey..." : "Add passkey"}
+              </Button>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { getHistoryFieldLabel, type PasswordHistoryItem } from "../lib/entries";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { ChevronDown, ChevronRight, Copy, Eye, EyeOff, History } from "lucide-react";
+
+interface PasswordHistoryProps {
+  history: PasswordHistoryItem[];
+  onCopy: (value: string) => void;
+}
+
+export default function PasswordHistory({ history, onCopy }: PasswordHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [revealed, setRevealed] = useState<Record<number, boolean>>({});
+
+  return (
+    <div className="rounded-xl border bg-muted/10">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between gap-2 p-4 text-left"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+      >
+        <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2 cursor-pointer">
+          <History className="w-3 h-3" /> Password history
+          <span className="normal-case tracking-normal">({history.length})</span>
+        </Label>
+        {open ? (
+          <ChevronDown className="w-4 h-4 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-muted-foreground" />
+        )}
+      </button>
+
+      {open && (
+        <ul className="border-t divide-y">
+          {history.map((item, index) => (
+            <li
+              key={`${item.changedAt}:${index}`}
+              className="flex items-center justify-between gap-2 px-4 py-3"
+            >
+              <div className="min-w-0 space-y-0.5">
+                <span className="block font-mono text-sm tracking-wider break-all">
+                  {revealed[index] ? item.value : "••••••••••••"}
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  {getHistoryFieldLabel(item.field)} · replaced{" "}
+                  {new Date(item.changedAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                  title={revealed[index] ? "Hide" : "Reveal"}
+                  onClick={() =>
+                    setRevealed({ ...revealed, [index]: !revealed[index] })
+                  }
+                >
+                  {revealed[index] ? (
+                    <EyeOff className="w-4 h-4" />
+                  ) : (
+                    <Eye className="w-4 h-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                  title="Copy"
+                  onClick={() => onCopy(item.value)}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { copySecret } from "../lib/clipboard";
 import { Button } from "./ui/button";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
@@ -146,9 +147,12 @@ export default function PasswordGenerator({
   };
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(password);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+    copySecret(password)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch((err) => console.error("Copy error:", err));
   };
 
   const handleUsePassword = () => {
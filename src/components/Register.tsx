@@ -1,7 +1,11 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
 import { api } from "../lib/api";
-import { encryptVault, createEmptyVault } from "../lib/crypto";
+import {
+  encryptVault,
+  createEmptyVault,
+  deriveCredentials,
+} from "../lib/crypto";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -62,18 +66,22 @@ export default function Register({ onRegisterSuccess }: RegisterProps) {
     setLoading(true);
 
     try {
+      const { authHash, encryptionKey } = await deriveCredentials(
+        password,
+        email,
+      );
       const emptyVault = createEmptyVault();
-      const encryptedVault = await encryptVault(emptyVault, password);
+      const encryptedVault = await encryptVault(emptyVault, encryptionKey);
 
       await api.register({
         email,
-        master_password: password,
+        master_password_hash: authHash,
         encrypted_vault: encryptedVault,
       });
 
       await api.login({
         email,
-        master_password: password,
+        master_password_hash: authHash,
       });
 
       onRegisterSuccess();
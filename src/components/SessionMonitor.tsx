@@ -0,0 +1,181 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { api } from "../lib/api";
+import { loginWithMasterPassword, type PendingLogin } from "../lib/auth";
+import {
+  checkSession,
+  getSessionState,
+  refreshSession,
+  startSessionWatch,
+  subscribeSession,
+} from "../lib/session";
+import { flushVaultQueue } from "../lib/sync";
+import MfaPrompt from "./MfaPrompt";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Alert, AlertDescription } from "./ui/alert";
+import { AlertCircle, Clock } from "lucide-react";
+
+interface SessionMonitorProps {
+  onLogout: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Rendered next to the routes while logged in. The page underneath stays
+// mounted while signing in again, so an open edit form keeps its contents.
+export default function SessionMonitor({ onLogout }: SessionMonitorProps) {
+  const sessionState = useSyncExternalStore(subscribeSession, getSessionState);
+  const [now, setNow] = useState(() => Date.now());
+  const [signInOpen, setSignInOpen] = useState(false);
+  const [masterPassword, setMasterPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [pending, setPending] = useState<PendingLogin | null>(null);
+
+  useEffect(() => startSessionWatch(), []);
+
+  useEffect(() => {
+    if (sessionState !== "expiring") return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [sessionState]);
+
+  const expiresAt = api.getSessionExpiry();
+  const email = api.getAccountEmail();
+
+  const handleStaySignedIn = async () => {
+    if (!(await refreshSession())) setSignInOpen(true);
+  };
+
+  const finishSignIn = () => {
+    setPending(null);
+    setSignInOpen(false);
+    checkSession();
+    // Push whatever was saved while signed out
+    flushVaultQueue().catch((err) => console.error("Vault sync error:", err));
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email) {
+      onLogout();
+      return;
+    }
+    setError("");
+    setLoading(true);
+    try {
+      const next = await loginWithMasterPassword(email, masterPassword);
+      setMasterPassword("");
+      if (next) {
+        setPending(next);
+      } else {
+        finishSignIn();
+      }
+    } catch (err) {
+      console.error("Sign in error:", err);
+      setError(err instanceof Error ? err.message : "Sign in failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const expired = sessionState === "expired";
+
+  return (
+    <>
+      {sessionState === "expiring" && expiresAt !== null && (
+        <div
+          role="alert"
+          className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md rounded-xl border border-amber-500/30 bg-background shadow-lg"
+        >
+          <div className="flex items-center gap-3 px-4 py-3">
+            <Clock className="w-4 h-4 shrink-0 text-amber-500" />
+            <span className="flex-1 text-sm">
+              Your session ends in{" "}
+              <span className="tabular-nums font-medium">
+                {formatRemaining(expiresAt - now)}
+              </span>
+            </span>
+            <Button size="sm" onClick={handleStaySignedIn} className="h-8">
+              Stay signed in
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={expired || signInOpen} onOpenChange={setSignInOpen}>
+        <DialogContent
+          className="border shadow-2xl max-w-md"
+          showCloseButton={!expired}
+          onEscapeKeyDown={(e) => expired && e.preventDefault()}
+          onInteractOutside={(e) => expired && e.preventDefault()}
+        >
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold">
+              {expired ? "Session Expired" : "Stay Signed In"}
+            </DialogTitle>
+            <DialogDescription>
+              {pending
+                ? "Confirm it's you with your second factor."
+                : `Enter your master password to continue as ${email}.`}{" "}
+              Anything you were editing is still here, and saved changes sync
+              once you're signed in.
+            </DialogDescription>
+          </DialogHeader>
+
+          {pending ? (
+            <MfaPrompt
+              pending={pending}
+              onVerified={finishSignIn}
+              onCancel={() => setPending(null)}
+            />
+          ) : (
+            <form onSubmit={handleSignIn} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="sessionMasterPassword">Master Password</Label>
+                <Input
+                  id="sessionMasterPassword"
+                  type="password"
+                  placeholder="••••••••"
+                  value={masterPassword}
+                  onChange={(e) => setMasterPassword(e.target.value)}
+                  required
+                  disabled={loading}
+                  autoFocus
+                  className="h-11"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={onLogout}>
+                  Sign out
+                </Button>
+                <Button type="submit" disabled={loading || !masterPassword}>
+                  {loading ? "Signing in..." : "Sign in"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,6 +1,15 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { api } from "../lib/api";
+import { fetchAccountKdf } from "../lib/auth";
+import {
+  decryptVault,
+  deriveCredentials,
+  encryptVault,
+  getVaultKdf,
+} from "../lib/crypto";
+import { loadEncryptedVault, storeVaultBlob } from "../lib/sync";
+import { clearPasskeys } from "../lib/passkey";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
@@ -13,6 +22,13 @@ import {
 } from "./ui/card";
 import { Alert, AlertDescription } from "./ui/alert";
 import { ArrowLeft, Lock, AlertCircle, CheckCircle2 } from "lucide-react";
+import MfaSettings from "./MfaSettings";
+import PasskeySettings from "./PasskeySettings";
+import AutoLockSettings from "./AutoLockSettings";
+import ClipboardSettings from "./ClipboardSettings";
+import KdfSettings from "./KdfSettings";
+import ImportSettings from "./ImportSettings";
+import ExportSettings from "./ExportSettings";
 
 interface SettingsProps {
   onLogout: () => void;
@@ -28,6 +44,7 @@ export default function Settings({ onLogout }: SettingsProps) {
   const [error, setError] = useState("");
   const [success, setSuccess] = useState("");
   const navigate = useNavigate();
+  const sessionExpiry = api.getSessionExpiry();
 
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,10 +64,53 @@ export default function Settings({ onLogout }: SettingsProps) {
     setLoading(true);
 
     try {
-      await api.changePassword({
-        current_password: currentPassword,
-        new_password: newPassword,
+      // Re-encrypt the vault under the new password before touching the
+      // credentials. Nothing is sent to the server until both steps succeed,
+      // and the new blob travels with the password change so the backend
+      // can apply them atomically.
+      const email = api.getAccountEmail();
+      if (!email) {
+        throw new Error("Session expired. Please login again.");
+      }
+      // The new password keeps the account's KDF
+      const kdf = await fetchAccountKdf(email);
+      const current = await deriveCredentials(currentPassword, email, kdf);
+      const next = await deriveCredentials(newPassword, email, kdf);
+
+      // Includes edits still queued on this device, so they aren't lost
+      // when the queue is replaced below
+      let reencryptedVault: string | undefined;
+      const response = await loadEncryptedVault();
+      if (response.offline) {
+        throw new Error("You're offline. Reconnect to change your password.");
+      }
+      if (response.encrypted_vault) {
+        let vault;
+        try {
+          vault = await decryptVault(
+            response.encrypted_vault,
+            current.encryptionKey,
+          );
+        } catch {
+          throw new Error("Current master password is incorrect");
+        }
+        reencryptedVault = await encryptVault(
+          vault,
+          next.encryptionKey,
+          getVaultKdf(response.encrypted_vault),
+        );
+      }
+
+      const { revision } = await api.changePassword({
+        current_password_hash: current.authHash,
+        new_password_hash: next.authHash,
+        encrypted_vault: reencryptedVault,
       });
+      if (reencryptedVault) {
+        await storeVaultBlob(reencryptedVault, revision);
+      }
+      // They hold the old vault key
+      clearPasskeys(email);
 
       setSuccess("Password changed successfully! Please log in again.");
       setCurrentPassword("");
@@ -185,6 +245,20 @@ export default function Settings({ onLogout }: SettingsProps) {
           </CardContent>
         </Card>
 
+        <MfaSettings />
+
+        <PasskeySettings />
+
+        <AutoLockSettings />
+
+        <ClipboardSettings />
+
+        <KdfSettings onLogout={onLogout} />
+
+        <ImportSettings />
+
+        <ExportSettings />
+
         <Card className="border shadow-sm">
           <CardHeader className="pb-2">
             <CardTitle className="text-xl">Account Session</CardTitle>
@@ -203,7 +277,9 @@ export default function Settings({ onLogout }: SettingsProps) {
                   Active Session
                 </span>
                 <span className="text-xs text-muted-foreground block">
-                  Expires on browser close
+                  {sessionExpiry
+                    ? `Expires ${new Date(sessionExpiry).toLocaleString()}`
+                    : "Expires on browser close"}
                 </span>
               </div>
               <Button
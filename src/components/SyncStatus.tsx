@@ -0,0 +1,86 @@
+import { useSyncExternalStore } from "react";
+import {
+  flushVaultQueue,
+  getSyncError,
+  getSyncState,
+  subscribeSyncState,
+  type SyncState,
+} from "../lib/sync";
+import { Button } from "./ui/button";
+import {
+  CloudAlert,
+  CloudCheck,
+  CloudOff,
+  CloudUpload,
+  GitMerge,
+  RefreshCw,
+  type LucideIcon,
+} from "lucide-react";
+
+const SYNC_DISPLAY: Record<
+  SyncState,
+  { label: string; title: string; icon: LucideIcon; className: string }
+> = {
+  synced: {
+    label: "Synced",
+    title: "All changes are saved to the server",
+    icon: CloudCheck,
+    className: "text-muted-foreground",
+  },
+  syncing: {
+    label: "Syncing",
+    title: "Saving changes to the server",
+    icon: RefreshCw,
+    className: "text-muted-foreground [&_svg]:animate-spin",
+  },
+  pending: {
+    label: "Pending",
+    title: "Changes are saved on this device and will sync when you're back online",
+    icon: CloudUpload,
+    className: "text-amber-600 dark:text-amber-400",
+  },
+  offline: {
+    label: "Offline",
+    title: "Showing the copy saved on this device",
+    icon: CloudOff,
+    className: "text-amber-600 dark:text-amber-400",
+  },
+  error: {
+    label: "Sync error",
+    title: "Changes are saved on this device but the server rejected them",
+    icon: CloudAlert,
+    className: "text-destructive",
+  },
+  conflict: {
+    label: "Merging",
+    title: "The vault was changed on another device; unlock it to merge the changes",
+    icon: GitMerge,
+    className: "text-amber-600 dark:text-amber-400",
+  },
+};
+
+export default function SyncStatus() {
+  const state = useSyncExternalStore(subscribeSyncState, getSyncState);
+  const display = SYNC_DISPLAY[state];
+  const Icon = display.icon;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => {
+        flushVaultQueue().catch((err) => console.error("Vault sync error:", err));
+      }}
+      disabled={state === "syncing"}
+      className={`rounded-lg h-9 gap-2 ${display.className}`}
+      title={
+        state === "error" && getSyncError()
+          ? `${display.title}: ${getSyncError()}`
+          : display.title
+      }
+    >
+      <Icon className="w-4 h-4" />
+      <span className="hidden lg:inline text-xs font-medium">{display.label}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useMemo, useState } from "react";
+import { generateTotp, parseTotp, type TotpCode as Code } from "../lib/totp";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { AlertCircle, Copy, Timer } from "lucide-react";
+
+interface TotpCodeProps {
+  uri: string;
+  onCopy: (code: string) => void;
+}
+
+const RING_RADIUS = 14;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
+// "123456" -> "123 456", "12345678" -> "1234 5678"
+const formatCode = (code: string) => {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+};
+
+export default function TotpCode({ uri, onCopy }: TotpCodeProps) {
+  const parsed = useMemo(() => {
+    try {
+      return { config: parseTotp(uri), error: "" };
+    } catch (err) {
+      return {
+        config: null,
+        error: err instanceof Error ? err.message : "Invalid authenticator key",
+      };
+    }
+  }, [uri]);
+  const [current, setCurrent] = useState<Code | null>(null);
+
+  useEffect(() => {
+    const { config } = parsed;
+    setCurrent(null);
+    if (!config) return;
+
+    let cancelled = false;
+    const tick = async () => {
+      const next = await generateTotp(config);
+      if (!cancelled) setCurrent(next);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [parsed]);
+
+  const period = parsed.config?.period ?? 30;
+  const remaining = current?.remaining ?? period;
+  const expiring = remaining <= 5;
+
+  return (
+    <div className="space-y-1.5 p-4 rounded-xl border bg-muted/10">
+      <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+        <Timer className="w-3 h-3" /> One-Time Code
+        {parsed.config?.issuer && (
+          <span className="normal-case tracking-normal">
+            · {parsed.config.issuer}
+          </span>
+        )}
+      </Label>
+      {parsed.error ? (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4" />
+          {parsed.error}
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-2">
+          <span
+            className={`font-mono text-xl md:text-2xl tracking-widest ${
+              expiring ? "text-destructive" : ""
+            }`}
+          >
+            {current ? formatCode(current.code) : "••• •••"}
+          </span>
+          <div className="flex items-center gap-2 shrink-0">
+            <div
+              className="relative w-8 h-8"
+              title={`${remaining}s remaining`}
+            >
+              <svg viewBox="0 0 32 32" className="w-8 h-8 -rotate-90">
+                <circle
+                  cx="16"
+                  cy="16"
+                  r={RING_RADIUS}
+                  fill="none"
+                  strokeWidth="3"
+                  className="stroke-muted"
+                />
+                <circle
+                  cx="16"
+                  cy="16"
+                  r={RING_RADIUS}
+                  fill="none"
+                  strokeWidth="3"
+                  strokeLinecap="round"
+                  strokeDasharray={RING_CIRCUMFERENCE}
+                  strokeDashoffset={
+                    RING_CIRCUMFERENCE * (1 - remaining / period)
+                  }
+                  className={`transition-[stroke-dashoffset] duration-1000 ease-linear ${
+                    expiring ? "stroke-destructive" : "stroke-primary"
+                  }`}
+                />
+              </svg>
+              <span className="absolute inset-0 flex items-center justify-center text-[10px] font-medium">
+                {remaining}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              onClick={() => current && onCopy(current.code)}
+              disabled={!current}
+              title="Copy code"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,83 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import {
+  useState,
+  useEffect,
+  useRef,
+  useSyncExternalStore,
+  type DragEvent,
+} from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { api } from "../lib/api";
+import { deriveVaultKey } from "../lib/auth";
+import {
+  fetchVaultConflict,
+  getSyncError,
+  getSyncState,
+  loadEncryptedVault,
+  queueVaultUpdate,
+  resolveVaultConflict,
+  startBackgroundSync,
+  subscribeSyncState,
+} from "../lib/sync";
+import {
+  applyConflictChoices,
+  mergeVaults,
+  type ConflictChoice,
+  type EntryConflict,
+} from "../lib/merge";
 import {
+  createEmptyVault,
   decryptVault,
   encryptVault,
+  getVaultKdf,
+  type Folder,
+  type KdfParams,
   type Vault,
   type VaultEntry,
 } from "../lib/crypto";
+import {
+  buildFolderTree,
+  collectTags,
+  createFolder,
+  deleteFolder,
+  flattenFolderTree,
+  getFolderPath,
+  getFolderWithDescendants,
+  matchesFilter,
+  moveEntries,
+  parseTags,
+  tagEntries,
+  type ListFilter,
+} from "../lib/folders";
+import { searchEntries } from "../lib/search";
+import { checkVaultBreaches, getBreachSource } from "../lib/breach";
+import { watchAutoLock } from "../lib/autolock";
+import { copySecret } from "../lib/clipboard";
+import {
+  isPasskeySupported,
+  listPasskeys,
+  unlockWithPasskey,
+} from "../lib/passkey";
+import {
+  ENTRY_SCHEMAS,
+  ENTRY_SORTS,
+  ENTRY_TYPES,
+  cleanCustomFields,
+  createCustomField,
+  getEntrySubtitle,
+  getEntryUrl,
+  getFieldValue,
+  normalizeEntry,
+  sortEntries,
+  updatePasswordHistory,
+  type CustomField,
+  type CustomFieldType,
+  type EntrySort,
+  type EntryType,
+} from "../lib/entries";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
 import {
   Card,
   CardContent,
@@ -43,8 +111,34 @@ import {
   ArrowLeft,
   LucideDice3,
   Pencil,
+  KeyRound,
+  CreditCard,
+  IdCard,
+  StickyNote,
+  SquareTerminal,
+  Braces,
+  Wifi,
+  ArrowUp,
+  ArrowDown,
+  ListPlus,
+  Timer,
+  Folder as FolderIcon,
+  Tag,
+  CheckSquare,
+  Star,
+  ShieldCheck,
+  ShieldX,
+  Fingerprint,
+  type LucideIcon,
 } from "lucide-react";
 import PasswordGenerator from "./Passwordgenerator";
+import ConflictDialog from "./ConflictDialog";
+import FolderTree, { ENTRY_DRAG_TYPE } from "./FolderTree";
+import BulkActions from "./BulkActions";
+import TotpCode from "./TotpCode";
+import PasswordHistory from "./PasswordHistory";
+import SyncStatus from "./SyncStatus";
+import HighlightedText from "./HighlightedText";
 
 interface VaultProps {
   onLogout: () => void;
@@ -54,6 +148,65 @@ interface VaultProps {
 
 type ViewMode = "view" | "create" | "edit";
 
+// Each attempt refetches the server copy; more than a few in a row means
+// another device is saving continuously
+const MAX_MERGE_ATTEMPTS = 3;
+
+// Copying several values in a row counts as one use, so browsing an entry
+// doesn't save the vault on every click
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const SORT_STORAGE_KEY = "vault_sort";
+
+const formatTimestamp = (time: number) =>
+  new Date(time).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+interface EntryForm {
+  type: EntryType;
+  name: string;
+  notes: string;
+  totp: string;
+  // "" for no folder
+  folderId: string;
+  // Comma-separated
+  tags: string;
+  fields: Record<string, string>;
+  customFields: CustomField[];
+}
+
+const ENTRY_ICONS: Record<EntryType, LucideIcon> = {
+  login: KeyRound,
+  card: CreditCard,
+  identity: IdCard,
+  note: StickyNote,
+  sshKey: SquareTerminal,
+  apiToken: Braces,
+  wifi: Wifi,
+};
+
+const emptyEntryForm = (
+  type: EntryType = "login",
+  folderId = "",
+): EntryForm => ({
+  type,
+  name: "",
+  notes: "",
+  totp: "",
+  folderId,
+  tags: "",
+  fields: {},
+  customFields: [],
+});
+
+const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: "text", label: "Text" },
+  { type: "hidden", label: "Hidden" },
+  { type: "boolean", label: "Boolean" },
+];
+
 const getFaviconUrl = (url: string | undefined): string | null => {
   if (!url) return null;
   try {
@@ -96,7 +249,15 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [sort, setSort] = useState<EntrySort>(() => {
+    const saved = localStorage.getItem(SORT_STORAGE_KEY);
+    return ENTRY_SORTS.some((option) => option.sort === saved)
+      ? (saved as EntrySort)
+      : "name";
+  });
   const [masterPassword, setMasterPassword] = useState("");
+  const [vaultKey, setVaultKey] = useState("");
+  const [vaultKdf, setVaultKdf] = useState<KdfParams | undefined>();
   const [unlocked, setUnlocked] = useState(false);
   const [showPassword, setShowPassword] = useState<Record<string, boolean>>({});
   const [selectedEntry, setSelectedEntry] = useState<VaultEntry | null>(null);
@@ -106,20 +267,42 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
     {},
   );
   const [showMobileDetail, setShowMobileDetail] = useState(false);
+  const [filter, setFilter] = useState<ListFilter>({ kind: "all" });
+  // Entries ticked for bulk move/tag; null when not selecting
+  const [bulkSelection, setBulkSelection] = useState<Set<string> | null>(null);
+  // Breach counts by entry id, when a breach check is set up
+  const [breachCounts, setBreachCounts] = useState<Map<string, number>>(
+    () => new Map(),
+  );
   const navigate = useNavigate();
+  const location = useLocation();
+  // Entry to open for editing once unlocked, e.g. from the health report
+  const pendingEdit = useRef<string | null>(
+    (location.state as { editEntryId?: string } | null)?.editEntryId ?? null,
+  );
 
-  const [entryForm, setEntryForm] = useState({
-    name: "",
-    username: "",
-    password: "",
-    url: "",
-    notes: "",
-  });
+  const [entryForm, setEntryForm] = useState<EntryForm>(emptyEntryForm());
+  // Field that receives the generated password
+  const [generatorTarget, setGeneratorTarget] = useState("password");
+
+  const syncState = useSyncExternalStore(subscribeSyncState, getSyncState);
+  const merging = useRef<Promise<Vault | null> | null>(null);
+  // Saves run one after another, each on the vault the last one left behind
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+  const latestVault = useRef(vault);
+  latestVault.current = vault;
+  // Bumped on every lock. Saves and merges started before it throw their
+  // results away instead of bringing the vault back.
+  const lockGeneration = useRef(0);
+  const [pendingConflicts, setPendingConflicts] = useState<{
+    conflicts: EntryConflict[];
+    resolve: (choices: Record<string, ConflictChoice> | null) => void;
+  } | null>(null);
 
   const loadVault = async () => {
     try {
       setLoading(true);
-      const response = await api.getVault();
+      const response = await loadEncryptedVault();
 
       if (response.encrypted_vault) {
         setVault(null);
@@ -143,80 +326,256 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
     loadVault();
   }, []);
 
-  const handleUnlock = async () => {
+  useEffect(() => startBackgroundSync(), []);
+
+  // Conflicts found by a background push are merged once the key is known;
+  // saveVault handles the ones its own push runs into
+  useEffect(() => {
+    if (!unlocked || !vaultKey || saving || syncState !== "conflict") return;
+    const generation = lockGeneration.current;
+    mergeRemoteChanges()
+      .then((merged) => {
+        if (merged) showVault(merged, generation);
+      })
+      .catch((err) => {
+        console.error("Merge vault error:", err);
+        setError(err instanceof Error ? err.message : "Failed to merge vault");
+      });
+  }, [unlocked, vaultKey, saving, syncState]);
+
+  useEffect(() => {
+    if (!unlocked || !vault || !pendingEdit.current) return;
+    const entry = vault.entries.find((e) => e.id === pendingEdit.current);
+    pendingEdit.current = null;
+    // Don't reopen it on reload
+    navigate(location.pathname, { replace: true, state: null });
+    if (entry) handleEditEntry(entry);
+  }, [unlocked, vault]);
+
+  // Badges only; the health report shows the details
+  useEffect(() => {
+    const source = getBreachSource();
+    if (!unlocked || !vault || !source) {
+      setBreachCounts(new Map());
+      return;
+    }
+    let cancelled = false;
+    checkVaultBreaches(vault, source)
+      .then((counts) => {
+        if (!cancelled) setBreachCounts(counts);
+      })
+      .catch((err) => console.error("Breach check error:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [unlocked, vault]);
+
+  const accountEmail = api.getAccountEmail();
+  const canUsePasskey =
+    !!accountEmail &&
+    isPasskeySupported() &&
+    listPasskeys(accountEmail).length > 0;
+
+  // `getKey` fails with a message worth showing; a key that doesn't decrypt
+  // gets `wrongKeyMessage`
+  const unlockWith = async (
+    getKey: () => Promise<string>,
+    wrongKeyMessage: string,
+  ) => {
     try {
       setError("");
-      const response = await api.getVault();
+      const response = await loadEncryptedVault();
 
       if (!response.encrypted_vault) {
         setError("No vault found");
         return;
       }
 
-      const decrypted = await decryptVault(
-        response.encrypted_vault,
-        masterPassword,
-      );
-      setVault(decrypted);
+      const key = await getKey();
+      let decrypted;
+      try {
+        decrypted = await decryptVault(response.encrypted_vault, key);
+      } catch {
+        throw new Error(wrongKeyMessage);
+      }
+      setVault({ ...decrypted, entries: decrypted.entries.map(normalizeEntry) });
+      setVaultKey(key);
+      setVaultKdf(getVaultKdf(response.encrypted_vault));
+      setMasterPassword("");
       setUnlocked(true);
     } catch (err) {
       console.error("Unlock error:", err);
-      setError("Failed to unlock vault. Wrong password?");
+      setError(err instanceof Error ? err.message : "Failed to unlock vault");
     }
   };
 
+  const handleUnlock = () =>
+    unlockWith(
+      () => deriveVaultKey(masterPassword),
+      "Failed to unlock vault. Wrong password?",
+    );
+
+  const handlePasskeyUnlock = () =>
+    unlockWith(
+      () => unlockWithPasskey(accountEmail!),
+      "This passkey no longer matches your vault. Unlock with your master password and add it again.",
+    );
+
   const handleLock = () => {
+    lockGeneration.current++;
+    latestVault.current = null;
+    pendingConflicts?.resolve(null);
+    setPendingConflicts(null);
     setVault(null);
     setMasterPassword("");
+    setVaultKey("");
+    setVaultKdf(undefined);
     setUnlocked(false);
     setSelectedEntry(null);
     setViewMode("view");
     setShowPassword({});
     setShowMobileDetail(false);
-    setEntryForm({
-      name: "",
-      username: "",
-      password: "",
-      url: "",
-      notes: "",
+    setEntryForm(emptyEntryForm());
+    setFilter({ kind: "all" });
+    setBulkSelection(null);
+  };
+
+  // The watcher outlives renders, so it calls the latest handleLock
+  const lockRef = useRef(handleLock);
+  lockRef.current = handleLock;
+
+  useEffect(() => {
+    if (!unlocked) return;
+    return watchAutoLock(() => lockRef.current());
+  }, [unlocked]);
+
+  // `generation` is the lock generation the change was started in
+  const showVault = (updatedVault: Vault, generation: number) => {
+    if (lockGeneration.current !== generation) return;
+    latestVault.current = updatedVault;
+    setVault(updatedVault);
+    setSelectedEntry((selected) =>
+      selected
+        ? updatedVault.entries.find((e) => e.id === selected.id) || null
+        : null,
+    );
+  };
+
+  const askConflictChoices = (conflicts: EntryConflict[]) =>
+    new Promise<Record<string, ConflictChoice> | null>((resolve) => {
+      setPendingConflicts({ conflicts, resolve });
     });
+
+  const openVault = async (encrypted: string | null): Promise<Vault> => {
+    if (!encrypted) return createEmptyVault();
+    const decrypted = await decryptVault(encrypted, vaultKey);
+    return { ...decrypted, entries: decrypted.entries.map(normalizeEntry) };
   };
 
-  const saveVault = async (updatedVault: Vault) => {
-    try {
-      setSaving(true);
-      setError("");
-      const encrypted = await encryptVault(updatedVault, masterPassword);
-      await api.updateVault({ encrypted_vault: encrypted });
-      setVault(updatedVault);
-      if (selectedEntry) {
-        const updated = updatedVault.entries.find(
-          (e) => e.id === selectedEntry.id,
-        );
-        setSelectedEntry(updated || null);
-      }
-    } catch (err) {
-      console.error("Save vault error:", err);
-      setError(err instanceof Error ? err.message : "Failed to save vault");
-    } finally {
-      setSaving(false);
+  // Another device saved first: merge its changes with ours and push again.
+  // Concurrent callers share one merge.
+  // Resolves to null once the vault is locked.
+  const mergeRemoteChanges = (): Promise<Vault | null> => {
+    if (!merging.current) {
+      const generation = lockGeneration.current;
+      const locked = () => lockGeneration.current !== generation;
+      merging.current = (async () => {
+        for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+          const conflict = await fetchVaultConflict();
+          if (!conflict || locked()) return null;
+
+          const [base, local, remote] = await Promise.all([
+            // Without a readable base the merge falls back to timestamps
+            conflict.base
+              ? openVault(conflict.base).catch(() => null)
+              : null,
+            openVault(conflict.local),
+            openVault(conflict.remote.encrypted_vault),
+          ]);
+          if (locked()) return null;
+          const result = mergeVaults(local, remote, base);
+          let merged = result.vault;
+          if (result.conflicts.length > 0) {
+            const choices = await askConflictChoices(result.conflicts);
+            // Locked before choosing; the changes stay queued
+            if (!choices || locked()) return null;
+            merged = applyConflictChoices(merged, result.conflicts, choices);
+          }
+          const encrypted = await encryptVault(merged, vaultKey, vaultKdf);
+          if (locked()) return null;
+          const state = await resolveVaultConflict(conflict, encrypted);
+          if (locked()) return null;
+          if (state === "error") {
+            setError(getSyncError());
+          }
+          if (state !== "conflict") return merged;
+        }
+        throw new Error("Couldn't merge changes from another device. Try again.");
+      })().finally(() => {
+        merging.current = null;
+      });
     }
+    return merging.current;
+  };
+
+  // `update` gets the vault as the saves before it left it, so changes made
+  // while another save is still encrypting aren't lost
+  const saveVault = (update: (current: Vault) => Vault): Promise<void> => {
+    setSaving(true);
+    setError("");
+    const generation = lockGeneration.current;
+    const locked = () => lockGeneration.current !== generation;
+    const save: Promise<void> = saveQueue.current.then(async () => {
+      try {
+        // Locked while waiting its turn
+        if (locked() || !latestVault.current) return;
+        const updatedVault = update(latestVault.current);
+        const encrypted = await encryptVault(updatedVault, vaultKey, vaultKdf);
+        // Saved on this device even if the server can't be reached, and
+        // even if the vault was locked meanwhile
+        const syncState = await queueVaultUpdate(encrypted);
+        if (locked()) return;
+        if (syncState === "error") {
+          setError(getSyncError());
+        }
+        const merged =
+          syncState === "conflict" ? await mergeRemoteChanges() : null;
+        showVault(merged ?? updatedVault, generation);
+      } catch (err) {
+        console.error("Save vault error:", err);
+        setError(err instanceof Error ? err.message : "Failed to save vault");
+      } finally {
+        if (saveQueue.current === save) setSaving(false);
+      }
+    });
+    saveQueue.current = save;
+    return save;
   };
 
   const handleAddEntry = () => {
-    setEntryForm({ name: "", username: "", password: "", url: "", notes: "" });
+    // New entries land in the folder being browsed
+    setEntryForm(
+      emptyEntryForm("login", filter.kind === "folder" ? filter.id : ""),
+    );
     setSelectedEntry(null);
     setViewMode("create");
     setShowMobileDetail(true);
   };
 
   const handleEditEntry = (entry: VaultEntry) => {
+    const fields: Record<string, string> = {};
+    for (const field of ENTRY_SCHEMAS[entry.type].fields) {
+      fields[field.key] = getFieldValue(entry, field.key) || "";
+    }
     setEntryForm({
+      type: entry.type,
       name: entry.name,
-      username: entry.username || "",
-      password: entry.password || "",
-      url: entry.url || "",
       notes: entry.notes || "",
+      totp: entry.totp || "",
+      folderId: entry.folderId ?? "",
+      tags: entry.tags?.join(", ") ?? "",
+      fields,
+      customFields: entry.fields ?? [],
     });
     setSelectedEntry(entry);
     setViewMode("edit");
@@ -224,23 +583,43 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
   };
 
   const handleSaveEntry = async () => {
-    if (!vault || !masterPassword || !entryForm.name) return;
+    if (!vault || !vaultKey || !entryForm.name) return;
 
-    const newEntry: VaultEntry = {
-      id: selectedEntry?.id || Date.now().toString(),
+    const fields: Record<string, string | undefined> = {};
+    for (const field of ENTRY_SCHEMAS[entryForm.type].fields) {
+      fields[field.key] = entryForm.fields[field.key] || undefined;
+    }
+
+    const now = Date.now();
+    const tags = parseTags(entryForm.tags);
+    const existing = viewMode === "edit" ? selectedEntry : null;
+    const newEntry = {
+      id: existing?.id || crypto.randomUUID(),
+      type: entryForm.type,
       name: entryForm.name,
-      username: entryForm.username || undefined,
-      password: entryForm.password || undefined,
-      url: entryForm.url || undefined,
+      ...fields,
       notes: entryForm.notes || undefined,
-    };
-
-    const updatedEntries =
-      viewMode === "edit" && selectedEntry
-        ? vault.entries.map((e) => (e.id === selectedEntry.id ? newEntry : e))
-        : [...vault.entries, newEntry];
+      totp: entryForm.totp.trim() || undefined,
+      folderId: entryForm.folderId || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      fields: cleanCustomFields(entryForm.customFields),
+      favorite: existing?.favorite,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      lastUsedAt: existing?.lastUsedAt,
+    } as VaultEntry;
+    newEntry.passwordHistory = updatePasswordHistory(
+      existing ?? undefined,
+      newEntry,
+      now,
+    );
 
-    await saveVault({ entries: updatedEntries });
+    await saveVault((current) => ({
+      ...current,
+      entries: existing
+        ? current.entries.map((e) => (e.id === existing.id ? newEntry : e))
+        : [...current.entries, newEntry],
+    }));
     setSelectedEntry(newEntry);
     setViewMode("view");
   };
@@ -262,24 +641,177 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
   };
 
   const handleDeleteEntry = async (id: string) => {
-    if (!vault || !masterPassword || !confirm("Delete this entry?")) return;
-    const updatedEntries = vault.entries.filter((e) => e.id !== id);
-    await saveVault({ entries: updatedEntries });
+    if (!vault || !vaultKey || !confirm("Delete this entry?")) return;
+    const deletedAt = Date.now();
+    await saveVault((current) => ({
+      ...current,
+      entries: current.entries.filter((e) => e.id !== id),
+      // The tombstone tells other devices this was deleted, not never added
+      tombstones: [
+        ...(current.tombstones ?? []).filter((t) => t.id !== id),
+        { id, deletedAt },
+      ],
+    }));
+    if (bulkSelection?.has(id)) {
+      setBulkSelection(new Set([...bulkSelection].filter((e) => e !== id)));
+    }
     setSelectedEntry(null);
     setViewMode("view");
     setShowMobileDetail(false);
   };
 
   const handleCopy = (text: string) => {
-    navigator.clipboard.writeText(text);
+    copySecret(text).catch((err) => console.error("Copy error:", err));
+    if (selectedEntry) markEntryUsed(selectedEntry);
+  };
+
+  // Not an edit, so updatedAt stays as it is
+  const markEntryUsed = (entry: VaultEntry) => {
+    if (!vault) return;
+    const now = Date.now();
+    if (entry.lastUsedAt && now - entry.lastUsedAt < LAST_USED_RESOLUTION_MS) {
+      return;
+    }
+    saveVault((current) => ({
+      ...current,
+      entries: current.entries.map((e) =>
+        e.id === entry.id ? { ...e, lastUsedAt: now } : e,
+      ),
+    }));
+  };
+
+  const handleCreateFolder = (parentId?: string) => {
+    if (!vault) return;
+    const name = prompt(parentId ? "Subfolder name" : "Folder name")?.trim();
+    if (!name) return;
+    const folder = createFolder(name, parentId);
+    saveVault((current) => ({
+      ...current,
+      folders: [...(current.folders ?? []), folder],
+    }));
+  };
+
+  const handleRenameFolder = (folder: Folder) => {
+    if (!vault) return;
+    const name = prompt("Rename folder", folder.name)?.trim();
+    if (!name || name === folder.name) return;
+    saveVault((current) => ({
+      ...current,
+      folders: (current.folders ?? []).map((f) =>
+        f.id === folder.id ? { ...f, name } : f,
+      ),
+    }));
+  };
+
+  const handleDeleteFolder = (folder: Folder) => {
+    if (
+      !vault ||
+      !confirm(
+        `Delete "${folder.name}" and its subfolders? The entries in them stay in your vault.`,
+      )
+    ) {
+      return;
+    }
+    const removed = getFolderWithDescendants(vault.folders ?? [], folder.id);
+    if (filter.kind === "folder" && removed.has(filter.id)) {
+      setFilter({ kind: "all" });
+    }
+    saveVault((current) => deleteFolder(current, folder.id));
+  };
+
+  const handleMoveEntries = (ids: string[], folderId: string | undefined) => {
+    if (!vault) return;
+    saveVault((current) => moveEntries(current, new Set(ids), folderId));
+  };
+
+  const handleTagEntries = (ids: string[], tag: string) => {
+    if (!vault) return;
+    saveVault((current) => tagEntries(current, new Set(ids), tag));
+  };
+
+  const toggleBulkSelected = (id: string) => {
+    if (!bulkSelection) return;
+    const next = new Set(bulkSelection);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setBulkSelection(next);
   };
 
-  const handleGeneratePassword = () => {
+  // Dragging a ticked entry carries the whole selection along
+  const handleEntryDragStart = (e: DragEvent, id: string) => {
+    const ids = bulkSelection?.has(id) ? [...bulkSelection] : [id];
+    e.dataTransfer.setData(ENTRY_DRAG_TYPE, JSON.stringify(ids));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const toggleFavorite = (entry: VaultEntry) => {
+    if (!vault) return;
+    const updatedAt = Date.now();
+    saveVault((current) => ({
+      ...current,
+      entries: current.entries.map((e) =>
+        e.id === entry.id
+          ? { ...e, favorite: !e.favorite || undefined, updatedAt }
+          : e,
+      ),
+    }));
+  };
+
+  const handleSortChange = (value: EntrySort) => {
+    setSort(value);
+    localStorage.setItem(SORT_STORAGE_KEY, value);
+  };
+
+  const handleGeneratePassword = (fieldKey: string) => {
+    setGeneratorTarget(fieldKey);
     setGeneratorOpen(true);
   };
 
   const handlePasswordGenerated = (password: string) => {
-    setEntryForm({ ...entryForm, password });
+    setEntryForm({
+      ...entryForm,
+      fields: { ...entryForm.fields, [generatorTarget]: password },
+    });
+  };
+
+  const setFormField = (key: string, value: string) => {
+    setEntryForm({
+      ...entryForm,
+      fields: { ...entryForm.fields, [key]: value },
+    });
+  };
+
+  const updateCustomField = (id: string, changes: Partial<CustomField>) => {
+    setEntryForm({
+      ...entryForm,
+      customFields: entryForm.customFields.map((field) => {
+        if (field.id !== id) return field;
+        const updated = { ...field, ...changes };
+        // Switching to or from boolean leaves a meaningless value behind
+        const switchesKind =
+          changes.type !== undefined &&
+          (changes.type === "boolean") !== (field.type === "boolean");
+        if (switchesKind) {
+          updated.value = changes.type === "boolean" ? "false" : "";
+        }
+        return updated;
+      }),
+    });
+  };
+
+  const moveCustomField = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= entryForm.customFields.length) return;
+    const customFields = [...entryForm.customFields];
+    [customFields[index], customFields[target]] = [
+      customFields[target],
+      customFields[index],
+    ];
+    setEntryForm({ ...entryForm, customFields });
+  };
+
+  const toggleReveal = (key: string) => {
+    setShowPassword({ ...showPassword, [key]: !showPassword[key] });
   };
 
   const handleFaviconError = (entryId: string) => {
@@ -292,13 +824,129 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
     setShowMobileDetail(true);
   };
 
-  const filteredEntries =
-    vault?.entries.filter(
-      (entry) =>
-        entry.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        entry.username?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        entry.url?.toLowerCase().includes(searchQuery.toLowerCase()),
-    ) || [];
+  const folders = vault?.folders ?? [];
+  // Sorted first so equally relevant results keep the chosen order
+  const searchResults = searchEntries(
+    sortEntries(
+      vault?.entries.filter((entry) => matchesFilter(entry, filter, folders)) ||
+        [],
+      sort,
+    ),
+    searchQuery,
+  );
+  const filteredEntries = searchResults.map((result) => result.entry);
+  const highlights = new Map(
+    searchResults.map((result) => [result.entry.id, result.highlights]),
+  );
+
+  // Pinned above the rest of the list, so they also rank first in searches
+  const favoriteEntries = filteredEntries.filter((entry) => entry.favorite);
+  const otherEntries = filteredEntries.filter((entry) => !entry.favorite);
+
+  const breachTitle = (count: number) =>
+    `Password found in ${count.toLocaleString()} known ${count === 1 ? "breach" : "breaches"}`;
+
+  const renderEntryRow = (entry: VaultEntry) => {
+    const faviconUrl = getFaviconUrl(getEntryUrl(entry));
+    const showFavicon = faviconUrl && !faviconErrors[entry.id];
+    const isActive = selectedEntry?.id === entry.id && viewMode === "view";
+
+    return (
+      <div key={entry.id} className="relative">
+        <button
+          draggable={!saving}
+          onDragStart={(e) => handleEntryDragStart(e, entry.id)}
+          onClick={() =>
+            bulkSelection ? toggleBulkSelected(entry.id) : handleSelectEntry(entry)
+          }
+          className={`w-full flex items-center gap-3 p-3 pr-11 rounded-lg text-left transition-colors group ${
+            isActive ? "md:bg-foreground md:text-background" : "hover:bg-muted"
+          }`}
+        >
+          {bulkSelection && (
+            <input
+              type="checkbox"
+              aria-label={`Select ${entry.name}`}
+              checked={bulkSelection.has(entry.id)}
+              onChange={() => toggleBulkSelected(entry.id)}
+              onClick={(e) => e.stopPropagation()}
+              className="h-4 w-4 shrink-0 accent-foreground"
+            />
+          )}
+          <div
+            className={`w-8 h-8 rounded flex items-center justify-center font-bold text-xs shrink-0 overflow-hidden ${
+              isActive ? "text-foreground" : "text-primary"
+            }`}
+          >
+            {showFavicon ? (
+              <img
+                src={faviconUrl}
+                alt={entry.name}
+                className="w-full h-full object-cover"
+                onError={() => handleFaviconError(entry.id)}
+              />
+            ) : (
+              <img
+                src={getLetterAvatarUrl(entry.name)}
+                alt={entry.name}
+                className="w-full h-full object-cover"
+              />
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-1.5">
+              <div className="font-semibold text-sm truncate">
+                <HighlightedText
+                  text={entry.name}
+                  indices={highlights.get(entry.id)?.name ?? []}
+                />
+              </div>
+              {breachCounts.has(entry.id) && (
+                <span
+                  title={breachTitle(breachCounts.get(entry.id)!)}
+                  className="shrink-0 inline-flex items-center gap-0.5 px-1.5 rounded-full bg-destructive/10 text-destructive text-[10px] font-medium uppercase tracking-wide"
+                >
+                  <ShieldX className="w-3 h-3" />
+                  Breached
+                </span>
+              )}
+            </div>
+            <div
+              className={`text-xs truncate ${isActive ? "text-background/60" : "text-muted-foreground"}`}
+            >
+              <HighlightedText
+                text={getEntrySubtitle(entry)}
+                indices={highlights.get(entry.id)?.subtitle ?? []}
+              />
+            </div>
+          </div>
+          <ChevronRight
+            className={`w-4 h-4 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity ${
+              isActive ? "text-background/40" : "text-muted-foreground/40"
+            }`}
+          />
+        </button>
+        <button
+          type="button"
+          onClick={() => toggleFavorite(entry)}
+          disabled={saving}
+          title={entry.favorite ? "Remove from favorites" : "Add to favorites"}
+          className={`absolute right-2 top-[calc(50%-1px)] -translate-y-1/2 p-2 rounded-md transition-opacity ${
+            entry.favorite
+              ? "text-amber-500"
+              : `opacity-0 hover:opacity-100 focus-visible:opacity-100 ${
+                  isActive ? "md:text-background/60" : "text-muted-foreground"
+                }`
+          }`}
+        >
+          <Star className={`w-4 h-4 ${entry.favorite ? "fill-current" : ""}`} />
+        </button>
+        <hr className="border-muted" />
+      </div>
+    );
+  };
+
+  const SelectedTypeIcon = ENTRY_ICONS[selectedEntry?.type ?? "login"];
 
   if (loading) {
     return (
@@ -358,6 +1006,16 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
             >
               Unlock Now
             </Button>
+            {canUsePasskey && (
+              <Button
+                variant="outline"
+                onClick={handlePasskeyUnlock}
+                className="w-full h-11 text-base"
+              >
+                <Fingerprint className="w-5 h-5" />
+                Unlock with passkey
+              </Button>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -384,6 +1042,7 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground group-focus-within:text-primary transition-colors" />
             <Input
               placeholder="Search..."
+              title="Search names, usernames, URLs, tags and notes. Narrow to one field with url:, tag:, user:, name: or note:"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-9 h-9 max-w-64 bg-muted/50 border-none focus-visible:ring-1 focus-visible:ring-foreground/20"
@@ -392,6 +1051,16 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
         </div>
 
         <div className="flex items-center gap-1 md:gap-2">
+          <SyncStatus />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/health")}
+            className="rounded-lg h-9 w-9"
+            title="Password Health"
+          >
+            <ShieldCheck className="w-5 h-5" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -455,7 +1124,7 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
                 <div className="flex-1 min-w-0">
                   <div className="font-semibold text-sm">New Entry</div>
                   <div className="text-xs text-muted-foreground">
-                    Add a new password
+                    Add a login, card, note and more
                   </div>
                 </div>
                 <ChevronRight className="w-4 h-4 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground/40" />
@@ -463,73 +1132,82 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
             </div>
             <hr className="border-muted" />
 
+            <FolderTree
+              folders={folders}
+              tags={collectTags(vault?.entries ?? [])}
+              filter={filter}
+              onFilterChange={setFilter}
+              onCreateFolder={handleCreateFolder}
+              onRenameFolder={handleRenameFolder}
+              onDeleteFolder={handleDeleteFolder}
+              onMoveEntries={handleMoveEntries}
+              onTagEntries={handleTagEntries}
+              disabled={saving}
+            />
+            <hr className="border-muted mt-3" />
+
+            <div className="flex items-center justify-between gap-2 px-4 pt-3">
+              <Label
+                htmlFor="entrySort"
+                className="text-xs uppercase tracking-wider text-muted-foreground"
+              >
+                Sort by
+              </Label>
+              <select
+                id="entrySort"
+                value={sort}
+                onChange={(e) => handleSortChange(e.target.value as EntrySort)}
+                className="h-8 px-2 text-xs rounded-md border border-input bg-background"
+              >
+                {ENTRY_SORTS.map((option) => (
+                  <option key={option.sort} value={option.sort}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant={bulkSelection ? "default" : "ghost"}
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Select entries"
+                onClick={() => setBulkSelection(bulkSelection ? null : new Set())}
+              >
+                <CheckSquare className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {bulkSelection && (
+              <BulkActions
+                count={bulkSelection.size}
+                folders={folders}
+                onMove={(folderId) =>
+                  handleMoveEntries([...bulkSelection], folderId)
+                }
+                onTag={(tag) => handleTagEntries([...bulkSelection], tag)}
+                onDone={() => setBulkSelection(null)}
+                disabled={saving}
+              />
+            )}
+
             {filteredEntries.length > 0 ? (
               <div className="space-y-px px-2 pt-2">
-                {filteredEntries.map((entry) => {
-                  const faviconUrl = getFaviconUrl(entry.url);
-                  const showFavicon = faviconUrl && !faviconErrors[entry.id];
-                  const isActive =
-                    selectedEntry?.id === entry.id && viewMode === "view";
-
-                  return (
-                    <div>
-                      <button
-                        key={entry.id}
-                        onClick={() => handleSelectEntry(entry)}
-                        className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors group ${
-                          isActive
-                            ? "md:bg-foreground md:text-background"
-                            : "hover:bg-muted"
-                        }`}
-                      >
-                        <div
-                          className={`w-8 h-8 rounded flex items-center justify-center font-bold text-xs shrink-0 overflow-hidden ${
-                            isActive ? "text-foreground" : "text-primary"
-                          }`}
-                        >
-                          {showFavicon ? (
-                            <img
-                              src={faviconUrl}
-                              alt={entry.name}
-                              className="w-full h-full object-cover"
-                              onError={() => handleFaviconError(entry.id)}
-                            />
-                          ) : (
-                            <img
-                              src={getLetterAvatarUrl(entry.name)}
-                              alt={entry.name}
-                              className="w-full h-full object-cover"
-                            />
-                          )}
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <div className="font-semibold text-sm truncate">
-                            {entry.name}
-                          </div>
-                          <div
-                            className={`text-xs truncate ${isActive ? "text-background/60" : "text-muted-foreground"}`}
-                          >
-                            {entry.username ||
-                              (entry.url
-                                ? entry.url.replace(/^https?:\/\//, "")
-                                : "No details")}
-                          </div>
-                        </div>
-                        <ChevronRight
-                          className={`w-4 h-4 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity ${
-                            isActive
-                              ? "text-background/40"
-                              : "text-muted-foreground/40"
-                          }`}
-                        />
-                      </button>
-                      <hr className="border-muted" />
-                    </div>
-                  );
-                })}
+                {favoriteEntries.length > 0 && (
+                  <>
+                    <h3 className="flex items-center gap-1 px-2 pt-1 pb-1 text-xs uppercase tracking-wider text-muted-foreground">
+                      <Star className="w-3 h-3" /> Favorites
+                    </h3>
+                    {favoriteEntries.map(renderEntryRow)}
+                    {otherEntries.length > 0 && (
+                      <h3 className="px-2 pt-3 pb-1 text-xs uppercase tracking-wider text-muted-foreground">
+                        Entries
+                      </h3>
+                    )}
+                  </>
+                )}
+                {otherEntries.map(renderEntryRow)}
               </div>
-            ) : searchQuery ? (
-              <div className="h-full flex flex-col items-center justify-center p-8 text-center text-muted-foreground">
+            ) : searchQuery || filter.kind !== "all" ? (
+              <div className="flex flex-col items-center justify-center p-8 text-center text-muted-foreground">
                 <Search className="w-8 h-8 mb-2 opacity-20" />
                 <p className="text-sm">No entries found</p>
               </div>
@@ -563,10 +1241,10 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
               <div className="flex items-start justify-between border-b pb-6">
                 <div className="flex items-center gap-4">
                   <div className="w-16 h-16 rounded-2xl bg-primary/5 flex items-center justify-center text-3xl font-bold text-primary overflow-hidden">
-                    {getFaviconUrl(selectedEntry.url) &&
+                    {getFaviconUrl(getEntryUrl(selectedEntry)) &&
                     !faviconErrors[selectedEntry.id] ? (
                       <img
-                        src={getFaviconUrl(selectedEntry.url)!}
+                        src={getFaviconUrl(getEntryUrl(selectedEntry))!}
                         alt={selectedEntry.name}
                         className="w-full h-full object-cover"
                         onError={() => handleFaviconError(selectedEntry.id)}
@@ -583,20 +1261,63 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
                     <h2 className="text-2xl md:text-3xl font-bold tracking-tight truncate">
                       {selectedEntry.name}
                     </h2>
-                    {selectedEntry.url && (
+                    <span className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-1 mt-1">
+                      <SelectedTypeIcon className="w-3 h-3" />
+                      {ENTRY_SCHEMAS[selectedEntry.type].label}
+                    </span>
+                    {getFolderPath(folders, selectedEntry.folderId) && (
+                      <span className="text-sm text-muted-foreground flex items-center gap-1 mt-1 truncate">
+                        <FolderIcon className="w-3 h-3 shrink-0" />
+                        {getFolderPath(folders, selectedEntry.folderId)}
+                      </span>
+                    )}
+                    {selectedEntry.tags && selectedEntry.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {selectedEntry.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            type="button"
+                            onClick={() => setFilter({ kind: "tag", tag })}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-muted text-xs hover:bg-muted/70"
+                          >
+                            <Tag className="w-3 h-3" />
+                            {tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {getEntryUrl(selectedEntry) && (
                       <a
-                        href={selectedEntry.url}
+                        href={getEntryUrl(selectedEntry)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mt-1 transition-colors truncate"
                       >
                         <ExternalLink className="w-3 h-3 shrink-0" />
-                        <span className="truncate">{selectedEntry.url}</span>
+                        <span className="truncate">
+                          {getEntryUrl(selectedEntry)}
+                        </span>
                       </a>
                     )}
                   </div>
                 </div>
                 <div className="flex gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => toggleFavorite(selectedEntry)}
+                    disabled={saving}
+                    title={
+                      selectedEntry.favorite
+                        ? "Remove from favorites"
+                        : "Add to favorites"
+                    }
+                    className={`h-10 w-10 ${selectedEntry.favorite ? "text-amber-500" : ""}`}
+                  >
+                    <Star
+                      className={`w-4 h-4 ${selectedEntry.favorite ? "fill-current" : ""}`}
+                    />
+                  </Button>
                   <Button
                     variant="outline"
                     size="icon"
@@ -616,70 +1337,161 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
                 </div>
               </div>
 
+              {breachCounts.has(selectedEntry.id) && (
+                <Alert variant="destructive" className="mb-6">
+                  <ShieldX className="h-4 w-4" />
+                  <AlertDescription>
+                    {breachTitle(breachCounts.get(selectedEntry.id)!)}. Change
+                    it as soon as you can.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="grid gap-6">
-                {selectedEntry.username && (
-                  <div className="space-y-1.5 p-4 rounded-xl border bg-muted/10">
-                    <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
-                      <User className="w-3 h-3" /> Username / Email
-                    </Label>
-                    <div className="flex items-center justify-between gap-2">
-                      <span className="font-medium truncate">
-                        {selectedEntry.username}
-                      </span>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 text-muted-foreground hover:text-foreground shrink-0"
-                        onClick={() => handleCopy(selectedEntry.username!)}
-                      >
-                        <Copy className="w-4 h-4" />
-                      </Button>
+                {ENTRY_SCHEMAS[selectedEntry.type].fields.map((field) => {
+                  const value = getFieldValue(selectedEntry, field.key);
+                  if (!value || field.kind === "url") return null;
+                  const revealKey = `${selectedEntry.id}:${field.key}`;
+                  const revealed = showPassword[revealKey];
+
+                  return (
+                    <div
+                      key={field.key}
+                      className="space-y-1.5 p-4 rounded-xl border bg-muted/10"
+                    >
+                      <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+                        {field.kind === "secret" ? (
+                          <Lock className="w-3 h-3" />
+                        ) : (
+                          <User className="w-3 h-3" />
+                        )}{" "}
+                        {field.label}
+                      </Label>
+                      <div className="flex items-center justify-between gap-2">
+                        {field.kind === "secret" ? (
+                          <span
+                            className={`font-mono text-base md:text-lg tracking-wider ${
+                              revealed
+                                ? "whitespace-pre-wrap break-all"
+                                : "truncate"
+                            }`}
+                          >
+                            {revealed ? value : "••••••••••••"}
+                          </span>
+                        ) : field.kind === "multiline" ? (
+                          <span className="font-mono text-sm whitespace-pre-wrap break-all">
+                            {value}
+                          </span>
+                        ) : (
+                          <span className="font-medium truncate">{value}</span>
+                        )}
+                        <div className="flex gap-1 shrink-0">
+                          {field.kind === "secret" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                              onClick={() => toggleReveal(revealKey)}
+                            >
+                              {revealed ? (
+                                <EyeOff className="w-4 h-4" />
+                              ) : (
+                                <Eye className="w-4 h-4" />
+                              )}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                            onClick={() => handleCopy(value)}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  );
+                })}
+
+                {selectedEntry.totp && (
+                  <TotpCode uri={selectedEntry.totp} onCopy={handleCopy} />
                 )}
 
-                {selectedEntry.password && (
-                  <div className="space-y-1.5 p-4 rounded-xl border bg-muted/10">
-                    <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
-                      <Lock className="w-3 h-3" /> Password
-                    </Label>
-                    <div className="flex items-center justify-between gap-2">
-                      <span className="font-mono text-base md:text-lg tracking-wider truncate">
-                        {showPassword[selectedEntry.id]
-                          ? selectedEntry.password
-                          : "••••••••••••"}
-                      </span>
-                      <div className="flex gap-1 shrink-0">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-muted-foreground hover:text-foreground"
-                          onClick={() =>
-                            setShowPassword({
-                              ...showPassword,
-                              [selectedEntry.id]:
-                                !showPassword[selectedEntry.id],
-                            })
-                          }
-                        >
-                          {showPassword[selectedEntry.id] ? (
-                            <EyeOff className="w-4 h-4" />
+                {selectedEntry.fields?.map((field) => {
+                  const revealKey = `${selectedEntry.id}:custom:${field.id}`;
+                  const revealed = showPassword[revealKey];
+
+                  return (
+                    <div
+                      key={field.id}
+                      className="space-y-1.5 p-4 rounded-xl border bg-muted/10"
+                    >
+                      <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-2">
+                        {field.type === "hidden" ? (
+                          <Lock className="w-3 h-3" />
+                        ) : (
+                          <FileText className="w-3 h-3" />
+                        )}{" "}
+                        {field.name || "Untitled"}
+                      </Label>
+                      {field.type === "boolean" ? (
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">
+                            {field.value === "true" ? "Yes" : "No"}
+                          </span>
+                          <Switch checked={field.value === "true"} disabled />
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2">
+                          {field.type === "hidden" ? (
+                            <span className="font-mono text-base md:text-lg tracking-wider truncate">
+                              {revealed ? field.value : "••••••••••••"}
+                            </span>
                           ) : (
-                            <Eye className="w-4 h-4" />
+                            <span className="font-medium truncate">
+                              {field.value}
+                            </span>
                           )}
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-muted-foreground hover:text-foreground"
-                          onClick={() => handleCopy(selectedEntry.password!)}
-                        >
-                          <Copy className="w-4 h-4" />
-                        </Button>
-                      </div>
+                          <div className="flex gap-1 shrink-0">
+                            {field.type === "hidden" && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                                onClick={() => toggleReveal(revealKey)}
+                              >
+                                {revealed ? (
+                                  <EyeOff className="w-4 h-4" />
+                                ) : (
+                                  <Eye className="w-4 h-4" />
+                                )}
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                              onClick={() => handleCopy(field.value)}
+                              disabled={!field.value}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </div>
-                  </div>
-                )}
+                  );
+                })}
+
+                {selectedEntry.passwordHistory &&
+                  selectedEntry.passwordHistory.length > 0 && (
+                    <PasswordHistory
+                      key={selectedEntry.id}
+                      history={selectedEntry.passwordHistory}
+                      onCopy={handleCopy}
+                    />
+                  )}
 
                 {selectedEntry.notes && (
                   <div className="space-y-1.5 p-4 rounded-xl border bg-muted/10">
@@ -691,6 +1503,22 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
                     </p>
                   </div>
                 )}
+
+                {(selectedEntry.createdAt ||
+                  selectedEntry.updatedAt ||
+                  selectedEntry.lastUsedAt) && (
+                  <p className="text-xs text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+                    {selectedEntry.createdAt && (
+                      <span>Created {formatTimestamp(selectedEntry.createdAt)}</span>
+                    )}
+                    {selectedEntry.updatedAt && (
+                      <span>Modified {formatTimestamp(selectedEntry.updatedAt)}</span>
+                    )}
+                    {selectedEntry.lastUsedAt && (
+                      <span>Last used {formatTimestamp(selectedEntry.lastUsedAt)}</span>
+                    )}
+                  </p>
+                )}
               </div>
             </div>
           ) : viewMode === "create" || viewMode === "edit" ? (
@@ -710,8 +1538,8 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
                     </h2>
                     <p className="text-sm text-muted-foreground mt-1">
                       {viewMode === "create"
-                        ? "Add a new password to your vault"
-                        : "Update your entry details"}
+                        ? `${ENTRY_SCHEMAS[entryForm.type].description} · saved to your vault`
+                        : `Update your ${ENTRY_SCHEMAS[entryForm.type].label.toLowerCase()} details`}
                     </p>
                   </div>
                 </div>
@@ -726,6 +1554,33 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
               </div>
 
               <div className="space-y-6">
+                {viewMode === "create" && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Type</Label>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {ENTRY_TYPES.map((type) => {
+                        const Icon = ENTRY_ICONS[type];
+                        return (
+                          <Button
+                            key={type}
+                            type="button"
+                            variant={
+                              entryForm.type === type ? "default" : "outline"
+                            }
+                            onClick={() => setEntryForm({ ...entryForm, type })}
+                            className="h-10 gap-2 justify-start"
+                          >
+                            <Icon className="w-4 h-4 shrink-0" />
+                            <span className="truncate">
+                              {ENTRY_SCHEMAS[type].label}
+                            </span>
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label
                     htmlFor="name"
@@ -746,73 +1601,259 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="url"
-                    className="text-sm font-medium flex items-center gap-2"
-                  >
-                    <Globe className="w-4 h-4 text-muted-foreground" />
-                    Website URL
-                  </Label>
-                  <Input
-                    id="url"
-                    placeholder="https://..."
-                    value={entryForm.url}
-                    onChange={(e) =>
-                      setEntryForm({ ...entryForm, url: e.target.value })
-                    }
-                    className="h-11"
-                  />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="folder"
+                      className="text-sm font-medium flex items-center gap-2"
+                    >
+                      <FolderIcon className="w-4 h-4 text-muted-foreground" />
+                      Folder
+                    </Label>
+                    <select
+                      id="folder"
+                      value={entryForm.folderId}
+                      onChange={(e) =>
+                        setEntryForm({ ...entryForm, folderId: e.target.value })
+                      }
+                      className="w-full h-11 px-3 text-sm rounded-md border border-input bg-background"
+                    >
+                      <option value="">No folder</option>
+                      {flattenFolderTree(buildFolderTree(folders)).map(
+                        ({ folder, depth }) => (
+                          <option key={folder.id} value={folder.id}>
+                            {"\u00a0\u00a0".repeat(depth)}
+                            {folder.name}
+                          </option>
+                        ),
+                      )}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="tags"
+                      className="text-sm font-medium flex items-center gap-2"
+                    >
+                      <Tag className="w-4 h-4 text-muted-foreground" />
+                      Tags
+                    </Label>
+                    <Input
+                      id="tags"
+                      placeholder="work, shared, 2fa"
+                      value={entryForm.tags}
+                      onChange={(e) =>
+                        setEntryForm({ ...entryForm, tags: e.target.value })
+                      }
+                      className="h-11"
+                    />
+                  </div>
                 </div>
 
+                {ENTRY_SCHEMAS[entryForm.type].fields.map((field) => (
+                  <div key={field.key} className="space-y-2">
+                    <Label
+                      htmlFor={field.key}
+                      className="text-sm font-medium flex items-center gap-2"
+                    >
+                      {field.kind === "secret" ? (
+                        <Lock className="w-4 h-4 text-muted-foreground" />
+                      ) : field.kind === "url" ? (
+                        <Globe className="w-4 h-4 text-muted-foreground" />
+                      ) : (
+                        <User className="w-4 h-4 text-muted-foreground" />
+                      )}
+                      {field.label}
+                    </Label>
+                    {field.kind === "multiline" ||
+                    (field.kind === "secret" && field.key === "privateKey") ? (
+                      <textarea
+                        id={field.key}
+                        placeholder={field.placeholder}
+                        value={entryForm.fields[field.key] || ""}
+                        onChange={(e) => setFormField(field.key, e.target.value)}
+                        className="w-full min-h-[100px] px-3 py-2 text-sm font-mono rounded-md border border-input bg-background resize-y"
+                      />
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          id={field.key}
+                          type="text"
+                          placeholder={field.placeholder}
+                          value={entryForm.fields[field.key] || ""}
+                          onChange={(e) =>
+                            setFormField(field.key, e.target.value)
+                          }
+                          className={`flex-1 h-11 ${
+                            field.kind === "secret" ? "font-mono" : ""
+                          }`}
+                        />
+                        {field.generate && (
+                          <Button
+                            variant="outline"
+                            type="button"
+                            onClick={() => handleGeneratePassword(field.key)}
+                            className="h-11 px-3 md:px-4 gap-2 shrink-0"
+                          >
+                            <LucideDice3 className="w-4 h-4" />
+                            <span className="hidden sm:inline">Generate</span>
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
                 <div className="space-y-2">
                   <Label
-                    htmlFor="username"
+                    htmlFor="totp"
                     className="text-sm font-medium flex items-center gap-2"
                   >
-                    <User className="w-4 h-4 text-muted-foreground" />
-                    Username / Email
+                    <Timer className="w-4 h-4 text-muted-foreground" />
+                    Authenticator Key (TOTP)
                   </Label>
                   <Input
-                    id="username"
-                    placeholder="user@example.com"
-                    value={entryForm.username}
+                    id="totp"
+                    placeholder="otpauth://totp/... or base32 secret"
+                    value={entryForm.totp}
                     onChange={(e) =>
-                      setEntryForm({ ...entryForm, username: e.target.value })
+                      setEntryForm({ ...entryForm, totp: e.target.value })
                     }
-                    className="h-11"
+                    className="h-11 font-mono"
+                    autoComplete="off"
+                    spellCheck={false}
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label
-                    htmlFor="password"
-                    className="text-sm font-medium flex items-center gap-2"
-                  >
-                    <Lock className="w-4 h-4 text-muted-foreground" />
-                    Password
-                  </Label>
-                  <div className="flex gap-2">
-                    <Input
-                      id="password"
-                      type="text"
-                      placeholder="Secret passphrase..."
-                      value={entryForm.password}
-                      onChange={(e) =>
-                        setEntryForm({ ...entryForm, password: e.target.value })
-                      }
-                      className="flex-1 h-11 font-mono"
-                    />
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium flex items-center gap-2">
+                      <ListPlus className="w-4 h-4 text-muted-foreground" />
+                      Custom Fields
+                    </Label>
                     <Button
                       variant="outline"
+                      size="sm"
                       type="button"
-                      onClick={handleGeneratePassword}
-                      className="h-11 px-3 md:px-4 gap-2 shrink-0"
+                      onClick={() =>
+                        setEntryForm({
+                          ...entryForm,
+                          customFields: [
+                            ...entryForm.customFields,
+                            createCustomField(),
+                          ],
+                        })
+                      }
+                      className="gap-2"
                     >
-                      <LucideDice3 className="w-4 h-4" />
-                      <span className="hidden sm:inline">Generate</span>
+                      <Plus className="w-4 h-4" />
+                      Add Field
                     </Button>
                   </div>
+
+                  {entryForm.customFields.map((field, index) => (
+                    <div
+                      key={field.id}
+                      className="p-3 rounded-xl border bg-muted/10 space-y-2"
+                    >
+                      <div className="flex gap-2">
+                        <Input
+                          aria-label="Field name"
+                          placeholder="Field name"
+                          value={field.name}
+                          onChange={(e) =>
+                            updateCustomField(field.id, {
+                              name: e.target.value,
+                            })
+                          }
+                          className="flex-1 h-10"
+                        />
+                        <select
+                          aria-label="Field type"
+                          value={field.type}
+                          onChange={(e) =>
+                            updateCustomField(field.id, {
+                              type: e.target.value as CustomFieldType,
+                            })
+                          }
+                          className="h-10 px-2 text-sm rounded-md border border-input bg-background"
+                        >
+                          {CUSTOM_FIELD_TYPES.map(({ type, label }) => (
+                            <option key={type} value={type}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex gap-2 items-center">
+                        {field.type === "boolean" ? (
+                          <div className="flex-1 flex items-center h-10">
+                            <Switch
+                              aria-label="Field value"
+                              checked={field.value === "true"}
+                              onCheckedChange={(checked) =>
+                                updateCustomField(field.id, {
+                                  value: checked ? "true" : "false",
+                                })
+                              }
+                            />
+                          </div>
+                        ) : (
+                          <Input
+                            aria-label="Field value"
+                            placeholder="Value"
+                            value={field.value}
+                            onChange={(e) =>
+                              updateCustomField(field.id, {
+                                value: e.target.value,
+                              })
+                            }
+                            className={`flex-1 h-10 ${
+                              field.type === "hidden" ? "font-mono" : ""
+                            }`}
+                          />
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          type="button"
+                          title="Move up"
+                          onClick={() => moveCustomField(index, -1)}
+                          disabled={index === 0}
+                          className="h-10 w-10 shrink-0"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          type="button"
+                          title="Move down"
+                          onClick={() => moveCustomField(index, 1)}
+                          disabled={index === entryForm.customFields.length - 1}
+                          className="h-10 w-10 shrink-0"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          type="button"
+                          title="Remove field"
+                          onClick={() =>
+                            setEntryForm({
+                              ...entryForm,
+                              customFields: entryForm.customFields.filter(
+                                (f) => f.id !== field.id,
+                              ),
+                            })
+                          }
+                          className="h-10 w-10 shrink-0 text-destructive"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="space-y-2">
@@ -891,6 +1932,14 @@ export default function Vault({ onLogout, theme, toggleTheme }: VaultProps) {
         onOpenChange={setGeneratorOpen}
         onGenerate={handlePasswordGenerated}
       />
+
+      <ConflictDialog
+        conflicts={pendingConflicts?.conflicts ?? null}
+        onResolve={(choices) => {
+          pendingConflicts?.resolve(choices);
+          setPendingConflicts(null);
+        }}
+      />
     </div>
   );
 }
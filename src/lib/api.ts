@@ -4,10 +4,20 @@ const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL ||
   "https://zcloudpass-backend.onrender.com/api/v1";
 
+import type { KdfParams } from "./crypto";
+import { COOKIE_SESSION, createTokenStore, type TokenStore } from "./tokens";
+
+// Where sessions were kept before the token moved out of localStorage
+const LEGACY_TOKEN_KEY = "session_token";
+// The signed-in account's KDF, kept so the vault unlocks offline
+const ACCOUNT_KDF_KEY = "account_kdf";
+
+// Only the auth hash from `deriveCredentials` is ever sent to the server;
+// the master password itself stays on the client.
 interface RegisterRequest {
   username?: string;
   email: string;
-  master_password: string;
+  master_password_hash: string;
   encrypted_vault?: string;
 }
 
@@ -16,7 +26,21 @@ interface RegisterResponse {
   email: string;
 }
 
+// POST /auth/prelogin, sent before any credentials: how the account
+// stretches its master password. Unknown emails get the defaults, so the
+// answer doesn't reveal which accounts exist.
+interface PreloginResponse {
+  kdf: KdfParams;
+}
+
 interface LoginRequest {
+  email: string;
+  master_password_hash: string;
+}
+
+// Accounts created before client-side key stretching still authenticate
+// with the raw master password until they are migrated.
+interface LegacyLoginRequest {
   email: string;
   master_password: string;
 }
@@ -26,49 +50,224 @@ interface LoginResponse {
   expires_at: string;
 }
 
+// Accounts with two-factor authentication get this from /auth/login instead
+// of a session. The token only identifies the pending login for
+// POST /auth/mfa/verify and expires after a few minutes.
+interface MfaChallenge {
+  mfa_required: true;
+  mfa_token: string;
+  methods: MfaMethod[];
+}
+
+type MfaMethod = "totp" | "recovery_code";
+
+// A code from the authenticator app, or one of the single-use recovery codes.
+// Signed-in endpoints reject a wrong code with 400, not 401, so a typo
+// doesn't end the session.
+type MfaFactor = { code: string } | { recovery_code: string };
+
+// What /auth/mfa/verify answers with. Using up a recovery code reports how
+// many are left.
+interface MfaVerifyResponse extends LoginResponse {
+  recovery_codes_remaining?: number;
+}
+
+interface MfaStatus {
+  enabled: boolean;
+  recovery_codes_remaining?: number;
+}
+
+// The secret isn't active until a code from it is confirmed with
+// POST /auth/mfa/enable
+interface MfaSetupResponse {
+  secret: string;
+  otpauth_url: string;
+}
+
+// Recovery codes are only ever shown once, when they're created
+interface RecoveryCodesResponse {
+  recovery_codes: string[];
+}
+
+// POST /auth/refresh with the current bearer token. The backend answers
+// with a new token and expiry (the old token stops working), or 401 once
+// the session has lapsed or can't be extended any further.
+type RefreshResponse = LoginResponse;
+
+// The revision is an opaque version tag for the stored vault, taken from the
+// body or the ETag header. Older backends send neither.
 interface VaultResponse {
   encrypted_vault: string | null;
+  revision?: string | null;
 }
 
 interface VaultUpdate {
   encrypted_vault: string;
 }
 
+interface VaultUpdateResponse {
+  revision?: string | null;
+}
+
 interface ChangePasswordRequest {
+  current_password_hash: string;
+  new_password_hash: string;
+  // Vault re-encrypted with the new password. The backend stores it in the
+  // same transaction as the credential change, so either both apply or neither.
+  encrypted_vault?: string;
+  // New account KDF the new hash was derived with; the current one is kept
+  // when absent
+  kdf?: KdfParams;
+}
+
+// Revision of the vault stored with the change, if the backend reports one
+type ChangePasswordResponse = VaultUpdateResponse;
+
+interface MigrateAuthRequest {
   current_password: string;
-  new_password: string;
+  new_password_hash: string;
+  encrypted_vault?: string;
+}
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+
+  /**
+   * True when a conditional vault write was rejected because the server
+   * holds a newer revision
+   */
+  get isConflict(): boolean {
+    return this.status === 409 || this.status === 412;
+  }
+
+  /**
+   * True when a hashed login was refused because the account still
+   * authenticates with the raw master password (426 Upgrade Required). A
+   * wrong password is a plain 401 and never means this.
+   */
+  get isLegacyAuth(): boolean {
+    return this.status === 426;
+  }
 }
 
 class ApiClient {
   private baseUrl: string;
+  private tokens: TokenStore;
+  // Copy of the stored token, so requests don't wait on the store
+  private token: string | null = null;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, tokens: TokenStore = createTokenStore()) {
     this.baseUrl = baseUrl;
+    this.tokens = tokens;
+  }
+
+  /**
+   * Switch to another token store. The current session is forgotten, so
+   * call `restoreSession` afterwards.
+   */
+  useTokenStore(tokens: TokenStore): void {
+    this.tokens = tokens;
+    this.token = null;
+  }
+
+  /**
+   * Pick up a session kept from an earlier run. Returns whether there is one.
+   *
+   * The vault key is salted with the account email, so a session without a
+   * stored email can't unlock anything and is dropped to sign in again.
+   */
+  async restoreSession(): Promise<boolean> {
+    // Move a token left in localStorage by older versions into the store.
+    // A cookie session can't be made from it, so that just signs in again.
+    const legacy = localStorage.getItem(LEGACY_TOKEN_KEY);
+    if (legacy) {
+      localStorage.removeItem(LEGACY_TOKEN_KEY);
+      if (!this.tokens.cookie && this.getAccountEmail()) {
+        await this.saveToken(legacy);
+      }
+    }
+
+    try {
+      this.token = await this.tokens.load();
+    } catch (err) {
+      console.error("Failed to load session token:", err);
+      this.token = null;
+    }
+    if (this.token && !this.getAccountEmail()) {
+      console.log("Session has no account email, signing in again");
+      this.forgetToken();
+    }
+    return !!this.token;
   }
 
   private getAuthHeader(): HeadersInit {
-    const token = localStorage.getItem("session_token");
-    if (!token) {
+    if (!this.token) {
       throw new Error("No session token found");
     }
+    if (this.tokens.cookie) {
+      return { "Content-Type": "application/json" };
+    }
     return {
-      Authorization: `Bearer ${token}`,
+      Authorization: `Bearer ${this.token}`,
       "Content-Type": "application/json",
     };
   }
 
-  private async handleResponse<T>(response: Response): Promise<T> {
+  // Cookie sessions need the browser to send and accept cookies cross-origin
+  private credentials(): RequestInit {
+    return this.tokens.cookie ? { credentials: "include" } : {};
+  }
+
+  // The copy in memory keeps the session going for this run even if the
+  // store refuses the token (say, a locked keychain)
+  private async saveToken(token: string): Promise<void> {
+    this.token = token;
+    try {
+      await this.tokens.save(token);
+    } catch (err) {
+      console.error("Failed to store session token:", err);
+    }
+  }
+
+  private forgetToken(): void {
+    this.token = null;
+    this.tokens
+      .clear()
+      .catch((err) => console.error("Failed to clear session token:", err));
+  }
+
+  // `conditional` marks requests sent with If-Match, where 409/412 means
+  // another client wrote first
+  private async handleResponse<T>(
+    response: Response,
+    conditional = false,
+  ): Promise<T> {
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`API Error [${response.status}]:`, errorText);
 
       if (response.status === 401) {
         // Session expired or invalid
-        localStorage.removeItem("session_token");
-        throw new Error("Session expired. Please login again.");
+        this.forgetToken();
+        localStorage.removeItem("session_expires_at");
+        throw new ApiError(401, "Session expired. Please login again.");
+      }
+
+      if (conditional && (response.status === 409 || response.status === 412)) {
+        throw new ApiError(
+          response.status,
+          "The vault was changed on another device",
+        );
       }
 
-      throw new Error(
+      throw new ApiError(
+        response.status,
         `API error ${response.status}: ${errorText || response.statusText}`,
       );
     }
@@ -82,6 +281,17 @@ class ApiClient {
     return response.json();
   }
 
+  private withRevision<T extends { revision?: string | null }>(
+    result: T,
+    response: Response,
+  ): T {
+    const etag = response.headers.get("ETag");
+    if (!result.revision && etag) {
+      result.revision = etag;
+    }
+    return result;
+  }
+
   async register(data: RegisterRequest): Promise<RegisterResponse> {
     console.log("API: Registering user", data.email);
     const response = await fetch(`${this.baseUrl}/auth/register`, {
@@ -92,51 +302,234 @@ class ApiClient {
     return this.handleResponse<RegisterResponse>(response);
   }
 
-  async login(data: LoginRequest): Promise<LoginResponse> {
+  async prelogin(email: string): Promise<PreloginResponse> {
+    console.log("API: Fetching login settings", email);
+    const response = await fetch(`${this.baseUrl}/auth/prelogin`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email }),
+    });
+    return this.handleResponse<PreloginResponse>(response);
+  }
+
+  async login(data: LoginRequest): Promise<LoginResponse | MfaChallenge> {
     console.log("API: Logging in", data.email);
     const response = await fetch(`${this.baseUrl}/auth/login`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(data),
+      ...this.credentials(),
     });
-    const result = await this.handleResponse<LoginResponse>(response);
+    return this.storeSession(data.email, response);
+  }
 
-    // Store session token
-    localStorage.setItem("session_token", result.session_token);
-    console.log("Session token stored, expires:", result.expires_at);
+  async loginLegacy(
+    data: LegacyLoginRequest,
+  ): Promise<LoginResponse | MfaChallenge> {
+    console.log("API: Logging in with legacy credentials", data.email);
+    const response = await fetch(`${this.baseUrl}/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+      ...this.credentials(),
+    });
+    return this.storeSession(data.email, response);
+  }
+
+  private async storeSession<T extends LoginResponse | MfaChallenge>(
+    email: string,
+    response: Response,
+  ): Promise<T> {
+    const result = await this.handleResponse<T>(response);
+    if ("mfa_required" in result && result.mfa_required) {
+      console.log("Second factor required");
+      return result;
+    }
+
+    // Store session token, and the email the vault key is salted with
+    await this.storeToken(result as LoginResponse);
+    localStorage.setItem("account_email", email);
+    console.log(
+      "Session token stored, expires:",
+      (result as LoginResponse).expires_at,
+    );
+
+    return result;
+  }
+
+  private async storeToken(result: LoginResponse): Promise<void> {
+    // In cookie mode the token is in the cookie, not the body
+    await this.saveToken(
+      this.tokens.cookie ? COOKIE_SESSION : result.session_token,
+    );
+    if (result.expires_at) {
+      localStorage.setItem("session_expires_at", result.expires_at);
+    } else {
+      localStorage.removeItem("session_expires_at");
+    }
+  }
+
+  /**
+   * Finish a login that answered with an MFA challenge
+   */
+  async verifyMfa(
+    email: string,
+    mfaToken: string,
+    factor: MfaFactor,
+  ): Promise<MfaVerifyResponse> {
+    console.log("API: Verifying second factor", email);
+    const response = await fetch(`${this.baseUrl}/auth/mfa/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ mfa_token: mfaToken, ...factor }),
+      ...this.credentials(),
+    });
+    return this.storeSession<MfaVerifyResponse>(email, response);
+  }
+
+  async getMfaStatus(): Promise<MfaStatus> {
+    const response = await fetch(`${this.baseUrl}/auth/mfa`, {
+      method: "GET",
+      headers: this.getAuthHeader(),
+      ...this.credentials(),
+    });
+    return this.handleResponse<MfaStatus>(response);
+  }
+
+  /**
+   * Start enrolling an authenticator app
+   */
+  async setupMfa(): Promise<MfaSetupResponse> {
+    console.log("API: Setting up two-factor authentication");
+    const response = await fetch(`${this.baseUrl}/auth/mfa/setup`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+      ...this.credentials(),
+    });
+    return this.handleResponse<MfaSetupResponse>(response);
+  }
+
+  /**
+   * Confirm enrollment with a code from the new secret
+   */
+  async enableMfa(code: string): Promise<RecoveryCodesResponse> {
+    console.log("API: Enabling two-factor authentication");
+    const response = await fetch(`${this.baseUrl}/auth/mfa/enable`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+      body: JSON.stringify({ code }),
+      ...this.credentials(),
+    });
+    return this.handleResponse<RecoveryCodesResponse>(response);
+  }
+
+  async disableMfa(factor: MfaFactor): Promise<void> {
+    console.log("API: Disabling two-factor authentication");
+    const response = await fetch(`${this.baseUrl}/auth/mfa/disable`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+      body: JSON.stringify(factor),
+      ...this.credentials(),
+    });
+    await this.handleResponse<void>(response);
+  }
 
+  /**
+   * Replace all recovery codes; the old ones stop working
+   */
+  async regenerateRecoveryCodes(factor: MfaFactor): Promise<RecoveryCodesResponse> {
+    console.log("API: Generating new recovery codes");
+    const response = await fetch(`${this.baseUrl}/auth/mfa/recovery-codes`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+      body: JSON.stringify(factor),
+      ...this.credentials(),
+    });
+    return this.handleResponse<RecoveryCodesResponse>(response);
+  }
+
+  /**
+   * Swap the session token for a fresh one before it expires
+   */
+  async refreshSession(): Promise<RefreshResponse> {
+    console.log("API: Refreshing session");
+    const response = await fetch(`${this.baseUrl}/auth/refresh`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+      ...this.credentials(),
+    });
+    const result = await this.handleResponse<RefreshResponse>(response);
+    await this.storeToken(result);
+    console.log("Session refreshed, expires:", result.expires_at);
     return result;
   }
 
-  async getVault(): Promise<VaultResponse> {
+  async getVault(signal?: AbortSignal): Promise<VaultResponse> {
     console.log("API: Fetching vault");
     const response = await fetch(`${this.baseUrl}/vault`, {
       method: "GET",
       headers: this.getAuthHeader(),
+      signal,
+      ...this.credentials(),
     });
-    return this.handleResponse<VaultResponse>(response);
+    const result = await this.handleResponse<VaultResponse>(response);
+    return this.withRevision(result, response);
   }
 
-  async updateVault(data: VaultUpdate): Promise<void> {
+  /**
+   * Store the vault. With a revision, the write only succeeds if the server
+   * still holds that revision; otherwise it fails with a 409/412 ApiError.
+   */
+  async updateVault(
+    data: VaultUpdate,
+    revision?: string | null,
+  ): Promise<VaultUpdateResponse> {
     console.log("API: Updating vault");
+    const headers: Record<string, string> = {
+      ...(this.getAuthHeader() as Record<string, string>),
+    };
+    if (revision) {
+      headers["If-Match"] = revision;
+    }
     const response = await fetch(`${this.baseUrl}/vault`, {
       method: "PUT",
-      headers: this.getAuthHeader(),
+      headers,
       body: JSON.stringify(data),
+      ...this.credentials(),
     });
-    await this.handleResponse<void>(response);
+    const result = await this.handleResponse<VaultUpdateResponse>(
+      response,
+      Boolean(revision),
+    );
     console.log("Vault updated successfully");
+    return this.withRevision(result, response);
   }
 
-  async changePassword(data: ChangePasswordRequest): Promise<void> {
+  async changePassword(
+    data: ChangePasswordRequest,
+  ): Promise<ChangePasswordResponse> {
     console.log("API: Changing password");
     const response = await fetch(`${this.baseUrl}/auth/change-password`, {
       method: "POST",
       headers: this.getAuthHeader(),
       body: JSON.stringify(data),
+      ...this.credentials(),
     });
-    await this.handleResponse<void>(response);
+    const result = await this.handleResponse<ChangePasswordResponse>(response);
     console.log("Password changed successfully");
+    return this.withRevision(result, response);
+  }
+
+  async migrateAuth(data: MigrateAuthRequest): Promise<void> {
+    console.log("API: Migrating account to hashed authentication");
+    const response = await fetch(`${this.baseUrl}/auth/migrate`, {
+      method: "POST",
+      headers: this.getAuthHeader(),
+      body: JSON.stringify(data),
+      ...this.credentials(),
+    });
+    await this.handleResponse<void>(response);
+    console.log("Account migrated successfully");
   }
 
   async checkHealth(): Promise<string> {
@@ -145,13 +538,54 @@ class ApiClient {
   }
 
   isAuthenticated(): boolean {
-    return !!localStorage.getItem("session_token");
+    return !!this.token;
+  }
+
+  getAccountEmail(): string | null {
+    return localStorage.getItem("account_email");
+  }
+
+  /**
+   * KDF the signed-in account stretches its master password with, as of
+   * the last login or change; null if not known
+   */
+  getAccountKdf(): KdfParams | null {
+    try {
+      return JSON.parse(localStorage.getItem(ACCOUNT_KDF_KEY) ?? "null");
+    } catch {
+      return null;
+    }
+  }
+
+  setAccountKdf(kdf: KdfParams): void {
+    localStorage.setItem(ACCOUNT_KDF_KEY, JSON.stringify(kdf));
+  }
+
+  /**
+   * When the session token expires, in ms since the epoch; null if the
+   * backend didn't say
+   */
+  getSessionExpiry(): number | null {
+    const expiresAt = Date.parse(localStorage.getItem("session_expires_at") ?? "");
+    return Number.isNaN(expiresAt) ? null : expiresAt;
   }
 
   logout(): void {
-    localStorage.removeItem("session_token");
+    // Only the backend can expire an httpOnly cookie
+    if (this.tokens.cookie && this.token) {
+      fetch(`${this.baseUrl}/auth/logout`, {
+        method: "POST",
+        credentials: "include",
+      }).catch((err) => console.error("Logout error:", err));
+    }
+    this.forgetToken();
+    localStorage.removeItem("session_expires_at");
+    localStorage.removeItem("account_email");
+    localStorage.removeItem(ACCOUNT_KDF_KEY);
     console.log("Logged out, session token removed");
   }
 }
 
 export const api = new ApiClient(API_BASE_URL);
+
+export type { MfaChallenge, MfaFactor, MfaMethod, MfaStatus, MfaSetupResponse };
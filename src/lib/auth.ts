@@ -0,0 +1,194 @@
+// Login flow built on top of the API client and client-side key stretching
+import {
+  api,
+  ApiError,
+  type MfaChallenge,
+  type MfaFactor,
+  type MfaMethod,
+} from "./api";
+import {
+  ACCOUNT_LEGACY_KDF,
+  decryptVault,
+  deriveCredentials,
+  encryptVault,
+  type Credentials,
+  type KdfParams,
+} from "./crypto";
+
+/**
+ * A login waiting for its second factor. `verify` finishes it, and fails
+ * with a readable message on a wrong or expired code.
+ */
+interface PendingLogin {
+  methods: MfaMethod[];
+  verify: (factor: MfaFactor) => Promise<void>;
+}
+
+const isChallenge = (result: object): result is MfaChallenge =>
+  "mfa_required" in result && result.mfa_required === true;
+
+// `then` runs once the session exists, for steps that need it
+function pendingLogin(
+  email: string,
+  challenge: MfaChallenge,
+  then?: () => Promise<void>,
+): PendingLogin {
+  return {
+    methods: challenge.methods,
+    verify: async (factor) => {
+      try {
+        await api.verifyMfa(email, challenge.mfa_token, factor);
+      } catch (err) {
+        if (err instanceof ApiError && err.status === 401) {
+          throw new Error("Invalid or expired code");
+        }
+        throw err;
+      }
+      await then?.();
+    },
+  };
+}
+
+/**
+ * How the account stretches its master password, as the server has it.
+ * Backends from before per-account settings don't know the endpoint; every
+ * account there uses the original parameters.
+ */
+export async function fetchAccountKdf(email: string): Promise<KdfParams> {
+  try {
+    const { kdf } = await api.prelogin(email);
+    return kdf ?? ACCOUNT_LEGACY_KDF;
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 404) {
+      return ACCOUNT_LEGACY_KDF;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Log in with the master password, sending only its derived auth hash,
+ * stretched with the account's KDF from `fetchAccountKdf`. Returns the
+ * pending login when the account asks for a second factor, otherwise null
+ * once signed in.
+ *
+ * Accounts registered before key stretching are still keyed to the raw
+ * master password. Only when the server says the account is one of those
+ * (never on a plain 401, or a wrong password would leak the master password)
+ * fall back to a legacy login once and migrate the account: the vault is
+ * re-encrypted under the new encryption key and uploaded together with the
+ * new auth hash.
+ */
+export async function loginWithMasterPassword(
+  email: string,
+  masterPassword: string,
+): Promise<PendingLogin | null> {
+  const kdf = await fetchAccountKdf(email);
+  const credentials = await deriveCredentials(masterPassword, email, kdf);
+  // Kept once signed in, so the vault unlocks offline
+  const remember = async () => {
+    api.setAccountKdf(kdf);
+  };
+
+  try {
+    const result = await api.login({
+      email,
+      master_password_hash: credentials.authHash,
+    });
+    if (isChallenge(result)) {
+      return pendingLogin(email, result, remember);
+    }
+    await remember();
+    return null;
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 401) {
+      throw new Error("Invalid email or master password");
+    }
+    if (!(err instanceof ApiError) || !err.isLegacyAuth) {
+      throw err;
+    }
+  }
+
+  let result;
+  try {
+    result = await api.loginLegacy({ email, master_password: masterPassword });
+  } catch (err) {
+    if (err instanceof ApiError && err.status === 401) {
+      throw new Error("Invalid email or master password");
+    }
+    throw err;
+  }
+
+  console.log("Legacy account detected, migrating to hashed authentication");
+
+  const migrate = async () => {
+    try {
+      await migrateAccount(masterPassword, credentials);
+    } catch (err) {
+      // The vault is still under the raw master password, which this
+      // session has no way to unlock; start over with a fresh login
+      api.logout();
+      throw new Error(
+        `Couldn't upgrade your account's sign-in: ${err instanceof Error ? err.message : err}`,
+      );
+    }
+    await remember();
+  };
+  if (isChallenge(result)) {
+    return pendingLogin(email, result, migrate);
+  }
+  await migrate();
+  return null;
+}
+
+async function migrateAccount(
+  masterPassword: string,
+  credentials: Credentials,
+): Promise<void> {
+  let reencryptedVault: string | undefined;
+  const response = await api.getVault();
+  if (response.encrypted_vault) {
+    const vault = await decryptVault(response.encrypted_vault, masterPassword);
+    reencryptedVault = await encryptVault(vault, credentials.encryptionKey);
+  }
+
+  await api.migrateAuth({
+    current_password: masterPassword,
+    new_password_hash: credentials.authHash,
+    encrypted_vault: reencryptedVault,
+  });
+}
+
+/**
+ * KDF of the logged-in account. Refreshed from the server in case another
+ * device changed it, and taken from the last login when the server can't be
+ * reached.
+ */
+export async function loadAccountKdf(email: string): Promise<KdfParams> {
+  try {
+    const kdf = await fetchAccountKdf(email);
+    api.setAccountKdf(kdf);
+    return kdf;
+  } catch (err) {
+    console.warn("Using the saved key derivation settings:", err);
+    return api.getAccountKdf() ?? ACCOUNT_LEGACY_KDF;
+  }
+}
+
+/**
+ * Derive the vault encryption key for the logged-in account
+ */
+export async function deriveVaultKey(masterPassword: string): Promise<string> {
+  const email = api.getAccountEmail();
+  if (!email) {
+    throw new Error("Session expired. Please login again.");
+  }
+  const { encryptionKey } = await deriveCredentials(
+    masterPassword,
+    email,
+    await loadAccountKdf(email),
+  );
+  return encryptionKey;
+}
+
+export type { PendingLogin };
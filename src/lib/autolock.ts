@@ -0,0 +1,131 @@
+// Locks the vault when nobody is using it: after a period without input,
+// when the tab is hidden or the window minimized, and when the computer
+// sleeps (desktop app only).
+
+import { isTauri } from "@tauri-apps/api/core";
+import { getCurrentWindow } from "@tauri-apps/api/window";
+
+interface AutoLockConfig {
+  // Minutes without input before locking; 0 never locks
+  idleMinutes: number;
+  // Lock when the tab is hidden or the window minimized
+  lockOnHide: boolean;
+  // Lock when the system sleeps; only the desktop app can tell
+  lockOnSleep: boolean;
+}
+
+export const DEFAULT_AUTO_LOCK: AutoLockConfig = {
+  idleMinutes: 15,
+  lockOnHide: false,
+  lockOnSleep: true,
+};
+
+export const IDLE_MINUTES_OPTIONS = [1, 5, 15, 30, 60, 0];
+
+const STORAGE_KEY = "auto_lock";
+
+const MINUTE_MS = 60 * 1000;
+
+const CHECK_INTERVAL_MS = 5000;
+
+// A check this late means the machine was suspended in between
+const SLEEP_GAP_MS = 60 * 1000;
+
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "touchstart", "wheel"];
+
+export function getAutoLockConfig(): AutoLockConfig {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      idleMinutes: IDLE_MINUTES_OPTIONS.includes(saved.idleMinutes)
+        ? saved.idleMinutes
+        : DEFAULT_AUTO_LOCK.idleMinutes,
+      lockOnHide:
+        typeof saved.lockOnHide === "boolean"
+          ? saved.lockOnHide
+          : DEFAULT_AUTO_LOCK.lockOnHide,
+      lockOnSleep:
+        typeof saved.lockOnSleep === "boolean"
+          ? saved.lockOnSleep
+          : DEFAULT_AUTO_LOCK.lockOnSleep,
+    };
+  } catch {
+    return { ...DEFAULT_AUTO_LOCK };
+  }
+}
+
+export function saveAutoLockConfig(config: AutoLockConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+/**
+ * Call `onLock` once when any of the configured triggers fire. Returns a
+ * function that stops watching.
+ */
+export function watchAutoLock(
+  onLock: () => void,
+  config: AutoLockConfig = getAutoLockConfig(),
+): () => void {
+  let lastActivity = Date.now();
+  let lastCheck = Date.now();
+  let locked = false;
+  let stopped = false;
+
+  const lock = () => {
+    if (locked || stopped) return;
+    locked = true;
+    onLock();
+  };
+  const onActivity = () => {
+    lastActivity = Date.now();
+  };
+  const onVisibilityChange = () => {
+    if (document.hidden) lock();
+  };
+
+  // Timers don't run while the system sleeps, so a long gap between
+  // checks means it just woke up
+  const detectSleep = config.lockOnSleep && isTauri();
+  const timer = setInterval(() => {
+    const now = Date.now();
+    if (detectSleep && now - lastCheck > SLEEP_GAP_MS) lock();
+    if (config.idleMinutes > 0 && now - lastActivity >= config.idleMinutes * MINUTE_MS) {
+      lock();
+    }
+    lastCheck = now;
+  }, CHECK_INTERVAL_MS);
+
+  for (const event of ACTIVITY_EVENTS) {
+    window.addEventListener(event, onActivity, { passive: true });
+  }
+  if (config.lockOnHide) {
+    document.addEventListener("visibilitychange", onVisibilityChange);
+  }
+
+  // Not every webview reports a minimized window as hidden
+  let unlistenResize: (() => void) | undefined;
+  if (config.lockOnHide && isTauri()) {
+    const appWindow = getCurrentWindow();
+    appWindow
+      .onResized(async () => {
+        if (await appWindow.isMinimized()) lock();
+      })
+      .then((unlisten) => {
+        if (stopped) unlisten();
+        else unlistenResize = unlisten;
+      })
+      .catch((err) => console.error("Auto-lock window listener error:", err));
+  }
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+    for (const event of ACTIVITY_EVENTS) {
+      window.removeEventListener(event, onActivity);
+    }
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    unlistenResize?.();
+  };
+}
+
+export type { AutoLockConfig };
@@ -0,0 +1,200 @@
+// Breached password check. Passwords are looked up by SHA-1 hash with the
+// Have I Been Pwned range API's k-anonymity model: only the first five hex
+// characters of the hash leave the device, and the matching suffix is found
+// locally in the response. A locally loaded hash file answers the same
+// lookups offline.
+
+import type { Vault } from "./crypto";
+import { ENTRY_SCHEMAS, getFieldValue } from "./entries";
+
+// Suffix (the last 35 hex characters of the hash) to breach count
+type RangeResult = Map<string, number>;
+
+// Every hash starting with `prefix`, like a range API response
+type BreachSource = (prefix: string) => Promise<RangeResult>;
+
+type BreachCheckMode = "off" | "online";
+
+export const HIBP_RANGE_URL = "https://api.pwnedpasswords.com/range/";
+
+const PREFIX_LENGTH = 5;
+
+const MODE_STORAGE_KEY = "breach_check";
+
+const HASH_PATTERN = /^[0-9A-F]{40}$/;
+
+export async function sha1Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-1",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0"),
+  )
+    .join("")
+    .toUpperCase();
+}
+
+/**
+ * Parse a range API response ("SUFFIX:COUNT" per line). Padding rows have
+ * a count of zero and are dropped.
+ */
+export function parseRangeResponse(text: string): RangeResult {
+  const result: RangeResult = new Map();
+  for (const line of text.split(/\r?\n/)) {
+    const [suffix, count] = line.trim().split(":");
+    const breaches = Number(count);
+    if (suffix && breaches > 0) result.set(suffix.toUpperCase(), breaches);
+  }
+  return result;
+}
+
+/**
+ * Look hashes up online. Responses are cached per prefix for the lifetime
+ * of the source.
+ */
+export function createHibpSource(fetchImpl: typeof fetch = fetch): BreachSource {
+  const cache = new Map<string, Promise<RangeResult>>();
+  return (prefix) => {
+    let pending = cache.get(prefix);
+    if (!pending) {
+      pending = (async () => {
+        // Padding hides the real number of suffixes from anyone watching
+        const response = await fetchImpl(`${HIBP_RANGE_URL}${prefix}`, {
+          headers: { "Add-Padding": "true" },
+        });
+        if (!response.ok) {
+          throw new Error(`Breach check failed (${response.status})`);
+        }
+        return parseRangeResponse(await response.text());
+      })();
+      // Let a failed lookup be retried
+      pending.catch(() => cache.delete(prefix));
+      cache.set(prefix, pending);
+    }
+    return pending;
+  };
+}
+
+/**
+ * Look hashes up in a locally loaded file with one SHA-1 hash per line,
+ * optionally followed by ":COUNT" as in the downloadable HIBP hash lists.
+ * Lines that aren't a full hash are ignored.
+ */
+export function createOfflineSource(text: string): BreachSource {
+  const byPrefix = new Map<string, RangeResult>();
+  for (const line of text.split(/\r?\n/)) {
+    const [hash, count] = line.trim().split(":");
+    const upper = hash.toUpperCase();
+    if (!HASH_PATTERN.test(upper)) continue;
+    const prefix = upper.slice(0, PREFIX_LENGTH);
+    const range = byPrefix.get(prefix) ?? new Map();
+    // A bare hash still means the password was breached
+    range.set(upper.slice(PREFIX_LENGTH), count ? Number(count) || 1 : 1);
+    byPrefix.set(prefix, range);
+  }
+  return async (prefix) => byPrefix.get(prefix) ?? new Map();
+}
+
+/**
+ * How often each password appears in known breaches. Passwords that share
+ * a hash prefix cost a single lookup; unbreached passwords are left out.
+ */
+export async function checkBreaches(
+  passwords: string[],
+  source: BreachSource,
+): Promise<Map<string, number>> {
+  const hashes = new Map<string, string>();
+  for (const password of new Set(passwords)) {
+    if (password) hashes.set(password, await sha1Hex(password));
+  }
+
+  const prefixes = [...new Set([...hashes.values()].map((h) => h.slice(0, PREFIX_LENGTH)))];
+  const ranges = new Map(
+    await Promise.all(
+      prefixes.map(async (prefix) => [prefix, await source(prefix)] as const),
+    ),
+  );
+
+  const breached = new Map<string, number>();
+  for (const [password, hash] of hashes) {
+    const count = ranges
+      .get(hash.slice(0, PREFIX_LENGTH))
+      ?.get(hash.slice(PREFIX_LENGTH));
+    if (count) breached.set(password, count);
+  }
+  return breached;
+}
+
+/**
+ * The highest breach count among each entry's password-like fields, by
+ * entry id. Entries without breached passwords are left out.
+ */
+export async function checkVaultBreaches(
+  vault: Vault,
+  source: BreachSource,
+): Promise<Map<string, number>> {
+  const values = vault.entries.map((entry) =>
+    ENTRY_SCHEMAS[entry.type].fields
+      .filter((field) => field.history)
+      .map((field) => getFieldValue(entry, field.key))
+      .filter((value): value is string => !!value),
+  );
+  const breached = await checkBreaches(values.flat(), source);
+
+  const counts = new Map<string, number>();
+  vault.entries.forEach((entry, i) => {
+    const count = Math.max(0, ...values[i].map((v) => breached.get(v) ?? 0));
+    if (count) counts.set(entry.id, count);
+  });
+  return counts;
+}
+
+// The source shared by the health report and the vault list. An offline
+// file stays loaded until the app is closed; online checks are opt-in.
+let offlineSource: BreachSource | null = null;
+let onlineSource: BreachSource | null = null;
+
+export function getBreachCheckMode(): BreachCheckMode {
+  return localStorage.getItem(MODE_STORAGE_KEY) === "online" ? "online" : "off";
+}
+
+export function setBreachCheckMode(mode: BreachCheckMode): void {
+  if (mode === "online") localStorage.setItem(MODE_STORAGE_KEY, mode);
+  else localStorage.removeItem(MODE_STORAGE_KEY);
+}
+
+/**
+ * Use a hash file instead of the online API until `clearOfflineBreachFile`.
+ * Returns the number of hashes found in the file.
+ */
+export function loadOfflineBreachFile(text: string): number {
+  const count = text
+    .split(/\r?\n/)
+    .filter((line) => HASH_PATTERN.test(line.trim().split(":")[0].toUpperCase()))
+    .length;
+  if (count === 0) throw new Error("No SHA-1 hashes found in the file");
+  offlineSource = createOfflineSource(text);
+  return count;
+}
+
+export function clearOfflineBreachFile(): void {
+  offlineSource = null;
+}
+
+export function hasOfflineBreachFile(): boolean {
+  return offlineSource !== null;
+}
+
+/**
+ * The loaded hash file if there is one, otherwise the online API when it's
+ * been enabled, otherwise null
+ */
+export function getBreachSource(): BreachSource | null {
+  if (offlineSource) return offlineSource;
+  if (getBreachCheckMode() !== "online") return null;
+  onlineSource ??= createHibpSource();
+  return onlineSource;
+}
+
+export type { BreachCheckMode, BreachSource, RangeResult };
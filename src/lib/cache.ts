@@ -0,0 +1,108 @@
+// Local key/value storage for data that must survive restarts without the
+// server: IndexedDB in the browser, files in the app data directory in the
+// desktop app. Values are only ever encrypted vault data or metadata.
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+
+interface CacheStore {
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+const DB_NAME = "zcloudpass";
+const STORE_NAME = "cache";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function idbRequest<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const indexedDbStore: CacheStore = {
+  read: async (key) =>
+    (await idbRequest<string | undefined>("readonly", (s) => s.get(key))) ?? null,
+  write: (key, value) => idbRequest("readwrite", (s) => s.put(value, key)),
+  remove: (key) => idbRequest("readwrite", (s) => s.delete(key)),
+};
+
+// The Rust side only accepts hex file names, so keys can't escape the
+// cache directory
+const fileKey = (key: string) =>
+  Array.from(new TextEncoder().encode(key), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+
+const tauriStore: CacheStore = {
+  read: (key) => invoke<string | null>("cache_read", { key: fileKey(key) }),
+  write: (key, value) => invoke("cache_write", { key: fileKey(key), value }),
+  remove: (key) => invoke("cache_remove", { key: fileKey(key) }),
+};
+
+// Last resort when IndexedDB is unavailable (e.g. some private browsing
+// modes); nothing survives a reload
+const memory = new Map<string, string>();
+const memoryStore: CacheStore = {
+  read: async (key) => memory.get(key) ?? null,
+  write: async (key, value) => {
+    memory.set(key, value);
+  },
+  remove: async (key) => {
+    memory.delete(key);
+  },
+};
+
+function getStore(): CacheStore {
+  if (isTauri()) return tauriStore;
+  if (typeof indexedDB !== "undefined") return indexedDbStore;
+  return memoryStore;
+}
+
+/**
+ * Read a cached JSON value
+ */
+export async function readCache<T>(key: string): Promise<T | null> {
+  const raw = await getStore().read(key);
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a JSON value
+ */
+export async function writeCache(key: string, value: unknown): Promise<void> {
+  await getStore().write(key, JSON.stringify(value));
+}
+
+/**
+ * Remove a cached value
+ */
+export async function removeCache(key: string): Promise<void> {
+  await getStore().remove(key);
+}
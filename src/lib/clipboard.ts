@@ -0,0 +1,133 @@
+// Copies secrets to the clipboard and clears them again after a timeout,
+// but only if the clipboard still holds what we put there. The desktop app
+// goes through the native clipboard so it can also keep secrets out of
+// clipboard history and cloud sync where the OS supports it.
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+
+interface ClipboardBackend {
+  write: (text: string) => Promise<void>;
+  // null when the clipboard can't be read
+  read: () => Promise<string | null>;
+  clear: () => Promise<void>;
+}
+
+// A pending clear, for the countdown toast
+interface ClipboardCountdown {
+  clearsAt: number;
+  seconds: number;
+}
+
+export const DEFAULT_CLEAR_SECONDS = 30;
+
+// 0 never clears
+export const CLEAR_SECONDS_OPTIONS = [10, 30, 60, 120, 0];
+
+const STORAGE_KEY = "clipboard_clear_seconds";
+
+const webBackend: ClipboardBackend = {
+  write: (text) => navigator.clipboard.writeText(text),
+  // Browsers may refuse reads without a permission prompt or user gesture
+  read: async () => {
+    try {
+      return await navigator.clipboard.readText();
+    } catch {
+      return null;
+    }
+  },
+  clear: () => navigator.clipboard.writeText(""),
+};
+
+const tauriBackend: ClipboardBackend = {
+  write: (text) => invoke("clipboard_write_secret", { text }),
+  read: () => invoke<string | null>("clipboard_read"),
+  clear: () => invoke("clipboard_clear"),
+};
+
+const backend = () => (isTauri() ? tauriBackend : webBackend);
+
+let countdown: ClipboardCountdown | null = null;
+let clearTimer: ReturnType<typeof setTimeout> | undefined;
+let copiedValue: string | null = null;
+// Set when something else is copied in this page after our write, for
+// when the clipboard can't be read back
+let copiedOver = false;
+const listeners = new Set<() => void>();
+
+function setCountdown(next: ClipboardCountdown | null) {
+  countdown = next;
+  listeners.forEach((listener) => listener());
+}
+
+if (typeof document !== "undefined") {
+  const onCopy = () => {
+    copiedOver = true;
+  };
+  document.addEventListener("copy", onCopy);
+  document.addEventListener("cut", onCopy);
+}
+
+export function getClipboardClearSeconds(): number {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  const seconds = Number(saved);
+  return saved !== null && CLEAR_SECONDS_OPTIONS.includes(seconds)
+    ? seconds
+    : DEFAULT_CLEAR_SECONDS;
+}
+
+export function saveClipboardClearSeconds(seconds: number): void {
+  localStorage.setItem(STORAGE_KEY, String(seconds));
+}
+
+export const getClipboardCountdown = (): ClipboardCountdown | null => countdown;
+
+/**
+ * Subscribe to countdown changes; returns the unsubscribe function
+ */
+export function subscribeClipboard(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Copy `text` and schedule it to be cleared. A new copy replaces the
+ * pending clear of the previous one.
+ */
+export async function copySecret(text: string): Promise<void> {
+  await backend().write(text);
+  clearTimeout(clearTimer);
+  copiedValue = text;
+  copiedOver = false;
+
+  const seconds = getClipboardClearSeconds();
+  if (seconds === 0) {
+    setCountdown(null);
+    return;
+  }
+  clearTimer = setTimeout(() => {
+    clearClipboard().catch((err) => console.error("Clipboard clear error:", err));
+  }, seconds * 1000);
+  setCountdown({ clearsAt: Date.now() + seconds * 1000, seconds });
+}
+
+/**
+ * Clear the clipboard now if it still holds the last copied secret.
+ * Returns whether it was cleared.
+ */
+export async function clearClipboard(): Promise<boolean> {
+  clearTimeout(clearTimer);
+  const value = copiedValue;
+  copiedValue = null;
+  setCountdown(null);
+  if (value === null) return false;
+
+  const current = await backend().read();
+  const unchanged = current === null ? !copiedOver : current === value;
+  if (!unchanged) return false;
+  await backend().clear();
+  return true;
+}
+
+export type { ClipboardCountdown };
@@ -1,57 +1,430 @@
 // Simple client-side encryption using Web Crypto API
 // This is a basic implementation - in production, consider using a dedicated library
+import { argon2id } from "hash-wasm";
+import type { VaultEntry } from "./entries";
 
-interface VaultEntry {
+// Ids of deleted entries, so a merge can tell "deleted here" apart from
+// "never seen here"
+interface Tombstone {
+  id: string;
+  deletedAt: number;
+}
+
+// Folders nest through parentId; entries point at one with folderId
+interface Folder {
   id: string;
   name: string;
-  username?: string;
-  password?: string;
-  url?: string;
-  notes?: string;
+  parentId?: string;
 }
 
 interface Vault {
   entries: VaultEntry[];
+  tombstones?: Tombstone[];
+  folders?: Folder[];
 }
 
 /**
- * Derive a key from the master password using PBKDF2
+ * Secrets stretched from the master password. The auth hash is what the
+ * server sees; the encryption key never leaves the client.
  */
-async function deriveKey(
+interface Credentials {
+  authHash: string;
+  encryptionKey: string;
+}
+
+interface Pbkdf2Params {
+  name: "PBKDF2";
+  hash: "SHA-256";
+  iterations: number;
+}
+
+// memory is in KiB, matching the Argon2 specification
+interface Argon2idParams {
+  name: "Argon2id";
+  memory: number;
+  iterations: number;
+  parallelism: number;
+}
+
+type KdfParams = Pbkdf2Params | Argon2idParams;
+
+/**
+ * What an encrypted vault says about itself. Version 0 is the original
+ * unversioned `salt || iv || ciphertext` layout.
+ */
+interface VaultEnvelopeInfo {
+  version: number;
+  kdf: KdfParams;
+  cipher: "AES-256-GCM";
+}
+
+const AUTH_INFO = "zcloudpass-auth";
+const ENCRYPTION_INFO = "zcloudpass-enc";
+
+// Envelope layout (version 1), all integers big-endian:
+//   magic "ZCP" | version u8 | kdf id u8 | kdf params length u8 | kdf params
+//   | salt length u8 | salt | cipher id u8 | iv length u8 | iv | ciphertext
+// Everything before the ciphertext is authenticated as AES-GCM associated
+// data, so the recorded parameters cannot be tampered with.
+const ENVELOPE_MAGIC = [0x5a, 0x43, 0x50];
+const ENVELOPE_VERSION = 1;
+const KDF_PBKDF2_SHA256 = 1;
+const KDF_ARGON2ID = 2;
+const CIPHER_AES_256_GCM = 1;
+
+const LEGACY_KDF: KdfParams = {
+  name: "PBKDF2",
+  hash: "SHA-256",
+  iterations: 100000,
+};
+
+// What accounts stretch the master password with until they choose otherwise
+export const ACCOUNT_LEGACY_KDF: Pbkdf2Params = {
+  name: "PBKDF2",
+  hash: "SHA-256",
+  iterations: 100000,
+};
+
+export const DEFAULT_KDF: Pbkdf2Params = {
+  name: "PBKDF2",
+  hash: "SHA-256",
+  iterations: 600000,
+};
+
+export const DEFAULT_ARGON2ID: Argon2idParams = {
+  name: "Argon2id",
+  memory: 65536,
+  iterations: 3,
+  parallelism: 4,
+};
+
+// The KDF parameters Settings offers, and the only ones a vault may ask
+// for. Vault headers are only authenticated after the key is derived, so a
+// corrupted or tampered header must not be able to ask for gigabytes of
+// memory or minutes of work.
+export const KDF_LIMITS = {
+  pbkdf2Iterations: { min: 100000, max: 2000000 },
+  // MiB, as shown in Settings; headers store KiB
+  argon2MemoryMiB: { min: 16, max: 1024 },
+  argon2Iterations: { min: 1, max: 10 },
+  argon2Parallelism: { min: 1, max: 8 },
+};
+
+interface ParsedEnvelope {
+  info: VaultEnvelopeInfo;
+  header: Uint8Array;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Stretch the master password into an authentication hash and a separate
+ * vault encryption key.
+ *
+ * A master key is derived with the account's KDF salted by the account
+ * email, then expanded with HKDF under two distinct labels. Knowing the auth
+ * hash does not reveal the encryption key, so the server can verify logins
+ * without being able to decrypt the vault. Guessing the master password from
+ * the auth hash costs one run of the account's KDF per guess.
+ */
+export async function deriveCredentials(
   masterPassword: string,
-  salt: Uint8Array,
-): Promise<CryptoKey> {
+  email: string,
+  kdf: KdfParams = ACCOUNT_LEGACY_KDF,
+): Promise<Credentials> {
   const encoder = new TextEncoder();
-  const passwordBuffer = encoder.encode(masterPassword);
+
+  const masterKeyBits = await stretchPassword(
+    masterPassword,
+    encoder.encode(`zcloudpass:${email.trim().toLowerCase()}`),
+    kdf,
+    "Account",
+  );
+
+  const masterKey = await crypto.subtle.importKey(
+    "raw",
+    masterKeyBits,
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+
+  const expand = async (info: string) =>
+    new Uint8Array(
+      await crypto.subtle.deriveBits(
+        {
+          name: "HKDF",
+          hash: "SHA-256",
+          salt: new Uint8Array(0),
+          info: encoder.encode(info),
+        },
+        masterKey,
+        256,
+      ),
+    );
+
+  return {
+    authHash: toBase64(await expand(AUTH_INFO)),
+    encryptionKey: toBase64(await expand(ENCRYPTION_INFO)),
+  };
+}
+
+/**
+ * Why the KDF parameters are outside `KDF_LIMITS`, or null if they aren't.
+ * `source` names who asked for them.
+ */
+function kdfOutOfRange(kdf: KdfParams, source: string): string | null {
+  const within = (value: number, { min, max }: { min: number; max: number }) =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+  if (kdf.name === "Argon2id") {
+    if (
+      !within(kdf.memory / 1024, KDF_LIMITS.argon2MemoryMiB) ||
+      !within(kdf.iterations, KDF_LIMITS.argon2Iterations) ||
+      !within(kdf.parallelism, KDF_LIMITS.argon2Parallelism)
+    ) {
+      return `${source} asks for unsupported Argon2id settings (${kdf.memory} KiB, ${kdf.iterations} passes, ${kdf.parallelism} lanes)`;
+    }
+    return null;
+  }
+  if (!within(kdf.iterations, KDF_LIMITS.pbkdf2Iterations)) {
+    return `${source} asks for unsupported PBKDF2 settings (${kdf.iterations} iterations)`;
+  }
+  return null;
+}
+
+/**
+ * Stretch a password into 256 bits with the given KDF
+ */
+async function stretchPassword(
+  password: string,
+  salt: Uint8Array,
+  kdf: KdfParams,
+  source: string,
+): Promise<Uint8Array> {
+  const outOfRange = kdfOutOfRange(kdf, source);
+  if (outOfRange) {
+    throw new Error(outOfRange);
+  }
+
+  if (kdf.name === "Argon2id") {
+    return argon2id({
+      password,
+      salt,
+      memorySize: kdf.memory,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+      hashLength: 32,
+      outputType: "binary",
+    });
+  }
 
   const baseKey = await crypto.subtle.importKey(
     "raw",
-    passwordBuffer,
+    new TextEncoder().encode(password),
     "PBKDF2",
     false,
-    ["deriveBits", "deriveKey"],
+    ["deriveBits"],
   );
 
-  return crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: salt,
-      iterations: 100000,
-      hash: "SHA-256",
-    },
-    baseKey,
-    { name: "AES-GCM", length: 256 },
-    true,
-    ["encrypt", "decrypt"],
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      {
+        name: "PBKDF2",
+        salt: salt,
+        iterations: kdf.iterations,
+        hash: kdf.hash,
+      },
+      baseKey,
+      256,
+    ),
   );
 }
 
 /**
- * Encrypt the vault data
+ * Derive a vault key from the master password with the given KDF
+ */
+async function deriveKey(
+  masterPassword: string,
+  salt: Uint8Array,
+  kdf: KdfParams,
+): Promise<CryptoKey> {
+  const keyBytes = await stretchPassword(masterPassword, salt, kdf, "Vault");
+  return crypto.subtle.importKey("raw", keyBytes, "AES-GCM", true, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// PBKDF2: iterations u32
+// Argon2id: memory u32 | iterations u32 | parallelism u8
+function encodeKdfParams(kdf: KdfParams): { id: number; params: Uint8Array } {
+  if (kdf.name === "Argon2id") {
+    const params = new Uint8Array(9);
+    const view = new DataView(params.buffer);
+    view.setUint32(0, kdf.memory);
+    view.setUint32(4, kdf.iterations);
+    view.setUint8(8, kdf.parallelism);
+    return { id: KDF_ARGON2ID, params };
+  }
+
+  const params = new Uint8Array(4);
+  new DataView(params.buffer).setUint32(0, kdf.iterations);
+  return { id: KDF_PBKDF2_SHA256, params };
+}
+
+function decodeKdfParams(id: number, params: Uint8Array): KdfParams {
+  const view = new DataView(params.buffer, params.byteOffset, params.length);
+  if (id === KDF_PBKDF2_SHA256 && params.length === 4) {
+    return { name: "PBKDF2", hash: "SHA-256", iterations: view.getUint32(0) };
+  }
+  if (id === KDF_ARGON2ID && params.length === 9) {
+    return {
+      name: "Argon2id",
+      memory: view.getUint32(0),
+      iterations: view.getUint32(4),
+      parallelism: view.getUint8(8),
+    };
+  }
+  throw new Error(`Unsupported key derivation function: ${id}`);
+}
+
+function encodeHeader(
+  kdf: KdfParams,
+  salt: Uint8Array,
+  iv: Uint8Array,
+): Uint8Array {
+  const { id, params } = encodeKdfParams(kdf);
+  return Uint8Array.from([
+    ...ENVELOPE_MAGIC,
+    ENVELOPE_VERSION,
+    id,
+    params.length,
+    ...params,
+    salt.length,
+    ...salt,
+    CIPHER_AES_256_GCM,
+    iv.length,
+    ...iv,
+  ]);
+}
+
+// Original layout: salt (16) | iv (12) | ciphertext
+function parseLegacy(bytes: Uint8Array): ParsedEnvelope {
+  return {
+    info: { version: 0, kdf: LEGACY_KDF, cipher: "AES-256-GCM" },
+    header: new Uint8Array(0),
+    salt: bytes.slice(0, 16),
+    iv: bytes.slice(16, 28),
+    ciphertext: bytes.slice(28),
+  };
+}
+
+/**
+ * Split a versioned envelope into its header fields and ciphertext. Throws
+ * if any header check fails.
+ */
+function parseEnvelope(bytes: Uint8Array): ParsedEnvelope {
+  let offset = ENVELOPE_MAGIC.length;
+  const take = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new Error("Truncated vault envelope");
+    }
+    const chunk = bytes.slice(offset, offset + length);
+    offset += length;
+    return chunk;
+  };
+
+  const version = take(1)[0];
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported vault version: ${version}`);
+  }
+
+  const kdfId = take(1)[0];
+  const kdf = decodeKdfParams(kdfId, take(take(1)[0]));
+  const salt = take(take(1)[0]);
+  const cipherId = take(1)[0];
+  if (cipherId !== CIPHER_AES_256_GCM) {
+    throw new Error(`Unsupported cipher: ${cipherId}`);
+  }
+  const iv = take(take(1)[0]);
+
+  return {
+    info: { version, kdf, cipher: "AES-256-GCM" },
+    header: bytes.slice(0, offset),
+    salt,
+    iv,
+    ciphertext: bytes.slice(offset),
+  };
+}
+
+/**
+ * Layouts an encrypted vault may be in, most likely first. Legacy blobs
+ * start with a random salt, which can begin with the envelope magic by
+ * chance, so the legacy layout stays a candidate behind the envelope.
+ */
+function parseLayouts(bytes: Uint8Array): ParsedEnvelope[] {
+  const legacy = parseLegacy(bytes);
+  if (!ENVELOPE_MAGIC.every((b, i) => bytes[i] === b)) {
+    return [legacy];
+  }
+  try {
+    return [parseEnvelope(bytes), legacy];
+  } catch (err) {
+    console.warn("Not a valid vault envelope, reading as legacy:", err);
+    return [legacy];
+  }
+}
+
+/**
+ * Read the version and KDF parameters of an encrypted vault without
+ * decrypting it
+ */
+export function inspectVault(encryptedVault: string): VaultEnvelopeInfo {
+  return parseLayouts(fromBase64(encryptedVault))[0].info;
+}
+
+/**
+ * KDF parameters to keep when re-encrypting a vault. Vaults choose their own
+ * KDF; legacy blobs are moved to the default.
+ */
+export function getVaultKdf(encryptedVault: string): KdfParams {
+  const info = inspectVault(encryptedVault);
+  return info.version === 0 ? DEFAULT_KDF : info.kdf;
+}
+
+/**
+ * Time an unlock with the given parameters, in milliseconds: stretching the
+ * master password, then deriving the vault key from the envelope
+ */
+export async function benchmarkKdf(kdf: KdfParams): Promise<number> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const start = performance.now();
+  const { encryptionKey } = await deriveCredentials(
+    "benchmark-password",
+    "benchmark@example.com",
+    kdf,
+  );
+  await deriveKey(encryptionKey, salt, kdf);
+  return performance.now() - start;
+}
+
+/**
+ * Encrypt the vault data into the current envelope format
  */
 export async function encryptVault(
   vault: Vault,
   masterPassword: string,
+  kdf: KdfParams = DEFAULT_KDF,
 ): Promise<string> {
   console.log("Encrypting vault with", vault.entries.length, "entries");
 
@@ -60,7 +433,8 @@ export async function encryptVault(
   const iv = crypto.getRandomValues(new Uint8Array(12));
 
   // Derive encryption key from master password
-  const key = await deriveKey(masterPassword, salt);
+  const key = await deriveKey(masterPassword, salt, kdf);
+  const header = encodeHeader(kdf, salt, iv);
 
   // Encrypt the vault JSON
   const encoder = new TextEncoder();
@@ -68,28 +442,48 @@ export async function encryptVault(
   const vaultBuffer = encoder.encode(vaultJson);
 
   const encryptedBuffer = await crypto.subtle.encrypt(
-    { name: "AES-GCM", iv: iv },
+    { name: "AES-GCM", iv: iv, additionalData: header },
     key,
     vaultBuffer,
   );
 
-  // Combine salt + iv + encrypted data
-  const combined = new Uint8Array(
-    salt.length + iv.length + encryptedBuffer.byteLength,
-  );
-  combined.set(salt, 0);
-  combined.set(iv, salt.length);
-  combined.set(new Uint8Array(encryptedBuffer), salt.length + iv.length);
+  // Combine header + encrypted data
+  const combined = new Uint8Array(header.length + encryptedBuffer.byteLength);
+  combined.set(header, 0);
+  combined.set(new Uint8Array(encryptedBuffer), header.length);
 
   // Convert to base64
-  const base64 = btoa(String.fromCharCode(...combined));
+  const base64 = toBase64(combined);
   console.log("Vault encrypted successfully");
 
   return base64;
 }
 
+// Decrypt one candidate layout of a vault
+async function decryptLayout(
+  { info, header, salt, iv, ciphertext }: ParsedEnvelope,
+  masterPassword: string,
+): Promise<Vault> {
+  // Derive the same key from master password
+  const key = await deriveKey(masterPassword, salt, info.kdf);
+
+  // Decrypt; legacy blobs carry no authenticated header
+  const decryptedBuffer = await crypto.subtle.decrypt(
+    info.version === 0
+      ? { name: "AES-GCM", iv: iv }
+      : { name: "AES-GCM", iv: iv, additionalData: header },
+    key,
+    ciphertext,
+  );
+
+  // Convert back to JSON
+  const decoder = new TextDecoder();
+  const vaultJson = decoder.decode(decryptedBuffer);
+  return JSON.parse(vaultJson) as Vault;
+}
+
 /**
- * Decrypt the vault data
+ * Decrypt the vault data. Accepts every known envelope version.
  */
 export async function decryptVault(
   encryptedVault: string,
@@ -97,42 +491,36 @@ export async function decryptVault(
 ): Promise<Vault> {
   console.log("Decrypting vault");
 
+  let layouts: ParsedEnvelope[] = [];
+  let lastError: unknown;
   try {
-    // Decode from base64
-    const combined = Uint8Array.from(atob(encryptedVault), (c) =>
-      c.charCodeAt(0),
-    );
-
-    // Extract salt, iv, and encrypted data
-    const salt = combined.slice(0, 16);
-    const iv = combined.slice(16, 28);
-    const encryptedData = combined.slice(28);
-
-    // Derive the same key from master password
-    const key = await deriveKey(masterPassword, salt);
-
-    // Decrypt
-    const decryptedBuffer = await crypto.subtle.decrypt(
-      { name: "AES-GCM", iv: iv },
-      key,
-      encryptedData,
-    );
-
-    // Convert back to JSON
-    const decoder = new TextDecoder();
-    const vaultJson = decoder.decode(decryptedBuffer);
-    const vault = JSON.parse(vaultJson) as Vault;
-
-    console.log(
-      "Vault decrypted successfully,",
-      vault.entries.length,
-      "entries",
-    );
-    return vault;
+    // Decode from base64; a blob that fails as an envelope is tried again in
+    // the legacy layout
+    layouts = parseLayouts(fromBase64(encryptedVault));
+    for (const layout of layouts) {
+      try {
+        const vault = await decryptLayout(layout, masterPassword);
+        console.log(
+          "Vault decrypted successfully,",
+          vault.entries.length,
+          "entries",
+        );
+        return vault;
+      } catch (error) {
+        lastError = error;
+      }
+    }
   } catch (error) {
-    console.error("Decryption failed:", error);
-    throw new Error("Failed to decrypt vault. Wrong password?");
+    lastError = error;
   }
+
+  console.error("Decryption failed:", lastError);
+  // Out-of-range settings are refused before any work, and aren't a wrong
+  // password
+  const outOfRange = layouts.length
+    ? kdfOutOfRange(layouts[0].info.kdf, "Vault")
+    : null;
+  throw new Error(outOfRange ?? "Failed to decrypt vault. Wrong password?");
 }
 
 /**
@@ -156,4 +544,14 @@ export function generatePassword(length: number = 16): string {
   return password;
 }
 
-export type { Vault, VaultEntry };
+export type {
+  Argon2idParams,
+  Credentials,
+  Folder,
+  KdfParams,
+  Pbkdf2Params,
+  Tombstone,
+  Vault,
+  VaultEntry,
+  VaultEnvelopeInfo,
+};
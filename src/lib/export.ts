@@ -0,0 +1,186 @@
+// Vault export: an encrypted backup in the vault envelope format, plaintext
+// JSON/CSV, and KeePass 2.x XML. Saving goes through the native dialog in
+// the desktop app and a browser download otherwise.
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+import { encryptVault, type KdfParams, type Vault } from "./crypto";
+import { ENTRY_SCHEMAS, ENTRY_TYPES, getEntryUrl, getFieldValue } from "./entries";
+import { stringifyCsv } from "./import/csv";
+
+type ExportFormat = "backup" | "json" | "csv" | "keepass";
+
+interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  contents: string;
+}
+
+// Identifies backup files; `vault` holds an encryptVault envelope
+interface EncryptedBackup {
+  format: "zcloudpass-backup";
+  version: 1;
+  exportedAt: string;
+  vault: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Password-protected backup. The password may differ from the master password.
+ */
+export async function exportEncryptedBackup(
+  vault: Vault,
+  password: string,
+  kdf?: KdfParams,
+): Promise<ExportFile> {
+  const backup: EncryptedBackup = {
+    format: "zcloudpass-backup",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    vault: await encryptVault(vault, password, kdf),
+  };
+  return {
+    fileName: `zcloudpass-backup-${today()}.json`,
+    mimeType: "application/json",
+    contents: JSON.stringify(backup, null, 2),
+  };
+}
+
+/**
+ * Plaintext JSON with entries exactly as stored in the vault
+ */
+export function exportJson(vault: Vault): ExportFile {
+  return {
+    fileName: `zcloudpass-export-${today()}.json`,
+    mimeType: "application/json",
+    contents: JSON.stringify(
+      { exportedAt: new Date().toISOString(), entries: vault.entries },
+      null,
+      2,
+    ),
+  };
+}
+
+// Every schema field key across all entry types, in schema order
+const CSV_FIELD_KEYS = Array.from(
+  new Set(ENTRY_TYPES.flatMap((type) => ENTRY_SCHEMAS[type].fields.map((f) => f.key))),
+);
+
+/**
+ * Plaintext CSV with one column per schema field. Custom fields are
+ * "name: value" lines in a single column, as Bitwarden does.
+ */
+export function exportCsv(vault: Vault): ExportFile {
+  const header = ["type", "name", ...CSV_FIELD_KEYS, "totp", "notes", "fields"];
+  const rows = vault.entries.map((entry) => [
+    entry.type,
+    entry.name,
+    ...CSV_FIELD_KEYS.map((key) => getFieldValue(entry, key) ?? ""),
+    entry.totp ?? "",
+    entry.notes ?? "",
+    (entry.fields ?? []).map((field) => `${field.name}: ${field.value}`).join("\n"),
+  ]);
+
+  return {
+    fileName: `zcloudpass-export-${today()}.csv`,
+    mimeType: "text/csv",
+    contents: stringifyCsv([header, ...rows]),
+  };
+}
+
+// Schema keys that map onto KeePass' standard strings
+const KEEPASS_STANDARD_KEYS: Record<string, string> = {
+  username: "UserName",
+  password: "Password",
+};
+
+const keePassUuid = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+};
+
+/**
+ * KeePass 2.x XML, importable by KeePass and KeePassXC. Fields without a
+ * KeePass equivalent become additional strings; secrets are marked protected.
+ */
+export function exportKeePassXml(vault: Vault): ExportFile {
+  const doc = document.implementation.createDocument(null, "KeePassFile", null);
+  const root = doc.documentElement;
+
+  const append = (parent: Element, tag: string, text?: string) => {
+    const element = doc.createElement(tag);
+    if (text !== undefined) element.textContent = text;
+    parent.appendChild(element);
+    return element;
+  };
+
+  const meta = append(root, "Meta");
+  append(meta, "Generator", "zCloudPass");
+  const group = append(append(root, "Root"), "Group");
+  append(group, "UUID", keePassUuid());
+  append(group, "Name", "zCloudPass");
+
+  for (const entry of vault.entries) {
+    const element = append(group, "Entry");
+    append(element, "UUID", keePassUuid());
+    const used = new Set<string>();
+
+    const addString = (key: string, value: string | undefined, isProtected = false) => {
+      if (!value) return;
+      // KeePass requires unique keys per entry
+      let unique = key;
+      for (let n = 2; used.has(unique); n++) unique = `${key} (${n})`;
+      used.add(unique);
+
+      const string = append(element, "String");
+      append(string, "Key", unique);
+      const valueElement = append(string, "Value", value);
+      if (isProtected) valueElement.setAttribute("ProtectInMemory", "True");
+    };
+
+    addString("Title", entry.name);
+    addString("URL", getEntryUrl(entry));
+    addString("Notes", entry.notes);
+    addString("otp", entry.totp);
+    for (const field of ENTRY_SCHEMAS[entry.type].fields) {
+      // Already written as the standard URL string
+      if (field.key === "url") continue;
+      addString(
+        KEEPASS_STANDARD_KEYS[field.key] ?? field.label,
+        getFieldValue(entry, field.key),
+        field.kind === "secret",
+      );
+    }
+    for (const field of entry.fields ?? []) {
+      addString(field.name || "Field", field.value, field.type === "hidden");
+    }
+  }
+
+  return {
+    fileName: `zcloudpass-keepass-${today()}.xml`,
+    mimeType: "application/xml",
+    contents: `<?xml version="1.0" encoding="utf-8" standalone="yes"?>\n${new XMLSerializer().serializeToString(doc)}`,
+  };
+}
+
+/**
+ * Save an export. Returns false if the user cancelled the save dialog.
+ */
+export async function saveExportFile(file: ExportFile): Promise<boolean> {
+  if (isTauri()) {
+    return invoke<boolean>("save_file", {
+      fileName: file.fileName,
+      contents: file.contents,
+    });
+  }
+
+  const url = URL.createObjectURL(new Blob([file.contents], { type: file.mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+  return true;
+}
+
+export type { EncryptedBackup, ExportFile, ExportFormat };
@@ -0,0 +1,200 @@
+// Folders and tags for organizing entries. Both live inside the encrypted
+// vault: folders as a flat list linked by parentId, tags on each entry.
+
+import type { Folder, Vault } from "./crypto";
+import type { VaultEntry } from "./entries";
+
+interface FolderNode {
+  folder: Folder;
+  children: FolderNode[];
+}
+
+// What the entry list is narrowed to
+type ListFilter =
+  | { kind: "all" }
+  | { kind: "folder"; id: string }
+  | { kind: "tag"; tag: string };
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: "base" });
+
+/**
+ * New folder, optionally nested under `parentId`
+ */
+export function createFolder(name: string, parentId?: string): Folder {
+  return { id: crypto.randomUUID(), name: name.trim(), parentId };
+}
+
+/**
+ * Nest folders under their parents, sorted by name. Folders whose parent
+ * no longer exists (e.g. deleted on another device) become top level.
+ */
+export function buildFolderTree(folders: Folder[]): FolderNode[] {
+  const ids = new Set(folders.map((f) => f.id));
+  const childrenOf = (parentId: string | undefined): FolderNode[] =>
+    folders
+      .filter((f) =>
+        parentId === undefined
+          ? !f.parentId || !ids.has(f.parentId)
+          : f.parentId === parentId,
+      )
+      .sort(byName)
+      .map((folder) => ({ folder, children: childrenOf(folder.id) }));
+  return childrenOf(undefined);
+}
+
+/**
+ * The folder and every folder nested inside it
+ */
+export function getFolderWithDescendants(folders: Folder[], id: string): Set<string> {
+  const result = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const folder of folders) {
+      if (folder.parentId && result.has(folder.parentId) && !result.has(folder.id)) {
+        result.add(folder.id);
+        added = true;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * "Work / Servers" for display, or undefined if the folder is gone
+ */
+export function getFolderPath(folders: Folder[], id: string | undefined): string | undefined {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = folders.find((f) => f.id === id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = folders.find((f) => f.id === current!.parentId);
+  }
+  return names.length > 0 ? names.join(" / ") : undefined;
+}
+
+/**
+ * Folders in tree order with their depth, for pickers
+ */
+export function flattenFolderTree(
+  nodes: FolderNode[],
+  depth = 0,
+): { folder: Folder; depth: number }[] {
+  return nodes.flatMap((node) => [
+    { folder: node.folder, depth },
+    ...flattenFolderTree(node.children, depth + 1),
+  ]);
+}
+
+/**
+ * Remove a folder and its subfolders. Their entries stay in the vault,
+ * unfiled.
+ */
+export function deleteFolder(vault: Vault, id: string, now: number = Date.now()): Vault {
+  const removed = getFolderWithDescendants(vault.folders ?? [], id);
+  return {
+    ...vault,
+    folders: (vault.folders ?? []).filter((f) => !removed.has(f.id)),
+    entries: vault.entries.map((entry) =>
+      entry.folderId && removed.has(entry.folderId)
+        ? { ...entry, folderId: undefined, updatedAt: now }
+        : entry,
+    ),
+  };
+}
+
+/**
+ * Split a comma-separated tag input into trimmed, de-duplicated tags
+ */
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(","));
+}
+
+/**
+ * Trim tags and drop empties and case-insensitive duplicates, keeping the
+ * first spelling
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim();
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    result.push(tag);
+  }
+  return result;
+}
+
+/**
+ * Every tag used in the vault, sorted
+ */
+export function collectTags(entries: VaultEntry[]): string[] {
+  return normalizeTags(entries.flatMap((e) => e.tags ?? [])).sort((a, b) =>
+    a.localeCompare(b, undefined, { sensitivity: "base" }),
+  );
+}
+
+export function hasTag(entry: VaultEntry, tag: string): boolean {
+  return !!entry.tags?.some((t) => t.toLowerCase() === tag.toLowerCase());
+}
+
+/**
+ * Whether an entry is shown under the given filter. Folders include their
+ * subfolders.
+ */
+export function matchesFilter(
+  entry: VaultEntry,
+  filter: ListFilter,
+  folders: Folder[],
+): boolean {
+  if (filter.kind === "all") return true;
+  if (filter.kind === "tag") return hasTag(entry, filter.tag);
+  return (
+    !!entry.folderId &&
+    getFolderWithDescendants(folders, filter.id).has(entry.folderId)
+  );
+}
+
+/**
+ * Move entries into a folder, or out of all folders with undefined
+ */
+export function moveEntries(
+  vault: Vault,
+  ids: Set<string>,
+  folderId: string | undefined,
+  now: number = Date.now(),
+): Vault {
+  return {
+    ...vault,
+    entries: vault.entries.map((entry) =>
+      ids.has(entry.id) && entry.folderId !== folderId
+        ? { ...entry, folderId, updatedAt: now }
+        : entry,
+    ),
+  };
+}
+
+/**
+ * Add a tag to entries that don't have it yet
+ */
+export function tagEntries(
+  vault: Vault,
+  ids: Set<string>,
+  tag: string,
+  now: number = Date.now(),
+): Vault {
+  return {
+    ...vault,
+    entries: vault.entries.map((entry) =>
+      ids.has(entry.id) && !hasTag(entry, tag)
+        ? { ...entry, tags: [...(entry.tags ?? []), tag.trim()], updatedAt: now }
+        : entry,
+    ),
+  };
+}
+
+export type { FolderNode, ListFilter };
@@ -0,0 +1,116 @@
+// Vault health report: weak, reused, old and breached passwords. Runs over
+// the decrypted vault on this device; breach counts are looked up
+// separately (see breach.ts) and passed in.
+
+import type { Vault } from "./crypto";
+import {
+  ENTRY_SCHEMAS,
+  getFieldValue,
+  type VaultEntry,
+} from "./entries";
+import { estimateStrength, type StrengthEstimate } from "./strength";
+
+// One password-like value in one entry
+interface PasswordItem {
+  entry: VaultEntry;
+  field: string;
+  fieldLabel: string;
+  strength: StrengthEstimate;
+  // When the value was set, if the entry records it
+  changedAt?: number;
+  // Times the value appears in known breaches, when it was checked
+  breachCount?: number;
+}
+
+interface HealthOptions {
+  // Passwords unchanged for longer than this are "old"
+  maxAgeMonths?: number;
+  now?: number;
+  // Breach counts by password, from checkBreaches
+  breaches?: Map<string, number>;
+}
+
+interface HealthReport {
+  // 0 to 100: the share of passwords with no issues
+  score: number;
+  total: number;
+  weak: PasswordItem[];
+  // Groups of items sharing the same value
+  reused: PasswordItem[][];
+  old: PasswordItem[];
+  // Most breached first; empty when no breach check ran
+  breached: PasswordItem[];
+}
+
+export const DEFAULT_MAX_AGE_MONTHS = 12;
+
+// Below zxcvbn's "safely unguessable" score
+const WEAK_SCORE = 3;
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Every password-like value in the vault: the fields whose old values go
+ * into the password history
+ */
+export function collectPasswords(vault: Vault): PasswordItem[] {
+  const items: PasswordItem[] = [];
+  for (const entry of vault.entries) {
+    for (const field of ENTRY_SCHEMAS[entry.type].fields) {
+      const value = field.history && getFieldValue(entry, field.key);
+      if (!value) continue;
+      const replaced = entry.passwordHistory?.find((h) => h.field === field.key);
+      items.push({
+        entry,
+        field: field.key,
+        fieldLabel: field.label,
+        strength: estimateStrength(value),
+        changedAt: replaced?.changedAt ?? entry.createdAt,
+      });
+    }
+  }
+  return items;
+}
+
+/**
+ * Analyze the decrypted vault. Items with unknown age are never old.
+ */
+export function analyzeVault(vault: Vault, options: HealthOptions = {}): HealthReport {
+  const { maxAgeMonths = DEFAULT_MAX_AGE_MONTHS, now = Date.now(), breaches } = options;
+  const items = collectPasswords(vault).map((item) => {
+    const breachCount = breaches?.get(getFieldValue(item.entry, item.field)!);
+    return breachCount ? { ...item, breachCount } : item;
+  });
+
+  const weak = items
+    .filter((item) => item.strength.score < WEAK_SCORE)
+    .sort((a, b) => a.strength.entropy - b.strength.entropy);
+
+  const byValue = new Map<string, PasswordItem[]>();
+  for (const item of items) {
+    const value = getFieldValue(item.entry, item.field)!;
+    byValue.set(value, [...(byValue.get(value) ?? []), item]);
+  }
+  const reused = [...byValue.values()]
+    .filter((group) => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+
+  const cutoff = now - maxAgeMonths * MONTH_MS;
+  const old = items
+    .filter((item) => item.changedAt !== undefined && item.changedAt < cutoff)
+    .sort((a, b) => a.changedAt! - b.changedAt!);
+
+  const breached = items
+    .filter((item) => item.breachCount)
+    .sort((a, b) => b.breachCount! - a.breachCount!);
+
+  const flagged = new Set([...weak, ...reused.flat(), ...old, ...breached]);
+  const score =
+    items.length === 0
+      ? 100
+      : Math.round(((items.length - flagged.size) / items.length) * 100);
+
+  return { score, total: items.length, weak, reused, old, breached };
+}
+
+export type { HealthOptions, HealthReport, PasswordItem };
@@ -0,0 +1,228 @@
+// Bitwarden unencrypted JSON and CSV exports
+
+import type { CustomField, VaultEntry } from "../entries";
+import { compactEntry, importedField, newId, parseJson } from "./common";
+import { parseCsvRecords, requireColumns } from "./csv";
+
+interface BitwardenField {
+  name?: string | null;
+  value?: string | null;
+  // 0 text, 1 hidden, 2 boolean, 3 linked
+  type: number;
+}
+
+interface BitwardenItem {
+  type: number;
+  name?: string | null;
+  notes?: string | null;
+  fields?: BitwardenField[] | null;
+  login?: {
+    username?: string | null;
+    password?: string | null;
+    totp?: string | null;
+    uris?: { uri?: string | null }[] | null;
+  } | null;
+  card?: {
+    cardholderName?: string | null;
+    number?: string | null;
+    expMonth?: string | null;
+    expYear?: string | null;
+    code?: string | null;
+    brand?: string | null;
+  } | null;
+  identity?: Record<string, string | null> | null;
+  sshKey?: {
+    privateKey?: string | null;
+    publicKey?: string | null;
+    keyFingerprint?: string | null;
+  } | null;
+}
+
+interface BitwardenExport {
+  encrypted?: boolean;
+  items?: BitwardenItem[];
+}
+
+const ITEM_LOGIN = 1;
+const ITEM_NOTE = 2;
+const ITEM_CARD = 3;
+const ITEM_IDENTITY = 4;
+const ITEM_SSH_KEY = 5;
+
+const FIELD_TYPES: Record<number, CustomField["type"]> = {
+  0: "text",
+  1: "hidden",
+  2: "boolean",
+};
+
+const str = (value: string | null | undefined) => value ?? "";
+
+function convertFields(fields: BitwardenField[] | null | undefined) {
+  return (fields ?? [])
+    .filter((field) => field.type in FIELD_TYPES)
+    .map((field) =>
+      importedField(str(field.name), str(field.value), FIELD_TYPES[field.type]),
+    );
+}
+
+function formatExpiry(month: string, year: string): string {
+  if (!month && !year) return "";
+  if (!month || !year) return month || year;
+  return `${month.padStart(2, "0")}/${year.slice(-2)}`;
+}
+
+function convertItem(item: BitwardenItem): VaultEntry | null {
+  const base = {
+    id: newId(),
+    name: str(item.name) || "Untitled",
+    notes: str(item.notes),
+  };
+  const fields = convertFields(item.fields);
+
+  switch (item.type) {
+    case ITEM_LOGIN: {
+      const login = item.login ?? {};
+      const uris = (login.uris ?? []).map((u) => str(u.uri)).filter(Boolean);
+      // Extra URIs have no home in the entry model
+      uris.slice(1).forEach((uri, index) => {
+        fields.push(importedField(`URL ${index + 2}`, uri));
+      });
+      return compactEntry({
+        ...base,
+        type: "login",
+        url: uris[0],
+        username: str(login.username),
+        password: str(login.password),
+        totp: str(login.totp),
+        fields,
+      });
+    }
+    case ITEM_NOTE:
+      return compactEntry({ ...base, type: "note", fields });
+    case ITEM_CARD: {
+      const card = item.card ?? {};
+      if (card.brand) fields.unshift(importedField("Brand", card.brand));
+      return compactEntry({
+        ...base,
+        type: "card",
+        cardholderName: str(card.cardholderName),
+        number: str(card.number),
+        expiry: formatExpiry(str(card.expMonth), str(card.expYear)),
+        cvv: str(card.code),
+        fields,
+      });
+    }
+    case ITEM_IDENTITY: {
+      const identity = item.identity ?? {};
+      const get = (key: string) => str(identity[key]);
+      const cityLine = [get("city"), get("state"), get("postalCode")]
+        .filter(Boolean)
+        .join(" ");
+      const extras: [string, string, CustomField["type"]][] = [
+        ["Username", get("username"), "text"],
+        ["License Number", get("licenseNumber"), "hidden"],
+        ["SSN", get("ssn"), "hidden"],
+      ];
+      for (const [name, value, type] of extras) {
+        if (value) fields.unshift(importedField(name, value, type));
+      }
+      return compactEntry({
+        ...base,
+        type: "identity",
+        fullName: [get("title"), get("firstName"), get("middleName"), get("lastName")]
+          .filter(Boolean)
+          .join(" "),
+        email: get("email"),
+        phone: get("phone"),
+        address: [
+          get("address1"),
+          get("address2"),
+          get("address3"),
+          cityLine,
+          get("country"),
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        company: get("company"),
+        documentNumber: get("passportNumber"),
+        fields,
+      });
+    }
+    case ITEM_SSH_KEY: {
+      const key = item.sshKey ?? {};
+      if (key.keyFingerprint) {
+        fields.unshift(importedField("Fingerprint", key.keyFingerprint));
+      }
+      return compactEntry({
+        ...base,
+        type: "sshKey",
+        publicKey: str(key.publicKey),
+        privateKey: str(key.privateKey),
+        fields,
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Bitwarden "JSON" export. Password-protected exports can't be read here.
+ */
+export function parseBitwardenJson(text: string): VaultEntry[] {
+  const data = parseJson<BitwardenExport>(text, "Bitwarden JSON");
+  if (data.encrypted) {
+    throw new Error(
+      "Encrypted Bitwarden exports are not supported. Export as unencrypted JSON instead.",
+    );
+  }
+  if (!Array.isArray(data.items)) {
+    throw new Error("This file is not a valid Bitwarden JSON export");
+  }
+  return data.items
+    .map(convertItem)
+    .filter((entry): entry is VaultEntry => entry !== null);
+}
+
+/**
+ * Bitwarden CSV custom fields are "name: value" lines in one cell
+ */
+function parseCsvFields(cell: string): CustomField[] {
+  return cell
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map((line) => {
+      const separator = line.indexOf(": ");
+      return separator >= 0
+        ? importedField(line.slice(0, separator), line.slice(separator + 2))
+        : importedField(line, "");
+    });
+}
+
+/**
+ * Bitwarden CSV export (logins and secure notes only)
+ */
+export function parseBitwardenCsv(text: string): VaultEntry[] {
+  const records = parseCsvRecords(text);
+  requireColumns(records, ["type", "name", "login_username"], "Bitwarden CSV");
+
+  return records.map((record) => {
+    const base = {
+      id: newId(),
+      name: record.name || "Untitled",
+      notes: record.notes,
+      fields: parseCsvFields(record.fields ?? ""),
+    };
+    if (record.type === "note") {
+      return compactEntry({ ...base, type: "note" });
+    }
+    return compactEntry({
+      ...base,
+      type: "login",
+      url: (record.login_uri ?? "").split(",")[0],
+      username: record.login_username,
+      password: record.login_password,
+      totp: record.login_totp,
+    });
+  });
+}
@@ -0,0 +1,47 @@
+// Chrome (and other Chromium browsers) and Firefox password CSV exports
+
+import type { VaultEntry } from "../entries";
+import { compactEntry, newId, nameFromUrl } from "./common";
+import { parseCsvRecords, requireColumns } from "./csv";
+
+/**
+ * Chrome CSV: name,url,username,password,note
+ */
+export function parseChromeCsv(text: string): VaultEntry[] {
+  const records = parseCsvRecords(text);
+  requireColumns(records, ["url", "username", "password"], "Chrome CSV");
+
+  return records.map((record) =>
+    compactEntry({
+      id: newId(),
+      type: "login",
+      name: record.name || nameFromUrl(record.url),
+      url: record.url,
+      username: record.username,
+      password: record.password,
+      notes: record.note,
+    }),
+  );
+}
+
+/**
+ * Firefox CSV: url,username,password,httpRealm,formActionOrigin,guid,...
+ * Firefox exports have no titles, so entries are named after the site.
+ */
+export function parseFirefoxCsv(text: string): VaultEntry[] {
+  const records = parseCsvRecords(text);
+  requireColumns(records, ["url", "username", "password"], "Firefox CSV");
+
+  return records
+    .filter((record) => !record.url.startsWith("chrome://"))
+    .map((record) =>
+      compactEntry({
+        id: newId(),
+        type: "login",
+        name: nameFromUrl(record.url),
+        url: record.url,
+        username: record.username,
+        password: record.password,
+      }),
+    );
+}
@@ -0,0 +1,78 @@
+// Helpers shared by the format-specific importers
+
+import type { CustomField, CustomFieldType, VaultEntry } from "../entries";
+
+/**
+ * Fresh id for an imported entry or field
+ */
+export const newId = (): string => crypto.randomUUID();
+
+/**
+ * Custom field built from an imported name/value pair
+ */
+export function importedField(
+  name: string,
+  value: string,
+  type: CustomFieldType = "text",
+): CustomField {
+  return { id: newId(), name: name.trim(), type, value };
+}
+
+// Fields shown as labels, where stray whitespace is noise. Everything else
+// (passwords, keys, tokens, card numbers) is kept byte for byte.
+const TRIMMED_FIELDS = new Set([
+  "name",
+  "username",
+  "url",
+  "host",
+  "email",
+  "phone",
+  "company",
+  "fullName",
+  "cardholderName",
+  "ssid",
+]);
+
+/**
+ * Drop empty values so imported entries look like ones created in the app.
+ * A name that trims to nothing falls back to the URL's host, as a missing
+ * one does in the importers.
+ */
+export function compactEntry(entry: Record<string, unknown>): VaultEntry {
+  const result: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(entry)) {
+    const value =
+      typeof raw === "string" && TRIMMED_FIELDS.has(key) ? raw.trim() : raw;
+    if (value === undefined || value === null || value === "") continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    result[key] = value;
+  }
+  if (!result.name) {
+    result.name = nameFromUrl(typeof result.url === "string" ? result.url : undefined);
+  }
+  return result as unknown as VaultEntry;
+}
+
+/**
+ * Display name for entries that only come with a URL (e.g. Firefox)
+ */
+export function nameFromUrl(url: string | undefined): string {
+  if (!url) return "Untitled";
+  try {
+    const host = new URL(url.includes("://") ? url : `https://${url}`).hostname;
+    return host.replace(/^www\./, "") || url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Parse JSON, reporting a readable error for the wrong file
+ */
+export function parseJson<T>(text: string, source: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`This file is not a valid ${source} export`);
+  }
+}
@@ -0,0 +1,117 @@
+// RFC 4180 CSV reading and writing for the importers and CSV export
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and newlines, CRLF line endings and a leading BOM.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines come through as a single empty cell
+  return rows.filter((r) => r.some((value) => value !== ""));
+}
+
+/**
+ * CSV rows keyed by their header, with headers lowercased and trimmed
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return rows.map((row) => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = row[index] ?? "";
+    });
+    return record;
+  });
+}
+
+/**
+ * First non-empty value among several possible column names
+ */
+export function pickColumn(
+  record: Record<string, string>,
+  ...names: string[]
+): string {
+  for (const name of names) {
+    const value = record[name];
+    if (value) return value;
+  }
+  return "";
+}
+
+/**
+ * Ensure the file has the columns a format requires
+ */
+export function requireColumns(
+  records: Record<string, string>[],
+  columns: string[],
+  source: string,
+): void {
+  if (records.length === 0) return;
+  const missing = columns.filter((column) => !(column in records[0]));
+  if (missing.length > 0) {
+    throw new Error(
+      `This file is not a ${source} export (missing column: ${missing.join(", ")})`,
+    );
+  }
+}
+
+/**
+ * Serialize rows as CSV, quoting cells that need it
+ */
+export function stringifyCsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) =>
+          /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell,
+        )
+        .join(","),
+    )
+    .join("\r\n");
+}
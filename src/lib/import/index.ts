@@ -0,0 +1,97 @@
+// Importers for other password managers' export files. Each parser turns
+// an export into VaultEntry objects; nothing is saved here.
+
+import { getEntrySubtitle, getEntryUrl, type VaultEntry } from "../entries";
+import { parseBitwardenCsv, parseBitwardenJson } from "./bitwarden";
+import { parseChromeCsv, parseFirefoxCsv } from "./browser";
+import { parseKeePassXml } from "./keepass";
+import { parseLastPassCsv } from "./lastpass";
+import { parse1PasswordCsv, parse1Pux } from "./onepassword";
+
+type ImportFormat =
+  | "bitwarden-json"
+  | "bitwarden-csv"
+  | "1password-1pux"
+  | "1password-csv"
+  | "lastpass-csv"
+  | "keepass-xml"
+  | "chrome-csv"
+  | "firefox-csv";
+
+interface ImportSource {
+  format: ImportFormat;
+  label: string;
+  // File picker filter
+  accept: string;
+}
+
+export const IMPORT_SOURCES: ImportSource[] = [
+  { format: "bitwarden-json", label: "Bitwarden (JSON)", accept: ".json" },
+  { format: "bitwarden-csv", label: "Bitwarden (CSV)", accept: ".csv" },
+  { format: "1password-1pux", label: "1Password (1PUX)", accept: ".1pux" },
+  { format: "1password-csv", label: "1Password (CSV)", accept: ".csv" },
+  { format: "lastpass-csv", label: "LastPass (CSV)", accept: ".csv" },
+  { format: "keepass-xml", label: "KeePass (XML)", accept: ".xml" },
+  { format: "chrome-csv", label: "Chrome / Edge (CSV)", accept: ".csv" },
+  { format: "firefox-csv", label: "Firefox (CSV)", accept: ".csv" },
+];
+
+const TEXT_PARSERS: Record<
+  Exclude<ImportFormat, "1password-1pux">,
+  (text: string) => VaultEntry[]
+> = {
+  "bitwarden-json": parseBitwardenJson,
+  "bitwarden-csv": parseBitwardenCsv,
+  "1password-csv": parse1PasswordCsv,
+  "lastpass-csv": parseLastPassCsv,
+  "keepass-xml": parseKeePassXml,
+  "chrome-csv": parseChromeCsv,
+  "firefox-csv": parseFirefoxCsv,
+};
+
+/**
+ * Parse an export file's contents into vault entries with fresh ids
+ */
+export function parseImport(format: ImportFormat, data: Uint8Array): VaultEntry[] {
+  const entries =
+    format === "1password-1pux"
+      ? parse1Pux(data)
+      : TEXT_PARSERS[format](new TextDecoder().decode(data));
+
+  if (entries.length === 0) {
+    throw new Error("No entries found in this file");
+  }
+  return entries;
+}
+
+const normalizeUrl = (url: string | undefined) =>
+  (url ?? "")
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/+$/, "");
+
+// Same type, name, account and site; passwords are deliberately ignored so
+// an outdated copy of an existing login is still flagged
+const fingerprint = (entry: VaultEntry) =>
+  [
+    entry.type,
+    entry.name.trim().toLowerCase(),
+    getEntrySubtitle(entry).trim().toLowerCase(),
+    normalizeUrl(getEntryUrl(entry)),
+  ].join("\u0000");
+
+/**
+ * Ids of incoming entries that look like ones already in the vault
+ */
+export function findDuplicates(
+  existing: VaultEntry[],
+  incoming: VaultEntry[],
+): Set<string> {
+  const known = new Set(existing.map(fingerprint));
+  return new Set(
+    incoming.filter((entry) => known.has(fingerprint(entry))).map((entry) => entry.id),
+  );
+}
+
+export type { ImportFormat, ImportSource };
@@ -0,0 +1,83 @@
+// KeePass 2.x XML export (also produced by KeePassXC)
+
+import type { CustomField, VaultEntry } from "../entries";
+import { compactEntry, importedField, newId, nameFromUrl } from "./common";
+
+const STANDARD_KEYS = new Set(["Title", "UserName", "Password", "URL", "Notes", "otp"]);
+
+/**
+ * Direct children with a tag name; `getElementsByTagName` would also reach
+ * into nested groups and entry history
+ */
+const childElements = (parent: Element, tag: string): Element[] =>
+  Array.from(parent.children).filter((child) => child.tagName === tag);
+
+const childText = (parent: Element, tag: string): string =>
+  childElements(parent, tag)[0]?.textContent ?? "";
+
+function convertEntry(element: Element): VaultEntry {
+  const strings: Record<string, string> = {};
+  const fields: CustomField[] = [];
+
+  for (const item of childElements(element, "String")) {
+    const key = childText(item, "Key");
+    const valueElement = childElements(item, "Value")[0];
+    const value = valueElement?.textContent ?? "";
+
+    if (STANDARD_KEYS.has(key)) {
+      strings[key] = value;
+    } else if (value) {
+      const isProtected =
+        valueElement?.getAttribute("ProtectInMemory") === "True" ||
+        valueElement?.getAttribute("Protected") === "True";
+      fields.push(importedField(key, value, isProtected ? "hidden" : "text"));
+    }
+  }
+
+  return compactEntry({
+    id: newId(),
+    type: "login",
+    name: strings.Title || nameFromUrl(strings.URL),
+    url: strings.URL,
+    username: strings.UserName,
+    password: strings.Password,
+    totp: strings.otp,
+    notes: strings.Notes,
+    fields,
+  });
+}
+
+function collectEntries(group: Element, recycleBin: string, out: VaultEntry[]) {
+  if (recycleBin && childText(group, "UUID") === recycleBin) return;
+
+  for (const entry of childElements(group, "Entry")) {
+    out.push(convertEntry(entry));
+  }
+  for (const child of childElements(group, "Group")) {
+    collectEntries(child, recycleBin, out);
+  }
+}
+
+/**
+ * KeePass XML export. Entries in the recycle bin and entry history are skipped.
+ */
+export function parseKeePassXml(text: string): VaultEntry[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName("parsererror").length > 0 || root.tagName !== "KeePassFile") {
+    throw new Error("This file is not a valid KeePass XML export");
+  }
+
+  const meta = childElements(root, "Meta")[0];
+  const recycleBin =
+    meta && childText(meta, "RecycleBinEnabled") !== "False"
+      ? childText(meta, "RecycleBinUUID")
+      : "";
+
+  const entries: VaultEntry[] = [];
+  const rootElement = childElements(root, "Root")[0];
+  for (const group of rootElement ? childElements(rootElement, "Group") : []) {
+    collectEntries(group, recycleBin, entries);
+  }
+  return entries;
+}
@@ -0,0 +1,175 @@
+// LastPass CSV export
+
+import type { CustomField, VaultEntry } from "../entries";
+import { compactEntry, importedField, newId, nameFromUrl } from "./common";
+import { parseCsvRecords, requireColumns } from "./csv";
+
+// LastPass marks secure notes with this placeholder URL
+const SECURE_NOTE_URL = "http://sn";
+
+// Structured note types whose "Key:Value" lines map onto our entry types
+const NOTE_TYPE_FIELDS: Record<string, { type: string; fields: Record<string, string> }> = {
+  "Credit Card": {
+    type: "card",
+    fields: {
+      "Name on Card": "cardholderName",
+      Number: "number",
+      "Security Code": "cvv",
+      "Expiration Date": "expiry",
+    },
+  },
+  "SSH Key": {
+    type: "sshKey",
+    fields: {
+      Hostname: "host",
+      Passphrase: "passphrase",
+      "Private Key": "privateKey",
+      "Public Key": "publicKey",
+    },
+  },
+  "Wi-Fi Password": {
+    type: "wifi",
+    fields: {
+      SSID: "ssid",
+      Password: "password",
+      "Connection Type": "security",
+    },
+  },
+};
+
+// Template fields of those note types we have no place for, plus note types
+// with multi-line fields that stay plain notes. Values can span lines (private
+// keys, addresses), so only these keys start a new field; note types not
+// listed here fall back to any "Key:" line.
+const NOTE_TYPE_KEYS: Record<string, string[]> = {
+  "Credit Card": ["Type", "Start Date"],
+  "SSH Key": ["Bit Strength", "Format", "Date"],
+  "Wi-Fi Password": [
+    "Connection Mode",
+    "Authentication",
+    "Encryption",
+    "Use 802.1X",
+    "FIPS Mode",
+    "Key Type",
+    "Protected",
+    "Key Index",
+  ],
+  Address: [
+    "Title",
+    "First Name",
+    "Middle Name",
+    "Last Name",
+    "Username",
+    "Gender",
+    "Birthday",
+    "Company",
+    "Address 1",
+    "Address 2",
+    "Address 3",
+    "City / Town",
+    "County",
+    "State",
+    "Zip / Postal Code",
+    "Country",
+    "Timezone",
+    "Email Address",
+    "Phone",
+    "Evening Phone",
+    "Mobile Phone",
+    "Fax",
+  ],
+};
+
+const HIDDEN_NOTE_FIELDS = new Set(["Password", "PIN", "Passphrase", "Private Key"]);
+
+/**
+ * Structured secure note: "NoteType:..." then "Key:Value" lines, where a
+ * value runs on until the next known key. The free-text "Notes:" value is
+ * always last.
+ */
+function convertStructuredNote(name: string, extra: string): VaultEntry {
+  const lines = extra.split(/\r?\n/);
+  const noteType = lines[0].slice("NoteType:".length).trim();
+  const mapping = NOTE_TYPE_FIELDS[noteType];
+  const knownKeys =
+    mapping || NOTE_TYPE_KEYS[noteType]
+      ? new Set([
+          ...Object.keys(mapping?.fields ?? {}),
+          ...(NOTE_TYPE_KEYS[noteType] ?? []),
+        ])
+      : null;
+  const isKey = (key: string) =>
+    key === "Notes" || key === "Language" || !knownKeys || knownKeys.has(key);
+
+  // Group continuation lines with the key they belong to
+  const pairs: [string, string][] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const separator = lines[i].indexOf(":");
+    const key = separator < 0 ? "" : lines[i].slice(0, separator);
+    if (key && isKey(key)) {
+      const value = lines[i].slice(separator + 1);
+      if (key === "Notes") {
+        pairs.push([key, [value, ...lines.slice(i + 1)].join("\n")]);
+        break;
+      }
+      pairs.push([key, value]);
+    } else if (pairs.length) {
+      pairs[pairs.length - 1][1] += `\n${lines[i]}`;
+    }
+  }
+
+  const values: Record<string, string> = {};
+  const fields: CustomField[] = [];
+  let notes = "";
+
+  for (const [key, value] of pairs) {
+    const target = mapping?.fields[key];
+    if (key === "Notes") {
+      notes = value;
+    } else if (target) {
+      values[target] = value;
+    } else if (key !== "Language" && value) {
+      fields.push(
+        importedField(key, value, HIDDEN_NOTE_FIELDS.has(key) ? "hidden" : "text"),
+      );
+    }
+  }
+
+  return compactEntry({
+    id: newId(),
+    type: mapping?.type ?? "note",
+    name,
+    ...values,
+    notes,
+    fields,
+  });
+}
+
+/**
+ * LastPass CSV export
+ */
+export function parseLastPassCsv(text: string): VaultEntry[] {
+  const records = parseCsvRecords(text);
+  requireColumns(records, ["url", "username", "password", "extra", "name"], "LastPass CSV");
+
+  return records.map((record) => {
+    const name = record.name || nameFromUrl(record.url);
+
+    if (record.url === SECURE_NOTE_URL) {
+      return record.extra.startsWith("NoteType:")
+        ? convertStructuredNote(name, record.extra)
+        : compactEntry({ id: newId(), type: "note", name, notes: record.extra });
+    }
+
+    return compactEntry({
+      id: newId(),
+      type: "login",
+      name,
+      url: record.url,
+      username: record.username,
+      password: record.password,
+      totp: record.totp,
+      notes: record.extra,
+    });
+  });
+}
@@ -0,0 +1,249 @@
+// 1Password 1PUX archives and CSV exports
+
+import { strFromU8, unzipSync } from "fflate";
+import type { CustomField, EntryType, VaultEntry } from "../entries";
+import { compactEntry, importedField, newId, nameFromUrl, parseJson } from "./common";
+import { parseCsvRecords, pickColumn } from "./csv";
+
+// A 1PUX field value is an object with a single key naming its kind,
+// e.g. { concealed: "..." } or { monthYear: 202512 }
+type OnePuxValue = Record<string, unknown>;
+
+interface OnePuxField {
+  title?: string;
+  id?: string;
+  value?: OnePuxValue;
+}
+
+interface OnePuxItem {
+  categoryUuid?: string;
+  overview?: {
+    title?: string;
+    url?: string;
+  };
+  details?: {
+    loginFields?: { designation?: string; value?: string }[];
+    notesPlain?: string;
+    password?: string;
+    sections?: { fields?: OnePuxField[] }[];
+  };
+}
+
+interface OnePuxExport {
+  accounts?: { vaults?: { items?: OnePuxItem[] }[] }[];
+}
+
+interface SectionField {
+  id: string;
+  title: string;
+  text: string;
+  kind: string;
+}
+
+const CATEGORY_TYPES: Record<string, EntryType> = {
+  "001": "login",
+  "002": "card",
+  "003": "note",
+  "004": "identity",
+  "005": "login",
+  "109": "wifi",
+  "112": "apiToken",
+  "114": "sshKey",
+};
+
+const HIDDEN_KINDS = new Set(["concealed", "creditCardNumber", "sshKey"]);
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+/**
+ * Plain text for a 1PUX field value
+ */
+function valueText(value: OnePuxValue | undefined): { kind: string; text: string } {
+  const [kind, raw] = Object.entries(value ?? {})[0] ?? ["string", ""];
+
+  if (raw === null || raw === undefined) return { kind, text: "" };
+  if (kind === "monthYear" && typeof raw === "number") {
+    // 202512 -> 12/25
+    return { kind, text: `${pad(raw % 100)}/${pad(Math.floor(raw / 100) % 100)}` };
+  }
+  if (kind === "date" && typeof raw === "number") {
+    return { kind, text: new Date(raw * 1000).toISOString().slice(0, 10) };
+  }
+  if (kind === "email" && typeof raw === "object") {
+    return { kind, text: String((raw as { email_address?: string }).email_address ?? "") };
+  }
+  if (kind === "address" && typeof raw === "object") {
+    const a = raw as Record<string, string | undefined>;
+    const cityLine = [a.city, a.state, a.zip].filter(Boolean).join(" ");
+    return { kind, text: [a.street, cityLine, a.country].filter(Boolean).join("\n") };
+  }
+  if (kind === "sshKey" && typeof raw === "object") {
+    return { kind, text: String((raw as { privateKey?: string }).privateKey ?? "") };
+  }
+  if (typeof raw === "object") return { kind, text: "" };
+  return { kind, text: String(raw) };
+}
+
+function convertItem(item: OnePuxItem): VaultEntry {
+  const details = item.details ?? {};
+  const type = CATEGORY_TYPES[item.categoryUuid ?? ""] ?? "note";
+
+  const sectionFields: SectionField[] = [];
+  let publicKey = "";
+  for (const section of details.sections ?? []) {
+    for (const field of section.fields ?? []) {
+      const { kind, text } = valueText(field.value);
+      if (kind === "sshKey") {
+        const metadata = (field.value?.sshKey as { metadata?: { publicKey?: string } })
+          ?.metadata;
+        publicKey = metadata?.publicKey ?? "";
+      }
+      sectionFields.push({ id: field.id ?? "", title: field.title ?? "", text, kind });
+    }
+  }
+
+  // Pull well-known fields out; whatever is left becomes custom fields
+  const take = (...ids: string[]): string => {
+    const index = sectionFields.findIndex((f) => ids.includes(f.id) && f.text);
+    if (index < 0) return "";
+    return sectionFields.splice(index, 1)[0].text;
+  };
+  const takeKind = (kind: string): string => {
+    const index = sectionFields.findIndex((f) => f.kind === kind && f.text);
+    if (index < 0) return "";
+    return sectionFields.splice(index, 1)[0].text;
+  };
+
+  const base = {
+    id: newId(),
+    name: item.overview?.title || nameFromUrl(item.overview?.url),
+    notes: details.notesPlain,
+  };
+  let typed: Record<string, unknown>;
+
+  switch (type) {
+    case "login": {
+      const loginField = (designation: string) =>
+        details.loginFields?.find((f) => f.designation === designation)?.value ?? "";
+      typed = {
+        type,
+        url: item.overview?.url,
+        username: loginField("username"),
+        password: loginField("password") || details.password,
+      };
+      break;
+    }
+    case "card":
+      typed = {
+        type,
+        cardholderName: take("cardholder"),
+        number: take("ccnum"),
+        expiry: take("expiry"),
+        cvv: take("cvv"),
+        pin: take("pin"),
+      };
+      break;
+    case "identity":
+      typed = {
+        type,
+        fullName: [take("firstname"), take("initial"), take("lastname")]
+          .filter(Boolean)
+          .join(" "),
+        email: take("email"),
+        phone: take("defphone", "cellphone", "homephone", "busphone"),
+        address: take("address"),
+        company: take("company"),
+        birthDate: take("birthdate"),
+      };
+      break;
+    case "wifi":
+      typed = {
+        type,
+        ssid: take("network_name"),
+        password: take("wireless_password", "password"),
+        security: take("wireless_security"),
+      };
+      break;
+    case "apiToken":
+      typed = {
+        type,
+        url: take("hostname"),
+        keyId: take("username"),
+        token: take("credential"),
+        expiresOn: take("expires"),
+      };
+      break;
+    case "sshKey":
+      typed = { type, privateKey: take("private_key"), publicKey };
+      break;
+    default:
+      typed = { type };
+  }
+
+  const totp = takeKind("totp");
+  const fields: CustomField[] = sectionFields
+    .filter((f) => f.text)
+    .map((f) =>
+      importedField(
+        f.title || f.id || "Field",
+        f.text,
+        HIDDEN_KINDS.has(f.kind) ? "hidden" : "text",
+      ),
+    );
+
+  return compactEntry({ ...base, ...typed, totp, fields });
+}
+
+/**
+ * 1Password 1PUX export: a zip archive holding `export.data` JSON
+ */
+export function parse1Pux(data: Uint8Array): VaultEntry[] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, { filter: (file) => file.name === "export.data" });
+  } catch {
+    throw new Error("This file is not a valid 1Password 1PUX export");
+  }
+  if (!files["export.data"]) {
+    throw new Error("This 1PUX archive has no export.data");
+  }
+
+  const exported = parseJson<OnePuxExport>(strFromU8(files["export.data"]), "1Password 1PUX");
+  return (exported.accounts ?? []).flatMap((account) =>
+    (account.vaults ?? []).flatMap((vault) => (vault.items ?? []).map(convertItem)),
+  );
+}
+
+/**
+ * 1Password CSV export. Column names differ between app versions.
+ */
+export function parse1PasswordCsv(text: string): VaultEntry[] {
+  const records = parseCsvRecords(text);
+  if (records.length > 0 && !("title" in records[0])) {
+    throw new Error("This file is not a 1Password CSV export (missing column: title)");
+  }
+
+  return records.map((record) => {
+    const url = pickColumn(record, "url", "urls", "website");
+    const username = pickColumn(record, "username");
+    const password = pickColumn(record, "password");
+    const notes = pickColumn(record, "notes", "notesplain");
+    const base = {
+      id: newId(),
+      name: record.title || nameFromUrl(url),
+      notes,
+    };
+
+    if (!url && !username && !password) {
+      return compactEntry({ ...base, type: "note" });
+    }
+    return compactEntry({
+      ...base,
+      type: "login",
+      url,
+      username,
+      password,
+      totp: pickColumn(record, "otpauth", "one-time password"),
+    });
+  });
+}
@@ -0,0 +1,241 @@
+// Entry-level merge of vaults edited on different devices. Entries are
+// matched by id; `updatedAt` and deletion tombstones decide which side
+// changed. When the server copy both sides started from is known, it is
+// used as the common ancestor for a three-way comparison.
+
+import type { Folder, Tombstone, Vault } from "./crypto";
+import type { VaultEntry } from "./entries";
+
+type ConflictChoice = "local" | "remote" | "both";
+
+// An entry both sides changed in different ways. A null side deleted it.
+interface EntryConflict {
+  id: string;
+  local: VaultEntry | null;
+  remote: VaultEntry | null;
+}
+
+interface MergeResult {
+  // Conflicting entries hold the local version until resolved
+  vault: Vault;
+  conflicts: EntryConflict[];
+}
+
+// Long enough for any device to sync in between; older tombstones are
+// dropped so deleted ids don't accumulate forever
+const TOMBSTONE_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+
+// Copying a value isn't an edit, so usage alone never makes a side "changed"
+const withoutUsage = (entry: VaultEntry | undefined) => {
+  if (!entry) return entry;
+  const { lastUsedAt: _lastUsedAt, ...rest } = entry;
+  return rest;
+};
+
+const sameEntry = (a: VaultEntry | undefined, b: VaultEntry | undefined) =>
+  JSON.stringify(withoutUsage(a)) === JSON.stringify(withoutUsage(b));
+
+const lastUsed = (...entries: (VaultEntry | undefined)[]) => {
+  const times = entries.map((e) => e?.lastUsedAt ?? 0);
+  return Math.max(...times) || undefined;
+};
+
+const modifiedAt = (entry: VaultEntry) => entry.updatedAt ?? 0;
+
+type EntryOutcome = { entry?: VaultEntry; conflict?: boolean };
+
+// `kept` exists on one side only; the other side deleted it at `deletedAt`,
+// or (with a base) dropped it without leaving a tombstone
+function mergeDeletion(
+  base: VaultEntry | undefined,
+  kept: VaultEntry,
+  deletedAt: number | undefined,
+): EntryOutcome {
+  if (base) {
+    return sameEntry(kept, base) ? {} : { entry: kept, conflict: true };
+  }
+  if (deletedAt === undefined) return { entry: kept };
+  // Edited after the other device deleted it
+  return modifiedAt(kept) > deletedAt ? { entry: kept, conflict: true } : {};
+}
+
+function mergeEntry(
+  base: VaultEntry | undefined,
+  local: VaultEntry | undefined,
+  remote: VaultEntry | undefined,
+  localDeletedAt: number | undefined,
+  remoteDeletedAt: number | undefined,
+): EntryOutcome {
+  if (local && remote) {
+    if (sameEntry(local, remote)) return { entry: local };
+    if (base) {
+      if (sameEntry(local, base)) return { entry: remote };
+      if (sameEntry(remote, base)) return { entry: local };
+      return { entry: local, conflict: true };
+    }
+    if (modifiedAt(local) !== modifiedAt(remote)) {
+      return { entry: modifiedAt(local) > modifiedAt(remote) ? local : remote };
+    }
+    return { entry: local, conflict: true };
+  }
+  if (local) return mergeDeletion(base, local, remoteDeletedAt);
+  if (remote) {
+    const outcome = mergeDeletion(base, remote, localDeletedAt);
+    // Until resolved, a conflict keeps the local side: deleted
+    return outcome.conflict ? { conflict: true } : outcome;
+  }
+  return {};
+}
+
+function mergeTombstones(
+  local: Tombstone[],
+  remote: Tombstone[],
+  entries: VaultEntry[],
+  now: number,
+): Tombstone[] {
+  const live = new Set(entries.map((e) => e.id));
+  const byId = new Map<string, Tombstone>();
+  for (const tombstone of [...local, ...remote]) {
+    if (live.has(tombstone.id) || now - tombstone.deletedAt > TOMBSTONE_TTL_MS) {
+      continue;
+    }
+    const existing = byId.get(tombstone.id);
+    if (!existing || existing.deletedAt < tombstone.deletedAt) {
+      byId.set(tombstone.id, tombstone);
+    }
+  }
+  return [...byId.values()];
+}
+
+const sameFolder = (a: Folder | undefined, b: Folder | undefined) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Folders merge like entries but never conflict: an edit beats a deletion
+// and local renames beat remote ones. Without a base, folders are unioned.
+function mergeFolders(
+  local: Folder[],
+  remote: Folder[],
+  base: Folder[] | undefined,
+): Folder[] {
+  const localById = new Map(local.map((f) => [f.id, f]));
+  const remoteById = new Map(remote.map((f) => [f.id, f]));
+  const baseById = new Map(base?.map((f) => [f.id, f]));
+  const ids = [
+    ...remote.map((f) => f.id),
+    ...local.map((f) => f.id).filter((id) => !remoteById.has(id)),
+  ];
+
+  const folders: Folder[] = [];
+  for (const id of ids) {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    const b = baseById.get(id);
+    if (l && r) {
+      folders.push(b && sameFolder(l, b) ? r : l);
+      continue;
+    }
+    // Added on one side, or changed there after the other deleted it
+    const kept = (l ?? r)!;
+    if (!b || !sameFolder(kept, b)) folders.push(kept);
+  }
+  return folders;
+}
+
+/**
+ * Merge local and remote vaults. Changes made on only one side are applied
+ * automatically; entries both sides changed are returned as conflicts.
+ */
+export function mergeVaults(
+  local: Vault,
+  remote: Vault,
+  base?: Vault | null,
+  now: number = Date.now(),
+): MergeResult {
+  const localById = new Map(local.entries.map((e) => [e.id, e]));
+  const remoteById = new Map(remote.entries.map((e) => [e.id, e]));
+  const baseById = new Map(base?.entries.map((e) => [e.id, e]));
+  const deletedAt = (tombstones: Tombstone[] | undefined, id: string) =>
+    tombstones?.find((t) => t.id === id)?.deletedAt;
+
+  // Keep the remote order and append entries only this device has
+  const ids = [
+    ...remote.entries.map((e) => e.id),
+    ...local.entries.map((e) => e.id).filter((id) => !remoteById.has(id)),
+  ];
+
+  const entries: VaultEntry[] = [];
+  const conflicts: EntryConflict[] = [];
+  for (const id of ids) {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    const outcome = mergeEntry(
+      baseById.get(id),
+      l,
+      r,
+      deletedAt(local.tombstones, id),
+      deletedAt(remote.tombstones, id),
+    );
+    if (outcome.entry) {
+      const lastUsedAt = lastUsed(l, r);
+      entries.push(lastUsedAt ? { ...outcome.entry, lastUsedAt } : outcome.entry);
+    }
+    if (outcome.conflict) {
+      conflicts.push({ id, local: l ?? null, remote: r ?? null });
+    }
+  }
+
+  const tombstones = mergeTombstones(
+    local.tombstones ?? [],
+    remote.tombstones ?? [],
+    entries,
+    now,
+  );
+  const folders = mergeFolders(local.folders ?? [], remote.folders ?? [], base?.folders);
+  return {
+    vault: { ...remote, ...local, entries, tombstones, folders },
+    conflicts,
+  };
+}
+
+/**
+ * Apply the user's choice for each conflict to a merged vault. "both" keeps
+ * the remote entry and adds the local one as a copy.
+ */
+export function applyConflictChoices(
+  vault: Vault,
+  conflicts: EntryConflict[],
+  choices: Record<string, ConflictChoice>,
+  now: number = Date.now(),
+): Vault {
+  let entries = [...vault.entries];
+  let tombstones = [...(vault.tombstones ?? [])];
+
+  for (const conflict of conflicts) {
+    const choice = choices[conflict.id] ?? "local";
+    const kept =
+      choice === "local"
+        ? [conflict.local]
+        : choice === "remote"
+          ? [conflict.remote]
+          : [
+              conflict.remote,
+              conflict.local && conflict.remote
+                ? { ...conflict.local, id: crypto.randomUUID() }
+                : conflict.local,
+            ];
+    const replacement = kept.filter((e): e is VaultEntry => e !== null);
+
+    const index = entries.findIndex((e) => e.id === conflict.id);
+    entries = entries.filter((e) => e.id !== conflict.id);
+    entries.splice(index === -1 ? entries.length : index, 0, ...replacement);
+
+    tombstones = tombstones.filter((t) => t.id !== conflict.id);
+    if (!replacement.some((e) => e.id === conflict.id)) {
+      tombstones.push({ id: conflict.id, deletedAt: now });
+    }
+  }
+
+  return { ...vault, entries, tombstones };
+}
+
+export type { ConflictChoice, EntryConflict, MergeResult };
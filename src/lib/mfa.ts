@@ -0,0 +1,58 @@
+// Helpers for two-factor authentication: reading typed codes, the QR code
+// shown while enrolling an authenticator app, and the recovery codes file.
+
+import { toString as renderQrCode } from "qrcode";
+import type { MfaFactor } from "./api";
+import type { ExportFile } from "./export";
+
+const TOTP_CODE = /^\d{6,8}$/;
+
+/**
+ * The factor for a typed code, or null if it can't be one. Authenticator
+ * codes are digits and are often shown in groups; recovery codes are sent
+ * as typed, minus whitespace.
+ */
+export function parseMfaCode(
+  input: string,
+  recovery = false,
+): MfaFactor | null {
+  if (recovery) {
+    const code = input.replace(/\s/g, "");
+    return code ? { recovery_code: code } : null;
+  }
+  const code = input.replace(/[\s-]/g, "");
+  return TOTP_CODE.test(code) ? { code } : null;
+}
+
+/**
+ * SVG data URL of the QR code for an otpauth:// URL
+ */
+export async function otpauthQrCode(otpauthUrl: string): Promise<string> {
+  const svg = await renderQrCode(otpauthUrl, { type: "svg", margin: 1 });
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * The secret from an otpauth:// URL, grouped in fours for typing by hand
+ */
+export function formatTotpSecret(secret: string): string {
+  return secret.replace(/\s/g, "").match(/.{1,4}/g)?.join(" ") ?? "";
+}
+
+export function recoveryCodesFile(codes: string[], email: string | null): ExportFile {
+  const lines = [
+    "zCloudPass recovery codes",
+    ...(email ? [`Account: ${email}`] : []),
+    `Created: ${new Date().toISOString().slice(0, 10)}`,
+    "",
+    "Each code signs you in once if you lose your authenticator app.",
+    "",
+    ...codes,
+    "",
+  ];
+  return {
+    fileName: "zcloudpass-recovery-codes.txt",
+    mimeType: "text/plain",
+    contents: lines.join("\n"),
+  };
+}
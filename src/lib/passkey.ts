@@ -0,0 +1,259 @@
+// Passkey unlock. A WebAuthn credential with the PRF extension hands back a
+// secret that only its authenticator can reproduce, after a fingerprint,
+// face or PIN check. That secret encrypts a copy of the vault key kept on
+// this device, so the vault opens without typing the master password. The
+// master password always works, and is needed to add a passkey.
+//
+// The vault key comes from the master password, so changing the password
+// leaves these copies useless; they are removed then (see Settings).
+
+interface PasskeyRecord {
+  // Credential id, base64url
+  id: string;
+  email: string;
+  name: string;
+  createdAt: number;
+  // PRF input for this credential, base64url
+  salt: string;
+  // AES-GCM nonce and encrypted vault key, base64url
+  iv: string;
+  wrappedKey: string;
+}
+
+const STORAGE_KEY = "vault_passkeys";
+
+// HKDF label for the key that wraps the vault key
+const WRAP_INFO = "zcloudpass passkey unlock v1";
+
+const UNSUPPORTED_MESSAGE =
+  "This authenticator can't unlock the vault. Try a different passkey provider or security key.";
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) =>
+    c.charCodeAt(0),
+  );
+
+const randomBytes = (length: number) =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Whether this browser or webview can talk to authenticators at all. Whether
+ * one supports PRF only shows when adding it.
+ */
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "PublicKeyCredential" in window &&
+    !!navigator.credentials
+  );
+}
+
+function loadRecords(): PasskeyRecord[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveRecords(records: PasskeyRecord[]): void {
+  if (records.length) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+/**
+ * Passkeys set up on this device for an account
+ */
+export function listPasskeys(email: string): PasskeyRecord[] {
+  return loadRecords().filter((record) => record.email === email);
+}
+
+export function removePasskey(id: string): void {
+  saveRecords(loadRecords().filter((record) => record.id !== id));
+}
+
+export function clearPasskeys(email: string): void {
+  saveRecords(loadRecords().filter((record) => record.email !== email));
+}
+
+async function wrappingKey(secret: BufferSource): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(WRAP_INFO),
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// The user dismissing the prompt and a timeout both surface as NotAllowedError
+function describeWebAuthnError(err: unknown, cancelled: string): Error {
+  if (err instanceof DOMException && err.name === "NotAllowedError") {
+    return new Error(cancelled);
+  }
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+/**
+ * Ask the authenticator for the PRF secret of one of the given credentials.
+ * The challenge isn't checked by anyone: what proves the user is the
+ * secret, which nothing but the authenticator can produce.
+ */
+async function evaluatePrf(
+  records: Pick<PasskeyRecord, "id" | "salt">[],
+): Promise<{ id: string; secret: BufferSource }> {
+  let credential: PublicKeyCredential | null;
+  try {
+    credential = (await navigator.credentials.get({
+      publicKey: {
+        challenge: randomBytes(32),
+        allowCredentials: records.map((record) => ({
+          type: "public-key",
+          id: fromBase64Url(record.id),
+        })),
+        userVerification: "required",
+        extensions: {
+          prf: {
+            evalByCredential: Object.fromEntries(
+              records.map((record) => [
+                record.id,
+                { first: fromBase64Url(record.salt) },
+              ]),
+            ),
+          },
+        },
+      },
+    })) as PublicKeyCredential | null;
+  } catch (err) {
+    throw describeWebAuthnError(err, "Passkey unlock was cancelled");
+  }
+  if (!credential) {
+    throw new Error("Passkey unlock was cancelled");
+  }
+
+  const secret = credential.getClientExtensionResults().prf?.results?.first;
+  if (!secret) {
+    throw new Error(UNSUPPORTED_MESSAGE);
+  }
+  return { id: toBase64Url(new Uint8Array(credential.rawId)), secret };
+}
+
+/**
+ * Create a passkey and keep the vault key wrapped by its PRF secret. Fails
+ * if the authenticator doesn't support PRF.
+ */
+export async function enrollPasskey(
+  email: string,
+  vaultKey: string,
+  name: string,
+): Promise<PasskeyRecord> {
+  const salt = toBase64Url(randomBytes(32));
+  const existing = listPasskeys(email);
+
+  let credential: PublicKeyCredential | null;
+  try {
+    credential = (await navigator.credentials.create({
+      publicKey: {
+        // The relying party id defaults to this page's host
+        rp: { name: "zCloudPass" },
+        user: { id: randomBytes(16), name: email, displayName: email },
+        challenge: randomBytes(32),
+        pubKeyCredParams: [
+          { type: "public-key", alg: -7 },
+          { type: "public-key", alg: -257 },
+        ],
+        authenticatorSelection: {
+          residentKey: "preferred",
+          userVerification: "required",
+        },
+        excludeCredentials: existing.map((record) => ({
+          type: "public-key",
+          id: fromBase64Url(record.id),
+        })),
+        extensions: { prf: { eval: { first: fromBase64Url(salt) } } },
+      },
+    })) as PublicKeyCredential | null;
+  } catch (err) {
+    throw describeWebAuthnError(err, "Passkey setup was cancelled");
+  }
+  if (!credential) {
+    throw new Error("Passkey setup was cancelled");
+  }
+
+  const id = toBase64Url(new Uint8Array(credential.rawId));
+  const prf = credential.getClientExtensionResults().prf;
+  if (!prf?.enabled && !prf?.results?.first) {
+    throw new Error(UNSUPPORTED_MESSAGE);
+  }
+  // Most authenticators only evaluate the PRF when signing in, which means
+  // a second prompt
+  const secret = prf.results?.first ?? (await evaluatePrf([{ id, salt }])).secret;
+
+  const iv = randomBytes(12);
+  const wrappedKey = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await wrappingKey(secret),
+    new TextEncoder().encode(vaultKey),
+  );
+
+  const record: PasskeyRecord = {
+    id,
+    email,
+    name: name.trim() || "Passkey",
+    createdAt: Date.now(),
+    salt,
+    iv: toBase64Url(iv),
+    wrappedKey: toBase64Url(new Uint8Array(wrappedKey)),
+  };
+  saveRecords([...loadRecords(), record]);
+  return record;
+}
+
+/**
+ * Get the vault key back with one of the account's passkeys
+ */
+export async function unlockWithPasskey(email: string): Promise<string> {
+  const records = listPasskeys(email);
+  if (!records.length) {
+    throw new Error("No passkey is set up on this device");
+  }
+
+  const { id, secret } = await evaluatePrf(records);
+  const record = records.find((candidate) => candidate.id === id);
+  if (!record) {
+    throw new Error("That passkey isn't set up for this vault");
+  }
+
+  try {
+    const vaultKey = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64Url(record.iv) },
+      await wrappingKey(secret),
+      fromBase64Url(record.wrappedKey),
+    );
+    return new TextDecoder().decode(vaultKey);
+  } catch {
+    throw new Error(
+      "This passkey no longer matches your vault. Unlock with your master password and add it again.",
+    );
+  }
+}
+
+export type { PasskeyRecord };
@@ -0,0 +1,222 @@
+// Fuzzy, ranked search over decrypted entries. Queries are whitespace
+// separated terms that must all match; a term can be scoped to one field
+// with a prefix such as `url:github` or `tag:"side project"`. Secrets are
+// never searched.
+
+import {
+  ENTRY_SCHEMAS,
+  getEntrySubtitle,
+  getFieldValue,
+  type VaultEntry,
+} from "./entries";
+
+type SearchScope = "name" | "url" | "tag" | "user" | "note";
+
+interface SearchTerm {
+  value: string;
+  // Unscoped terms match any searchable field
+  scope?: SearchScope;
+}
+
+interface FuzzyMatch {
+  score: number;
+  // Positions of the matched characters, ascending
+  indices: number[];
+}
+
+interface SearchResult {
+  entry: VaultEntry;
+  score: number;
+  // Matched characters in the name and subtitle shown in the list
+  highlights: { name: number[]; subtitle: number[] };
+}
+
+const SCOPE_PREFIXES: Record<string, SearchScope> = {
+  name: "name",
+  url: "url",
+  tag: "tag",
+  user: "user",
+  note: "note",
+  notes: "note",
+};
+
+// Fields that read as "who this account belongs to"
+const USER_FIELDS = ["username", "email"];
+
+// A match is only worth something if it isn't smeared across the text
+const MAX_SPREAD_FACTOR = 3;
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[^a-z0-9]/i.test(text[index - 1]);
+
+/**
+ * Split a query into terms, honouring `scope:` prefixes and double quotes
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const match of query.matchAll(/(?:(\w+):)?(?:"([^"]*)"?|(\S+))/g)) {
+    const [whole, prefix, quoted, bare] = match;
+    // A prefix still being typed, e.g. "url:"
+    if (!prefix && bare?.endsWith(":") && SCOPE_PREFIXES[bare.slice(0, -1).toLowerCase()]) {
+      continue;
+    }
+    const scope = prefix ? SCOPE_PREFIXES[prefix.toLowerCase()] : undefined;
+    // An unknown prefix is just part of the text, e.g. a pasted "host:port"
+    const value = prefix && !scope ? whole.replace(/"/g, "") : (quoted ?? bare ?? "");
+    if (value.trim()) terms.push({ value: value.trim(), scope });
+  }
+  return terms;
+}
+
+/**
+ * Match `pattern` against `text` case-insensitively: a substring scores
+ * highest, then the characters in order with gaps. Null when they don't
+ * all appear.
+ */
+export function fuzzyMatch(pattern: string, text: string): FuzzyMatch | null {
+  const p = pattern.toLowerCase();
+  const t = text.toLowerCase();
+  if (!p) return { score: 0, indices: [] };
+
+  const at = t.indexOf(p);
+  if (at !== -1) {
+    // Prefer an occurrence at the start of a word
+    let start = at;
+    for (let i = at; i !== -1; i = t.indexOf(p, i + 1)) {
+      if (isWordStart(t, i)) {
+        start = i;
+        break;
+      }
+    }
+    let score = 100 + p.length * 10;
+    if (p.length === t.length) score += 100;
+    else if (start === 0) score += 50;
+    else if (isWordStart(t, start)) score += 30;
+    return {
+      score,
+      indices: Array.from({ length: p.length }, (_, i) => start + i),
+    };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of p) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return null;
+    score += 10;
+    if (indices.length > 0 && index === indices[indices.length - 1] + 1) score += 5;
+    if (isWordStart(t, index)) score += 8;
+    indices.push(index);
+    from = index + 1;
+  }
+  const spread = indices[indices.length - 1] - indices[0] + 1;
+  if (spread > p.length * MAX_SPREAD_FACTOR + 2) return null;
+  return { score: score - (spread - p.length), indices };
+}
+
+// Searchable text for each scope, with a weight so name hits rank first
+function fieldsFor(entry: VaultEntry, scope: SearchScope | undefined): [string, number][] {
+  const fields: [string, number][] = [];
+  const schema = ENTRY_SCHEMAS[entry.type];
+
+  if (!scope || scope === "name") fields.push([entry.name, 3]);
+  if (!scope || scope === "url") {
+    for (const field of schema.fields) {
+      const value = field.kind === "url" && getFieldValue(entry, field.key);
+      if (value) fields.push([value.replace(/^https?:\/\//, ""), 2]);
+    }
+  }
+  if (!scope || scope === "tag") {
+    for (const tag of entry.tags ?? []) fields.push([tag, 2]);
+  }
+  if (!scope || scope === "user") {
+    for (const key of USER_FIELDS) {
+      const value = getFieldValue(entry, key);
+      if (value) fields.push([value, 2]);
+    }
+  }
+  if (!scope || scope === "note") {
+    if (entry.notes) fields.push([entry.notes, 1]);
+  }
+  if (!scope) {
+    for (const field of schema.fields) {
+      if (field.kind === "secret" || field.kind === "url" || USER_FIELDS.includes(field.key)) {
+        continue;
+      }
+      const value = getFieldValue(entry, field.key);
+      if (value) fields.push([value, 1]);
+    }
+    for (const field of entry.fields ?? []) {
+      if (field.name) fields.push([field.name, 1]);
+      if (field.type === "text" && field.value) fields.push([field.value, 1]);
+    }
+  }
+  return fields;
+}
+
+function scoreTerm(entry: VaultEntry, term: SearchTerm): number | null {
+  let best: number | null = null;
+  for (const [text, weight] of fieldsFor(entry, term.scope)) {
+    // Scoped searches are precise lookups, so they need a substring
+    const match =
+      term.scope && !text.toLowerCase().includes(term.value.toLowerCase())
+        ? null
+        : fuzzyMatch(term.value, text);
+    if (match && (best === null || match.score * weight > best)) {
+      best = match.score * weight;
+    }
+  }
+  return best;
+}
+
+function highlight(text: string, terms: SearchTerm[], scopes: SearchScope[]): number[] {
+  const indices = new Set<number>();
+  for (const term of terms) {
+    if (term.scope && !scopes.includes(term.scope)) continue;
+    fuzzyMatch(term.value, text)?.indices.forEach((i) => indices.add(i));
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+/**
+ * Entries matching every term, best match first. Ties keep the order the
+ * entries came in, so callers can sort first and search second.
+ */
+export function searchEntries(entries: VaultEntry[], query: string): SearchResult[] {
+  const terms = parseSearchQuery(query);
+  const results: SearchResult[] = [];
+
+  for (const entry of entries) {
+    let score = 0;
+    let matched = true;
+    for (const term of terms) {
+      const termScore = scoreTerm(entry, term);
+      if (termScore === null) {
+        matched = false;
+        break;
+      }
+      score += termScore;
+    }
+    if (!matched) continue;
+
+    // Without a username or URL the subtitle is the type label, which
+    // isn't searched
+    const subtitle = getEntrySubtitle(entry);
+    results.push({
+      entry,
+      score,
+      highlights: {
+        name: highlight(entry.name, terms, ["name"]),
+        subtitle:
+          subtitle === ENTRY_SCHEMAS[entry.type].label
+            ? []
+            : highlight(subtitle, terms, ["user", "url"]),
+      },
+    });
+  }
+
+  return terms.length > 0 ? results.sort((a, b) => b.score - a.score) : results;
+}
+
+export type { FuzzyMatch, SearchResult, SearchScope, SearchTerm };
@@ -0,0 +1,124 @@
+// Keeps the login session alive. The token is refreshed a few minutes
+// before it expires; if that fails the UI is told the session is about to
+// end so it can warn first, and once it has ended the user signs in again
+// without leaving the page. Vault edits are queued on this device (see
+// sync.ts), so nothing saved is lost in between.
+
+import { api, ApiError } from "./api";
+
+// active: valid, or refreshed in time
+// expiring: refreshing failed and the session ends at its expiry
+// expired: the token is gone; sign in again to continue
+type SessionState = "active" | "expiring" | "expired";
+
+const CHECK_INTERVAL_MS = 15000;
+
+// Refresh this long before the session ends
+export const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Wait between failed refresh attempts
+const REFRESH_RETRY_MS = 30000;
+
+let state: SessionState = "active";
+let lastAttempt = 0;
+let refreshing: Promise<boolean> | null = null;
+const listeners = new Set<() => void>();
+
+function setState(next: SessionState) {
+  if (next === state) return;
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+export const getSessionState = (): SessionState => state;
+
+/**
+ * Subscribe to session state changes; returns the unsubscribe function
+ */
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Ask for a fresh token now. Returns whether it worked. Concurrent calls
+ * share one request.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    lastAttempt = Date.now();
+    refreshing = api
+      .refreshSession()
+      .then(() => {
+        setState("active");
+        return true;
+      })
+      .catch((err) => {
+        console.error("Session refresh error:", err);
+        // A 401 already dropped the token
+        const lapsed =
+          (err instanceof ApiError && err.status === 401) ||
+          !api.isAuthenticated();
+        setState(lapsed ? "expired" : "expiring");
+        return false;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+/**
+ * Work out the session state, starting a refresh when the session is close
+ * to its end
+ */
+export function checkSession(now = Date.now()): SessionState {
+  // Any request that got a 401 dropped the token
+  if (!api.isAuthenticated()) {
+    setState("expired");
+    return state;
+  }
+
+  // Without a known expiry the server's 401 is the only signal
+  const expiresAt = api.getSessionExpiry();
+  if (expiresAt === null || expiresAt - now > REFRESH_MARGIN_MS) {
+    setState("active");
+    return state;
+  }
+  if (expiresAt <= now) {
+    setState("expired");
+    return state;
+  }
+
+  if (!refreshing && now - lastAttempt >= REFRESH_RETRY_MS) {
+    refreshSession();
+  }
+  return state;
+}
+
+/**
+ * Check the session periodically and whenever the page becomes visible
+ * again (background timers are throttled). Returns a cleanup function,
+ * which also forgets the state so the next session starts out active.
+ */
+export function startSessionWatch(): () => void {
+  const check = () => checkSession();
+  const handleVisibilityChange = () => {
+    if (!document.hidden) check();
+  };
+
+  check();
+  const interval = setInterval(check, CHECK_INTERVAL_MS);
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+  return () => {
+    clearInterval(interval);
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+    lastAttempt = 0;
+    setState("active");
+  };
+}
+
+export type { SessionState };
@@ -0,0 +1,312 @@
+// Offline password strength estimate in the spirit of zxcvbn. The password
+// is covered by the cheapest run of guessable patterns (common passwords
+// and words, keyboard walks, sequences, repeats, years), with brute force
+// for whatever is left; log2 of the resulting guess count is the entropy.
+
+type StrengthScore = 0 | 1 | 2 | 3 | 4;
+
+type PatternKind =
+  | "common password"
+  | "dictionary word"
+  | "keyboard pattern"
+  | "sequence"
+  | "repeated characters"
+  | "year";
+
+interface StrengthEstimate {
+  // log2 of the estimated number of guesses
+  entropy: number;
+  // 0 (trivial) to 4 (strong), on zxcvbn's scale
+  score: StrengthScore;
+  // Patterns that made it guessable, in order of appearance
+  patterns: PatternKind[];
+}
+
+interface PatternMatch {
+  start: number;
+  // Exclusive
+  end: number;
+  guesses: number;
+  kind: PatternKind;
+}
+
+// Ranked most common first; the rank is the guess count
+const COMMON_PASSWORDS = [
+  "123456", "password", "12345678", "qwerty", "123456789", "12345", "1234",
+  "111111", "1234567", "dragon", "123123", "baseball", "abc123", "football",
+  "monkey", "letmein", "696969", "shadow", "master", "666666", "qwertyuiop",
+  "123321", "mustang", "1234567890", "michael", "654321", "superman",
+  "1qaz2wsx", "7777777", "121212", "000000", "qazwsx", "123qwe", "killer",
+  "trustno1", "jordan", "jennifer", "zxcvbnm", "asdfgh", "hunter", "buster",
+  "soccer", "harley", "batman", "andrew", "tigger", "sunshine", "iloveyou",
+  "charlie", "robert", "thomas", "hockey", "ranger", "daniel", "starwars",
+  "112233", "george", "computer", "michelle", "jessica", "pepper", "zxcvbn",
+  "555555", "11111111", "131313", "freedom", "777777", "pass", "maggie",
+  "159753", "aaaaaa", "ginger", "princess", "joshua", "cheese", "amanda",
+  "summer", "love", "ashley", "nicole", "chelsea", "biteme", "matthew",
+  "access", "yankees", "987654321", "dallas", "austin", "thunder", "taylor",
+  "matrix", "welcome", "admin", "login", "secret", "changeme", "hello",
+  "whatever", "qwerty123", "password1", "passwd", "default", "guest",
+];
+
+const COMMON_WORDS = [
+  "love", "sun", "moon", "star", "blue", "red", "green", "black", "white",
+  "house", "home", "family", "money", "happy", "summer", "winter", "spring",
+  "autumn", "flower", "angel", "baby", "girl", "boy", "dog", "cat", "tiger",
+  "lion", "bear", "eagle", "wolf", "horse", "apple", "orange", "banana",
+  "cherry", "chocolate", "coffee", "music", "guitar", "piano", "game",
+  "player", "gamer", "internet", "google", "facebook", "microsoft", "windows",
+  "linux", "server", "user", "test", "demo", "root", "office", "work",
+  "school", "college", "london", "paris", "berlin", "america", "canada",
+  "mother", "father", "sister", "brother", "friend", "friends", "forever",
+  "heart", "sweet", "honey", "sugar", "magic", "power", "super", "hero",
+  "king", "queen", "prince", "ninja", "pirate", "monster", "silver",
+  "golden", "gold", "diamond", "crystal", "purple", "yellow", "pink",
+  "secure", "private", "company", "account", "email", "phone", "mobile",
+  "john", "james", "david", "mary", "anna", "alex", "mike", "chris", "sarah",
+  "emma", "olivia", "william", "jack", "lucy", "sophie", "max", "sam",
+];
+
+const RANKED: Map<string, { rank: number; kind: PatternKind }> = new Map();
+for (const [list, kind, offset] of [
+  [COMMON_PASSWORDS, "common password", 0],
+  // Words are tried after the common passwords
+  [COMMON_WORDS, "dictionary word", COMMON_PASSWORDS.length],
+] as const) {
+  list.forEach((word, index) => {
+    if (!RANKED.has(word)) RANKED.set(word, { rank: offset + index + 1, kind });
+  });
+}
+
+const MAX_WORD_LENGTH = Math.max(...[...RANKED.keys()].map((w) => w.length));
+
+const LEET: Record<string, string> = {
+  "4": "a",
+  "@": "a",
+  "8": "b",
+  "3": "e",
+  "6": "g",
+  "1": "i",
+  "!": "i",
+  "0": "o",
+  "$": "s",
+  "5": "s",
+  "7": "t",
+  "+": "t",
+};
+
+const KEYBOARD_ROWS = ["1234567890", "qwertyuiop", "asdfghjkl", "zxcvbnm"];
+const KEYBOARD_KEYS = KEYBOARD_ROWS.join("").length;
+
+// Years an attacker would try first: birthdays and recent dates
+const YEAR_SPAN = 130;
+
+// zxcvbn's score boundaries, in guesses
+const SCORE_THRESHOLDS = [1e3, 1e6, 1e8, 1e10];
+
+function cardinality(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+  return size || 1;
+}
+
+// Capitalised and all-caps words are the first variations tried
+function caseVariations(word: string): number {
+  const upper = (word.match(/[A-Z]/g) ?? []).length;
+  if (upper === 0) return 1;
+  if (upper === word.length || (upper === 1 && /^[A-Z]/.test(word))) return 2;
+  return 2 ** Math.min(upper, word.length - upper + 1);
+}
+
+function dictionaryMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  for (let start = 0; start < password.length; start++) {
+    const limit = Math.min(password.length, start + MAX_WORD_LENGTH);
+    for (let end = start + 3; end <= limit; end++) {
+      const token = lower.slice(start, end);
+      let substitutions = 0;
+      const unleeted = [...token]
+        .map((c) => {
+          if (!LEET[c]) return c;
+          substitutions++;
+          return LEET[c];
+        })
+        .join("");
+      const reversed = [...token].reverse().join("");
+
+      const candidates: [string, number][] = [
+        [token, 1],
+        [unleeted, 2 ** substitutions],
+        [reversed, 2],
+      ];
+      for (const [word, factor] of candidates) {
+        const hit = RANKED.get(word);
+        if (!hit) continue;
+        matches.push({
+          start,
+          end,
+          guesses: hit.rank * factor * caseVariations(password.slice(start, end)),
+          kind: hit.kind,
+        });
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+function keyboardMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const position = (c: string) => {
+    for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+      const col = KEYBOARD_ROWS[row].indexOf(c);
+      if (col !== -1) return { row, col };
+    }
+    return null;
+  };
+
+  let start = 0;
+  while (start < lower.length - 2) {
+    let end = start + 1;
+    let direction = 0;
+    while (end < lower.length) {
+      const a = position(lower[end - 1]);
+      const b = position(lower[end]);
+      const step = a && b && a.row === b.row ? b.col - a.col : 0;
+      if (Math.abs(step) !== 1 || (direction && step !== direction)) break;
+      direction = step;
+      end++;
+    }
+    if (end - start >= 3) {
+      matches.push({
+        start,
+        end,
+        guesses: KEYBOARD_KEYS * 2 * (end - start),
+        kind: "keyboard pattern",
+      });
+      start = end;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+function sequenceMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const classOf = (c: string) =>
+    /[a-z]/.test(c) ? "lower" : /[A-Z]/.test(c) ? "upper" : /[0-9]/.test(c) ? "digit" : null;
+
+  let start = 0;
+  while (start < password.length - 2) {
+    const kind = classOf(password[start]);
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    let end = start + 1;
+    while (
+      kind &&
+      Math.abs(delta) === 1 &&
+      end < password.length &&
+      classOf(password[end]) === kind &&
+      password.charCodeAt(end) - password.charCodeAt(end - 1) === delta
+    ) {
+      end++;
+    }
+    if (end - start >= 3) {
+      // Runs from an obvious starting point are tried first
+      const first = password[start];
+      const base = "aAzZ019".includes(first) ? 4 : kind === "digit" ? 10 : 26;
+      matches.push({
+        start,
+        end,
+        guesses: base * (end - start) * (delta < 0 ? 2 : 1),
+        kind: "sequence",
+      });
+      start = end;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+function repeatMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  for (const match of password.matchAll(/(.)\1{2,}/g)) {
+    matches.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      guesses: cardinality(match[1]) * match[0].length,
+      kind: "repeated characters",
+    });
+  }
+  return matches;
+}
+
+function yearMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  for (const match of password.matchAll(/(?=((?:19|20)\d\d))/g)) {
+    matches.push({
+      start: match.index,
+      end: match.index + 4,
+      guesses: YEAR_SPAN,
+      kind: "year",
+    });
+  }
+  return matches;
+}
+
+/**
+ * Estimate how many guesses an informed attacker needs for `password`
+ */
+export function estimateStrength(password: string): StrengthEstimate {
+  if (!password) return { entropy: 0, score: 0, patterns: [] };
+
+  const matches = [
+    ...dictionaryMatches(password),
+    ...keyboardMatches(password),
+    ...sequenceMatches(password),
+    ...repeatMatches(password),
+    ...yearMatches(password),
+  ];
+  const bruteForceBits = Math.log2(cardinality(password));
+
+  // bits[i]: cheapest way to guess the first i characters
+  const bits = [0];
+  const via: (PatternMatch | null)[] = [null];
+  for (let i = 1; i <= password.length; i++) {
+    bits[i] = bits[i - 1] + bruteForceBits;
+    via[i] = null;
+    for (const match of matches) {
+      if (match.end !== i) continue;
+      // A bit per pattern for choosing which patterns to combine
+      const cost = bits[match.start] + Math.log2(match.guesses) + 1;
+      if (cost < bits[i]) {
+        bits[i] = cost;
+        via[i] = match;
+      }
+    }
+  }
+
+  const patterns: PatternKind[] = [];
+  for (let i = password.length; i > 0; ) {
+    const match = via[i];
+    if (match) {
+      patterns.unshift(match.kind);
+      i = match.start;
+    } else {
+      i--;
+    }
+  }
+
+  const entropy = bits[password.length];
+  const guesses = 2 ** entropy;
+  const score = SCORE_THRESHOLDS.filter((t) => guesses >= t).length as StrengthScore;
+  return { entropy, score, patterns };
+}
+
+export type { PatternKind, StrengthEstimate, StrengthScore };
@@ -0,0 +1,348 @@
+// Offline-first access to the encrypted vault. The latest blob is cached
+// locally so the vault can be unlocked without the server, and writes that
+// can't reach it wait in a queue until connectivity returns.
+
+import { api, ApiError } from "./api";
+import { readCache, removeCache, writeCache } from "./cache";
+
+// synced: the server has our latest vault
+// syncing: a push is in flight
+// pending: local changes are queued, waiting for connectivity
+// offline: working from the cache; nothing waiting to be pushed
+// error: the server rejected a push; the changes stay queued
+// conflict: another device saved first; the changes stay queued until they
+// are merged with the server copy
+type SyncState =
+  | "synced"
+  | "syncing"
+  | "pending"
+  | "offline"
+  | "error"
+  | "conflict";
+
+// A vault as stored on the server, at a given revision. `revisionUnknown`
+// marks a vault we stored without learning its revision; it has to be looked
+// up before writing on top of it.
+interface VaultSnapshot {
+  encrypted_vault: string | null;
+  revision: string | null;
+  revisionUnknown?: boolean;
+}
+
+// The last server copy we know of
+interface CachedVault extends VaultSnapshot {
+  cachedAt: number;
+}
+
+// Every update carries the whole vault, so the queue only needs the newest
+// blob; later edits supersede earlier ones. `base` is the server copy the
+// edits were made on, which is what a merge needs.
+interface QueuedUpdate {
+  encrypted_vault: string;
+  queuedAt: number;
+  base: VaultSnapshot;
+}
+
+interface LoadedVault {
+  encrypted_vault: string | null;
+  // True when the server could not be reached
+  offline: boolean;
+}
+
+// Everything needed to merge queued changes with a newer server copy
+interface VaultConflict {
+  base: string | null;
+  local: string;
+  remote: VaultSnapshot;
+  queuedAt: number;
+}
+
+// A cold backend can take close to a minute to answer; fall back to the
+// cache well before that
+const FETCH_TIMEOUT_MS = 10000;
+const RETRY_INTERVAL_MS = 30000;
+
+let state: SyncState = "synced";
+let lastError = "";
+let flushing: Promise<SyncState> | null = null;
+const listeners = new Set<() => void>();
+
+function setState(next: SyncState, error = "") {
+  lastError = error;
+  if (next === state) return;
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+export const getSyncState = (): SyncState => state;
+
+/**
+ * Message from the last rejected push, if the state is "error"
+ */
+export const getSyncError = (): string => lastError;
+
+/**
+ * Subscribe to sync state changes; returns the unsubscribe function
+ */
+export function subscribeSyncState(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Network failures, timeouts and server-side errors (such as a backend that
+ * is still starting) mean "try again later", not "this request is wrong"
+ */
+export function isOfflineError(err: unknown): boolean {
+  if (err instanceof ApiError) return err.status >= 500;
+  if (err instanceof DOMException) {
+    return err.name === "AbortError" || err.name === "TimeoutError";
+  }
+  // fetch rejects with a TypeError when the network is unreachable
+  return err instanceof TypeError;
+}
+
+function cacheKey(kind: "vault" | "queue"): string {
+  const email = api.getAccountEmail();
+  if (!email) {
+    throw new Error("Session expired. Please login again.");
+  }
+  return `${kind}:${email.trim().toLowerCase()}`;
+}
+
+const readQueued = () => readCache<QueuedUpdate>(cacheKey("queue"));
+
+async function cacheSnapshot(snapshot: VaultSnapshot): Promise<void> {
+  await writeCache(cacheKey("vault"), {
+    encrypted_vault: snapshot.encrypted_vault,
+    revision: snapshot.revision,
+    revisionUnknown: snapshot.revisionUnknown,
+    cachedAt: Date.now(),
+  } satisfies CachedVault);
+}
+
+async function fetchSnapshot(signal?: AbortSignal): Promise<VaultSnapshot> {
+  const response = await api.getVault(signal);
+  const snapshot = {
+    encrypted_vault: response.encrypted_vault,
+    revision: response.revision ?? null,
+  };
+  await cacheSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Fetch the encrypted vault, falling back to the local cache when the server
+ * can't be reached. Queued local changes win over the server copy.
+ */
+export async function loadEncryptedVault(): Promise<LoadedVault> {
+  const queued = await readQueued();
+
+  try {
+    const response = await fetchSnapshot(AbortSignal.timeout(FETCH_TIMEOUT_MS));
+
+    if (queued) {
+      flushVaultQueue().catch((err) => console.error("Vault sync error:", err));
+      return { encrypted_vault: queued.encrypted_vault, offline: false };
+    }
+    setState("synced");
+    return { encrypted_vault: response.encrypted_vault, offline: false };
+  } catch (err) {
+    if (!isOfflineError(err)) throw err;
+
+    const cached = queued ?? (await readCache<CachedVault>(cacheKey("vault")));
+    if (!cached) throw err;
+
+    setState(queued ? "pending" : "offline");
+    return { encrypted_vault: cached.encrypted_vault, offline: true };
+  }
+}
+
+/**
+ * Save an encrypted vault locally and push it when possible. Never throws
+ * for connectivity problems; the returned state says what happened.
+ */
+export async function queueVaultUpdate(encryptedVault: string): Promise<SyncState> {
+  // Edits stacked on unpushed edits share their base
+  const queued = await readQueued();
+  const cached = await readCache<CachedVault>(cacheKey("vault"));
+  const base = queued?.base ?? {
+    encrypted_vault: cached?.encrypted_vault ?? null,
+    revision: cached?.revision ?? null,
+    revisionUnknown: cached?.revisionUnknown,
+  };
+
+  await writeCache(cacheKey("queue"), {
+    encrypted_vault: encryptedVault,
+    queuedAt: Date.now(),
+    base,
+  } satisfies QueuedUpdate);
+  setState("pending");
+  return flushVaultQueue();
+}
+
+/**
+ * Fetch the server copy that queued changes conflict with. Returns null if
+ * nothing is queued.
+ */
+export async function fetchVaultConflict(): Promise<VaultConflict | null> {
+  const queued = await readQueued();
+  if (!queued) return null;
+  const remote = await fetchSnapshot(AbortSignal.timeout(FETCH_TIMEOUT_MS));
+  return {
+    base: queued.base.encrypted_vault,
+    local: queued.encrypted_vault,
+    remote,
+    queuedAt: queued.queuedAt,
+  };
+}
+
+/**
+ * Replace the queued changes with a merge of `conflict` and push it on top
+ * of the remote revision. Returns "conflict" again if the queue changed in
+ * the meantime or another device saved first.
+ */
+export async function resolveVaultConflict(
+  conflict: VaultConflict,
+  mergedVault: string,
+): Promise<SyncState> {
+  const queued = await readQueued();
+  if (!queued || queued.queuedAt !== conflict.queuedAt) return "conflict";
+
+  await writeCache(cacheKey("queue"), {
+    encrypted_vault: mergedVault,
+    queuedAt: Date.now(),
+    base: conflict.remote,
+  } satisfies QueuedUpdate);
+  setState("pending");
+  return flushVaultQueue();
+}
+
+/**
+ * Record a vault the server already stored (e.g. with a password change),
+ * dropping anything queued that it replaces. Without the revision it was
+ * stored at, the next push looks it up first.
+ */
+export async function storeVaultBlob(
+  encryptedVault: string,
+  revision?: string | null,
+): Promise<void> {
+  await cacheSnapshot({
+    encrypted_vault: encryptedVault,
+    revision: revision ?? null,
+    revisionUnknown: !revision,
+  });
+  await removeCache(cacheKey("queue"));
+  setState("synced");
+}
+
+/**
+ * Look up the revision of a base stored without one. The server must still
+ * hold that vault; anything else means another device saved since.
+ */
+async function confirmBase(base: VaultSnapshot): Promise<VaultSnapshot> {
+  if (!base.revisionUnknown) return base;
+  const remote = await fetchSnapshot(AbortSignal.timeout(FETCH_TIMEOUT_MS));
+  if (remote.encrypted_vault !== base.encrypted_vault) {
+    throw new ApiError(409, "The vault was changed on another device");
+  }
+  return remote;
+}
+
+async function pushQueued(): Promise<SyncState> {
+  for (;;) {
+    const queued = await readQueued();
+    if (!queued) {
+      if (state === "offline") {
+        // Nothing to push; just find out whether the server is back
+        try {
+          await api.checkHealth();
+        } catch {
+          return state;
+        }
+      }
+      setState("synced");
+      return state;
+    }
+
+    setState("syncing");
+    let pushed: VaultSnapshot;
+    try {
+      const base = await confirmBase(queued.base);
+      const result = await api.updateVault(
+        { encrypted_vault: queued.encrypted_vault },
+        base.revision,
+      );
+      pushed = {
+        encrypted_vault: queued.encrypted_vault,
+        revision: result.revision ?? null,
+      };
+    } catch (err) {
+      if (err instanceof ApiError && err.isConflict) {
+        setState("conflict");
+      } else if (isOfflineError(err)) {
+        setState("pending");
+      } else {
+        console.error("Vault sync error:", err);
+        setState("error", err instanceof Error ? err.message : "Sync failed");
+      }
+      return state;
+    }
+
+    await cacheSnapshot(pushed);
+
+    // Only drop the queue if nothing newer was queued during the push;
+    // anything newer now builds on what we just pushed
+    const latest = await readQueued();
+    if (
+      latest &&
+      latest.queuedAt === queued.queuedAt &&
+      latest.encrypted_vault === queued.encrypted_vault
+    ) {
+      await removeCache(cacheKey("queue"));
+    } else if (latest) {
+      await writeCache(cacheKey("queue"), {
+        ...latest,
+        base: pushed,
+      } satisfies QueuedUpdate);
+    }
+  }
+}
+
+/**
+ * Push queued changes, if any. Concurrent calls share one push.
+ */
+export function flushVaultQueue(): Promise<SyncState> {
+  if (!flushing) {
+    flushing = pushQueued().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Retry queued changes when the browser comes back online and periodically
+ * while anything is waiting. Returns a cleanup function.
+ */
+export function startBackgroundSync(): () => void {
+  const handleOnline = () => {
+    flushVaultQueue().catch((err) => console.error("Vault sync error:", err));
+  };
+  const interval = setInterval(() => {
+    // Conflicts need the vault key to merge, so they wait for the vault UI
+    if (state === "pending" || state === "offline" || state === "error") {
+      handleOnline();
+    }
+  }, RETRY_INTERVAL_MS);
+
+  window.addEventListener("online", handleOnline);
+  return () => {
+    clearInterval(interval);
+    window.removeEventListener("online", handleOnline);
+  };
+}
+
+export type { LoadedVault, SyncState, VaultConflict };
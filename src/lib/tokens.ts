@@ -0,0 +1,72 @@
+// Where the session token is kept between requests. Nothing here writes it
+// to localStorage, where any injected script could read it: the desktop app
+// keeps it in the OS keychain, and the web app either holds it in memory
+// (gone on reload) or leaves it to an httpOnly cookie set by the backend.
+// Pick the web mode with VITE_TOKEN_STORE=memory|cookie.
+
+import { invoke, isTauri } from "@tauri-apps/api/core";
+
+export interface TokenStore {
+  // Set when the backend keeps the token in an httpOnly cookie. Requests
+  // then send credentials instead of an Authorization header, and the
+  // token the store hands out is only a placeholder.
+  readonly cookie?: boolean;
+  load: () => Promise<string | null>;
+  save: (token: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// What a cookie session stands in for the token it can't see
+export const COOKIE_SESSION = "cookie";
+
+// Non-secret marker so a reload knows a cookie session may still be live
+const COOKIE_MARKER_KEY = "session_cookie";
+
+export function createMemoryTokenStore(initial: string | null = null): TokenStore {
+  let token = initial;
+  return {
+    load: async () => token,
+    save: async (next) => {
+      token = next;
+    },
+    clear: async () => {
+      token = null;
+    },
+  };
+}
+
+// The backend contract for cookie mode: /auth/login and /auth/refresh set
+// the token as an httpOnly, Secure, SameSite cookie, every request is sent
+// with credentials, and POST /auth/logout expires the cookie.
+export function createCookieTokenStore(): TokenStore {
+  return {
+    cookie: true,
+    load: async () =>
+      localStorage.getItem(COOKIE_MARKER_KEY) ? COOKIE_SESSION : null,
+    save: async () => {
+      localStorage.setItem(COOKIE_MARKER_KEY, "1");
+    },
+    clear: async () => {
+      localStorage.removeItem(COOKIE_MARKER_KEY);
+    },
+  };
+}
+
+export function createKeychainTokenStore(): TokenStore {
+  return {
+    load: () => invoke<string | null>("token_load"),
+    save: (token) => invoke("token_save", { token }),
+    clear: () => invoke("token_clear"),
+  };
+}
+
+/**
+ * The store for this platform: the keychain in the desktop app, otherwise
+ * the configured web mode, in memory by default
+ */
+export function createTokenStore(): TokenStore {
+  if (isTauri()) return createKeychainTokenStore();
+  return import.meta.env.VITE_TOKEN_STORE === "cookie"
+    ? createCookieTokenStore()
+    : createMemoryTokenStore();
+}
@@ -0,0 +1,162 @@
+// RFC 6238 time-based one-time passwords using the Web Crypto API
+
+type TotpAlgorithm = "SHA1" | "SHA256" | "SHA512";
+
+interface TotpConfig {
+  secret: Uint8Array;
+  algorithm: TotpAlgorithm;
+  digits: number;
+  period: number;
+  issuer?: string;
+  account?: string;
+}
+
+interface TotpCode {
+  code: string;
+  // Seconds until the code rotates
+  remaining: number;
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const HASH_NAMES: Record<TotpAlgorithm, string> = {
+  SHA1: "SHA-1",
+  SHA256: "SHA-256",
+  SHA512: "SHA-512",
+};
+
+/**
+ * Decode an RFC 4648 base32 string, ignoring case, spaces and padding
+ */
+export function base32Decode(input: string): Uint8Array {
+  const cleaned = input.replace(/[\s=-]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of cleaned) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error("Invalid base32 character in secret");
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Parse an `otpauth://totp/...` URI or a bare base32 secret
+ */
+export function parseTotp(input: string): TotpConfig {
+  const trimmed = input.trim();
+
+  if (!trimmed.toLowerCase().startsWith("otpauth://")) {
+    const secret = base32Decode(trimmed);
+    if (secret.length === 0) {
+      throw new Error("Authenticator secret is empty");
+    }
+    return { secret, algorithm: "SHA1", digits: 6, period: 30 };
+  }
+
+  const url = new URL(trimmed);
+  if (url.host.toLowerCase() !== "totp") {
+    throw new Error("Only TOTP authenticator URIs are supported");
+  }
+
+  const params = url.searchParams;
+  const secret = base32Decode(params.get("secret") || "");
+  if (secret.length === 0) {
+    throw new Error("Authenticator URI has no secret");
+  }
+
+  const algorithm = (params.get("algorithm") || "SHA1").toUpperCase();
+  if (!(algorithm in HASH_NAMES)) {
+    throw new Error(`Unsupported TOTP algorithm: ${algorithm}`);
+  }
+
+  const digits = Number(params.get("digits") || 6);
+  if (digits !== 6 && digits !== 8) {
+    throw new Error(`Unsupported TOTP length: ${digits}`);
+  }
+
+  const period = Number(params.get("period") || 30);
+  if (!Number.isInteger(period) || period <= 0) {
+    throw new Error(`Invalid TOTP period: ${params.get("period")}`);
+  }
+
+  // The label is "Issuer:account" or just "account"
+  const label = decodeURIComponent(url.pathname.replace(/^\/+/, ""));
+  const separator = label.indexOf(":");
+  const labelIssuer = separator >= 0 ? label.slice(0, separator) : undefined;
+  const account = separator >= 0 ? label.slice(separator + 1).trim() : label;
+
+  return {
+    secret,
+    algorithm: algorithm as TotpAlgorithm,
+    digits,
+    period,
+    issuer: params.get("issuer") || labelIssuer || undefined,
+    account: account || undefined,
+  };
+}
+
+/**
+ * RFC 4226 HOTP value for a counter
+ */
+export async function generateHotp(
+  secret: Uint8Array,
+  counter: number,
+  algorithm: TotpAlgorithm = "SHA1",
+  digits = 6,
+): Promise<string> {
+  // 8-byte big-endian counter; counters can exceed 32 bits
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    secret,
+    { name: "HMAC", hash: HASH_NAMES[algorithm] },
+    false,
+    ["sign"],
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, message));
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * Current TOTP code for a configuration
+ */
+export async function generateTotp(
+  config: TotpConfig,
+  now: number = Date.now(),
+): Promise<TotpCode> {
+  const seconds = Math.floor(now / 1000);
+  const counter = Math.floor(seconds / config.period);
+  const code = await generateHotp(
+    config.secret,
+    counter,
+    config.algorithm,
+    config.digits,
+  );
+  return { code, remaining: config.period - (seconds % config.period) };
+}
+
+export type { TotpAlgorithm, TotpCode, TotpConfig };
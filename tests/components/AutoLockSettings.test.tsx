@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import { isTauri } from '@tauri-apps/api/core';
+import AutoLockSettings from '../../src/components/AutoLockSettings';
+
+vi.mock('@tauri-apps/api/core', () => ({
+  isTauri: vi.fn(() => false),
+}));
+
+const saved = () => JSON.parse(localStorage.getItem('auto_lock')!);
+
+describe('AutoLockSettings Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('should show the saved settings', () => {
+    localStorage.setItem(
+      'auto_lock',
+      JSON.stringify({ idleMinutes: 5, lockOnHide: true, lockOnSleep: true })
+    );
+    const { container } = render(<AutoLockSettings />);
+
+    expect((container.querySelector('#idleMinutes') as HTMLSelectElement).value).toBe('5');
+    expect(container.querySelector('#lockOnHide')!.getAttribute('aria-checked')).toBe('true');
+  });
+
+  it('should save changes right away', () => {
+    const { container, getByRole } = render(<AutoLockSettings />);
+
+    fireEvent.change(container.querySelector('#idleMinutes')!, { target: { value: '0' } });
+    expect(saved()).toMatchObject({ idleMinutes: 0 });
+
+    fireEvent.click(getByRole('switch'));
+    expect(saved()).toEqual({ idleMinutes: 0, lockOnHide: true, lockOnSleep: true });
+  });
+
+  it('should only offer locking on sleep in the desktop app', () => {
+    const web = render(<AutoLockSettings />);
+    expect(web.container.querySelector('#lockOnSleep')).toBeNull();
+    web.unmount();
+
+    (isTauri as any).mockReturnValue(true);
+    const desktop = render(<AutoLockSettings />);
+    expect(desktop.container.querySelector('#lockOnSleep')).toBeTruthy();
+  });
+});
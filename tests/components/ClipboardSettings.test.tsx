@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import ClipboardSettings from '../../src/components/ClipboardSettings';
+
+describe('ClipboardSettings Component', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should show the saved timeout', () => {
+    localStorage.setItem('clipboard_clear_seconds', '120');
+    const { container } = render(<ClipboardSettings />);
+
+    const select = container.querySelector('#clipboardClear') as HTMLSelectElement;
+    expect(select.value).toBe('120');
+    expect(select.selectedOptions[0].textContent).toBe('2 minutes');
+  });
+
+  it('should save a new timeout right away', () => {
+    const { container } = render(<ClipboardSettings />);
+
+    fireEvent.change(container.querySelector('#clipboardClear')!, { target: { value: '0' } });
+
+    expect(localStorage.getItem('clipboard_clear_seconds')).toBe('0');
+  });
+});
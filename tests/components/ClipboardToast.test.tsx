@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor, act } from '../test-utils';
+import ClipboardToast from '../../src/components/ClipboardToast';
+import { clearClipboard, copySecret } from '../../src/lib/clipboard';
+
+let contents = '';
+
+describe('ClipboardToast Component', () => {
+  beforeEach(async () => {
+    Object.assign(navigator, {
+      clipboard: {
+        writeText: vi.fn(async (text: string) => {
+          contents = text;
+        }),
+        readText: vi.fn(async () => contents),
+      },
+    });
+    localStorage.clear();
+    await clearClipboard();
+  });
+
+  it('should stay hidden until something is copied', () => {
+    const { queryByRole } = render(<ClipboardToast />);
+
+    expect(queryByRole('status')).toBeNull();
+  });
+
+  it('should count down to the clear', async () => {
+    const { findByRole } = render(<ClipboardToast />);
+
+    await act(() => copySecret('hunter2'));
+
+    expect((await findByRole('status')).textContent).toContain('Clipboard clears in 30s');
+  });
+
+  it('should clear right away on request', async () => {
+    const { findByText, queryByRole } = render(<ClipboardToast />);
+    await act(() => copySecret('hunter2'));
+
+    fireEvent.click(await findByText('Clear now'));
+
+    await waitFor(() => {
+      expect(queryByRole('status')).toBeNull();
+    });
+    expect(contents).toBe('');
+  });
+});
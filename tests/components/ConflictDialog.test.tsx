@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import ConflictDialog from '../../src/components/ConflictDialog';
+
+const conflicts = [
+  {
+    id: '1',
+    local: { id: '1', type: 'login' as const, name: 'GitHub', username: 'me' },
+    remote: { id: '1', type: 'login' as const, name: 'GitHub', username: 'them' },
+  },
+  {
+    id: '2',
+    local: null,
+    remote: { id: '2', type: 'note' as const, name: 'Recovery Codes' },
+  },
+];
+
+describe('ConflictDialog Component', () => {
+  const onResolve = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not render without conflicts', () => {
+    const { queryByText } = render(
+      <ConflictDialog conflicts={null} onResolve={onResolve} />
+    );
+    expect(queryByText('Resolve Conflicts')).toBeNull();
+  });
+
+  it('should show both versions of each conflicting entry', () => {
+    const { getByText } = render(
+      <ConflictDialog conflicts={conflicts} onResolve={onResolve} />
+    );
+
+    expect(getByText('me')).toBeTruthy();
+    expect(getByText('them')).toBeTruthy();
+    expect(getByText('Deleted')).toBeTruthy();
+  });
+
+  it('should only apply once every conflict has a choice', () => {
+    const { getAllByText, getByText } = render(
+      <ConflictDialog conflicts={conflicts} onResolve={onResolve} />
+    );
+    const apply = getByText('Apply') as HTMLButtonElement;
+
+    fireEvent.click(getAllByText('Keep both')[0]);
+    expect(apply.disabled).toBe(true);
+
+    fireEvent.click(getAllByText("Keep other device's")[1]);
+    fireEvent.click(apply);
+
+    expect(onResolve).toHaveBeenCalledWith({ '1': 'both', '2': 'remote' });
+  });
+});
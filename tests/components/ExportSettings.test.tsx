@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import ExportSettings from '../../src/components/ExportSettings';
+import { deriveVaultKey } from '../../src/lib/auth';
+import { decryptVault } from '../../src/lib/crypto';
+import {
+  exportCsv,
+  exportEncryptedBackup,
+  saveExportFile,
+} from '../../src/lib/export';
+import { loadEncryptedVault } from '../../src/lib/sync';
+
+vi.mock('../../src/lib/sync', () => ({
+  loadEncryptedVault: vi.fn(),
+}));
+
+vi.mock('../../src/lib/auth', () => ({
+  deriveVaultKey: vi.fn(),
+}));
+
+// Mock crypto
+vi.mock('../../src/lib/crypto', () => ({
+  createEmptyVault: vi.fn(() => ({ entries: [] })),
+  decryptVault: vi.fn(),
+  getVaultKdf: vi.fn(() => ({ name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 })),
+}));
+
+vi.mock('../../src/lib/export', () => ({
+  exportEncryptedBackup: vi.fn(async () => ({ fileName: 'backup.json', mimeType: 'application/json', contents: '{}' })),
+  exportJson: vi.fn(() => ({ fileName: 'export.json', mimeType: 'application/json', contents: '{}' })),
+  exportCsv: vi.fn(() => ({ fileName: 'export.csv', mimeType: 'text/csv', contents: '' })),
+  exportKeePassXml: vi.fn(() => ({ fileName: 'export.xml', mimeType: 'application/xml', contents: '' })),
+  saveExportFile: vi.fn(),
+}));
+
+const vault = { entries: [{ id: '1', type: 'login', name: 'GitHub' }] };
+
+const fill = (container: HTMLElement, id: string, value: string) => {
+  fireEvent.change(container.querySelector(`#${id}`)!, { target: { value } });
+};
+
+describe('ExportSettings Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (deriveVaultKey as any).mockResolvedValue('vault-key');
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'blob', offline: false });
+    (decryptVault as any).mockResolvedValue(vault);
+    (saveExportFile as any).mockResolvedValue(true);
+  });
+
+  it('should export an encrypted backup with the backup password', async () => {
+    const { container, getByText, findByText } = render(<ExportSettings />);
+
+    fill(container, 'backupPassword', 'BackupPass1');
+    fill(container, 'confirmBackupPassword', 'BackupPass1');
+    fill(container, 'exportMasterPassword', 'Secret123');
+    fireEvent.click(getByText('Export Vault'));
+
+    expect(await findByText('Exported 1 entry to backup.json.')).toBeTruthy();
+    expect(deriveVaultKey).toHaveBeenCalledWith('Secret123');
+    expect(decryptVault).toHaveBeenCalledWith('blob', 'vault-key');
+    expect(exportEncryptedBackup).toHaveBeenCalledWith(vault, 'BackupPass1', {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: 600000,
+    });
+  });
+
+  it('should reject mismatched backup passwords', async () => {
+    const { container, getByText, findByText } = render(<ExportSettings />);
+
+    fill(container, 'backupPassword', 'BackupPass1');
+    fill(container, 'confirmBackupPassword', 'BackupPass2');
+    fill(container, 'exportMasterPassword', 'Secret123');
+    fireEvent.click(getByText('Export Vault'));
+
+    expect(await findByText('Backup passwords do not match')).toBeTruthy();
+    expect(loadEncryptedVault).not.toHaveBeenCalled();
+  });
+
+  it('should warn and re-ask the master password for plaintext exports', async () => {
+    const { container, getByText, findByText, queryByLabelText } = render(<ExportSettings />);
+
+    fireEvent.click(getByText('CSV'));
+    expect(getByText(/unencrypted/)).toBeTruthy();
+    expect(queryByLabelText('Backup Password')).toBeNull();
+
+    fill(container, 'exportMasterPassword', 'Secret123');
+    fireEvent.click(getByText('Export Vault'));
+
+    expect(await findByText('Exported 1 entry to export.csv.')).toBeTruthy();
+    expect(exportCsv).toHaveBeenCalledWith(vault);
+    expect(saveExportFile).toHaveBeenCalledWith(
+      expect.objectContaining({ fileName: 'export.csv' })
+    );
+  });
+
+  it('should export entries saved before they had types as logins', async () => {
+    (decryptVault as any).mockResolvedValue({ entries: [{ id: '1', name: 'GitHub' }] });
+    const { container, getByText, findByText } = render(<ExportSettings />);
+
+    fireEvent.click(getByText('CSV'));
+    fill(container, 'exportMasterPassword', 'Secret123');
+    fireEvent.click(getByText('Export Vault'));
+
+    expect(await findByText('Exported 1 entry to export.csv.')).toBeTruthy();
+    expect(exportCsv).toHaveBeenCalledWith(vault);
+  });
+
+  it('should not export with a wrong master password', async () => {
+    (decryptVault as any).mockRejectedValue(new Error('Failed to decrypt vault'));
+    const { container, getByText, findByText } = render(<ExportSettings />);
+
+    fireEvent.click(getByText('JSON'));
+    fill(container, 'exportMasterPassword', 'wrong');
+    fireEvent.click(getByText('Export Vault'));
+
+    expect(await findByText('Master password is incorrect')).toBeTruthy();
+    expect(saveExportFile).not.toHaveBeenCalled();
+  });
+
+  it('should stay quiet when the save dialog is cancelled', async () => {
+    (saveExportFile as any).mockResolvedValue(false);
+    const { container, getByText, queryByText } = render(<ExportSettings />);
+
+    fireEvent.click(getByText('KeePass XML'));
+    fill(container, 'exportMasterPassword', 'Secret123');
+    fireEvent.click(getByText('Export Vault'));
+
+    await waitFor(() => {
+      expect(saveExportFile).toHaveBeenCalled();
+    });
+    expect(queryByText(/Exported/)).toBeNull();
+  });
+});
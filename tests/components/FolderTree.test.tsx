@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import FolderTree, { ENTRY_DRAG_TYPE } from '../../src/components/FolderTree';
+
+const folders = [
+  { id: 'work', name: 'Work' },
+  { id: 'servers', name: 'Servers', parentId: 'work' },
+];
+
+// Minimal stand-in for the DataTransfer jsdom doesn't provide
+const dataTransfer = (ids: string[]) => ({
+  types: [ENTRY_DRAG_TYPE],
+  getData: (type: string) => (type === ENTRY_DRAG_TYPE ? JSON.stringify(ids) : ''),
+  dropEffect: 'none',
+});
+
+describe('FolderTree Component', () => {
+  const props = {
+    folders,
+    tags: ['banking'],
+    filter: { kind: 'all' as const },
+    onFilterChange: vi.fn(),
+    onCreateFolder: vi.fn(),
+    onRenameFolder: vi.fn(),
+    onDeleteFolder: vi.fn(),
+    onMoveEntries: vi.fn(),
+    onTagEntries: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should filter by folder and tag', () => {
+    const { getByText } = render(<FolderTree {...props} />);
+
+    fireEvent.click(getByText('Servers'));
+    expect(props.onFilterChange).toHaveBeenCalledWith({ kind: 'folder', id: 'servers' });
+
+    fireEvent.click(getByText('banking'));
+    expect(props.onFilterChange).toHaveBeenCalledWith({ kind: 'tag', tag: 'banking' });
+
+    fireEvent.click(getByText('All entries'));
+    expect(props.onFilterChange).toHaveBeenCalledWith({ kind: 'all' });
+  });
+
+  it('should collapse subfolders', () => {
+    const { getByLabelText, queryByText } = render(<FolderTree {...props} />);
+
+    fireEvent.click(getByLabelText('Collapse'));
+
+    expect(queryByText('Servers')).toBeNull();
+    expect(props.onFilterChange).not.toHaveBeenCalled();
+  });
+
+  it('should create, rename and delete folders', () => {
+    const { getByTitle, getAllByTitle } = render(<FolderTree {...props} />);
+
+    fireEvent.click(getByTitle('New folder'));
+    expect(props.onCreateFolder).toHaveBeenCalledWith();
+
+    fireEvent.click(getAllByTitle('New subfolder')[1]);
+    expect(props.onCreateFolder).toHaveBeenCalledWith('servers');
+
+    fireEvent.click(getAllByTitle('Rename folder')[0]);
+    expect(props.onRenameFolder).toHaveBeenCalledWith(folders[0]);
+
+    fireEvent.click(getAllByTitle('Delete folder')[0]);
+    expect(props.onDeleteFolder).toHaveBeenCalledWith(folders[0]);
+    expect(props.onFilterChange).not.toHaveBeenCalled();
+  });
+
+  it('should move entries dropped on a folder', () => {
+    const { getByText } = render(<FolderTree {...props} />);
+    const row = getByText('Work').parentElement!;
+
+    fireEvent.dragOver(row, { dataTransfer: dataTransfer(['1', '2']) });
+    expect(row.className).toContain('ring-primary');
+
+    fireEvent.drop(row, { dataTransfer: dataTransfer(['1', '2']) });
+    expect(props.onMoveEntries).toHaveBeenCalledWith(['1', '2'], 'work');
+  });
+
+  it('should unfile entries dropped on all entries and tag entries dropped on a tag', () => {
+    const { getByText } = render(<FolderTree {...props} />);
+
+    fireEvent.drop(getByText('All entries').parentElement!, {
+      dataTransfer: dataTransfer(['1']),
+    });
+    expect(props.onMoveEntries).toHaveBeenCalledWith(['1'], undefined);
+
+    fireEvent.drop(getByText('banking').parentElement!, {
+      dataTransfer: dataTransfer(['1']),
+    });
+    expect(props.onTagEntries).toHaveBeenCalledWith(['1'], 'banking');
+  });
+
+  it('should ignore drops and folder edits while disabled', () => {
+    const { getByText, getByTitle } = render(<FolderTree {...props} disabled />);
+    const row = getByText('Work').parentElement!;
+
+    fireEvent.dragOver(row, { dataTransfer: dataTransfer(['1']) });
+    expect(row.className).not.toContain('ring-primary');
+
+    fireEvent.drop(row, { dataTransfer: dataTransfer(['1']) });
+    fireEvent.click(getByTitle('New folder'));
+    expect(props.onMoveEntries).not.toHaveBeenCalled();
+    expect(props.onCreateFolder).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import Health from '../../src/components/Health';
+import { deriveVaultKey } from '../../src/lib/auth';
+import { clearOfflineBreachFile } from '../../src/lib/breach';
+import { decryptVault } from '../../src/lib/crypto';
+import { loadEncryptedVault } from '../../src/lib/sync';
+
+const mockNavigate = vi.fn();
+
+vi.mock('react-router-dom', async () => ({
+  ...(await vi.importActual<typeof import('react-router-dom')>('react-router-dom')),
+  useNavigate: () => mockNavigate,
+}));
+
+vi.mock('../../src/lib/sync', () => ({
+  loadEncryptedVault: vi.fn(),
+}));
+
+vi.mock('../../src/lib/auth', () => ({
+  deriveVaultKey: vi.fn(),
+}));
+
+// Mock crypto
+vi.mock('../../src/lib/crypto', () => ({
+  createEmptyVault: vi.fn(() => ({ entries: [] })),
+  decryptVault: vi.fn(),
+}));
+
+// SHA-1 of 'password'
+const PASSWORD_HASH = '5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8';
+
+// jsdom's File has no text()
+const hashFile = (text: string) =>
+  Object.assign(new File([text], 'hashes.txt', { type: 'text/plain' }), {
+    text: async () => text,
+  });
+
+const YEAR = 365 * 24 * 60 * 60 * 1000;
+
+const vault = {
+  entries: [
+    { id: '1', type: 'login', name: 'GitHub', password: 'password', createdAt: Date.now() },
+    { id: '2', type: 'login', name: 'Gmail', password: 'x7#Kq9!mZ2@w', createdAt: Date.now() },
+    { id: '3', type: 'login', name: 'Bank', password: 'x7#Kq9!mZ2@w', createdAt: Date.now() },
+    { id: '4', type: 'login', name: 'Forum', password: 'k8Hs2Lw0Pq', createdAt: Date.now() - 1.5 * YEAR },
+    { id: '5', type: 'login', name: 'Shop', password: 'Zq3!vB8#nL1w', createdAt: Date.now() },
+  ],
+};
+
+const analyze = async () => {
+  const utils = render(<Health />);
+  fireEvent.change(utils.container.querySelector('#healthMasterPassword')!, {
+    target: { value: 'Secret123' },
+  });
+  fireEvent.click(utils.getByText('Analyze'));
+  await utils.findByLabelText('Health score');
+  return utils;
+};
+
+describe('Health Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    clearOfflineBreachFile();
+    global.fetch = vi.fn();
+    (deriveVaultKey as any).mockResolvedValue('vault-key');
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'blob', offline: false });
+    (decryptVault as any).mockResolvedValue(vault);
+  });
+
+  it('should ask for the master password before analyzing', async () => {
+    (decryptVault as any).mockRejectedValueOnce(new Error('bad key'));
+    const { container, getByText, findByText } = render(<Health />);
+
+    fireEvent.change(container.querySelector('#healthMasterPassword')!, {
+      target: { value: 'wrong' },
+    });
+    fireEvent.click(getByText('Analyze'));
+
+    expect(await findByText('Master password is incorrect')).toBeTruthy();
+  });
+
+  it('should show the score and each kind of issue', async () => {
+    const { getByLabelText, getByText, getAllByText } = await analyze();
+
+    // Only Shop has no issue
+    expect(getByLabelText('Health score').textContent).toBe('20');
+    expect(getByText('1 weak, 2 reused, 1 old across 5 passwords')).toBeTruthy();
+    expect(getByText(/Very weak · common password/)).toBeTruthy();
+    expect(getAllByText(/Shared with 1 other entry/)).toHaveLength(2);
+    expect(getByText(/Last changed/)).toBeTruthy();
+  });
+
+  it('should jump into the vault to fix an entry', async () => {
+    const { getByText } = await analyze();
+
+    fireEvent.click(getByText('GitHub'));
+
+    expect(mockNavigate).toHaveBeenCalledWith('/vault', { state: { editEntryId: '1' } });
+  });
+
+  it('should remember the age threshold', async () => {
+    const { container, getByText, queryByText } = await analyze();
+
+    fireEvent.change(container.querySelector('#maxAge')!, { target: { value: '24' } });
+
+    await waitFor(() => {
+      expect(queryByText(/Last changed/)).toBeNull();
+    });
+    expect(getByText('Every password was changed recently.')).toBeTruthy();
+    expect(localStorage.getItem('health_max_age_months')).toBe('24');
+  });
+
+  it('should not check for breaches unless asked to', async () => {
+    const { getByText } = await analyze();
+
+    expect(getByText('Turn on the online check or load a hash file below.')).toBeTruthy();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should flag breached passwords from a local hash file', async () => {
+    const { container, getByLabelText, findByText, getByText } = await analyze();
+
+    fireEvent.change(container.querySelector('#breachFile')!, {
+      target: { files: [hashFile(`${PASSWORD_HASH}:9545824\n`)] },
+    });
+
+    expect(await findByText(/Seen 9,545,824 times in breaches/)).toBeTruthy();
+    expect(getByText('1 weak, 2 reused, 1 old, 1 breached across 5 passwords')).toBeTruthy();
+    expect(getByLabelText('Health score').textContent).toBe('20');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should check online with only hash prefixes once enabled', async () => {
+    (global.fetch as any).mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      text: async () =>
+        url.endsWith('/5BAA6') ? '1E4C9B93F3F0682250B6CF8331B7EE68FD8:12\r\n' : '',
+    }));
+    const { getByRole, findByText } = await analyze();
+
+    fireEvent.click(getByRole('switch'));
+
+    expect(await findByText(/Seen 12 times in breaches/)).toBeTruthy();
+    expect(localStorage.getItem('breach_check')).toBe('online');
+    for (const [url] of (global.fetch as any).mock.calls) {
+      expect(url).toMatch(/\/range\/[0-9A-F]{5}$/);
+    }
+  });
+
+  it('should forget the vault when the window is hidden', async () => {
+    localStorage.setItem(
+      'auto_lock',
+      JSON.stringify({ idleMinutes: 0, lockOnHide: true, lockOnSleep: false })
+    );
+    const { findByText, queryByLabelText } = await analyze();
+
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => true });
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(await findByText('Analyze')).toBeTruthy();
+    expect(queryByLabelText('Health score')).toBeNull();
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => false });
+  });
+});
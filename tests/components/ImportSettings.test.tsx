@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import ImportSettings from '../../src/components/ImportSettings';
+import { deriveVaultKey } from '../../src/lib/auth';
+import { decryptVault, encryptVault } from '../../src/lib/crypto';
+import { loadEncryptedVault, queueVaultUpdate } from '../../src/lib/sync';
+
+vi.mock('../../src/lib/sync', () => ({
+  getSyncError: vi.fn(() => 'API error 500: boom'),
+  loadEncryptedVault: vi.fn(),
+  queueVaultUpdate: vi.fn(),
+}));
+
+vi.mock('../../src/lib/auth', () => ({
+  deriveVaultKey: vi.fn(),
+}));
+
+// Mock crypto
+vi.mock('../../src/lib/crypto', () => ({
+  createEmptyVault: vi.fn(() => ({ entries: [] })),
+  decryptVault: vi.fn(),
+  encryptVault: vi.fn(),
+  getVaultKdf: vi.fn(() => ({ name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 })),
+}));
+
+const CHROME_CSV = [
+  'name,url,username,password,note',
+  'GitHub,https://github.com,octocat,hunter2,',
+  'Mail,https://mail.example.com,me@example.com,secret,',
+].join('\n');
+
+const existingEntry = {
+  id: 'existing',
+  type: 'login',
+  name: 'GitHub',
+  username: 'octocat',
+  url: 'https://github.com',
+};
+
+// jsdom's File has no arrayBuffer()
+const exportFile = (text: string) =>
+  Object.assign(new File([text], 'passwords.csv', { type: 'text/csv' }), {
+    arrayBuffer: async () => new Uint8Array(Buffer.from(text)).buffer,
+  });
+
+const previewImport = async (utils: ReturnType<typeof render>, csv: string) => {
+  const { container, getByText, getByLabelText } = utils;
+
+  fireEvent.change(getByLabelText('Export Format'), {
+    target: { value: 'chrome-csv' },
+  });
+  fireEvent.change(container.querySelector('#importFile')!, {
+    target: { files: [exportFile(csv)] },
+  });
+  fireEvent.change(container.querySelector('#importMasterPassword')!, {
+    target: { value: 'Secret123' },
+  });
+  fireEvent.click(getByText('Preview Import'));
+};
+
+describe('ImportSettings Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    (deriveVaultKey as any).mockResolvedValue('vault-key');
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'blob', offline: false });
+    (decryptVault as any).mockResolvedValue({ entries: [existingEntry] });
+    (encryptVault as any).mockResolvedValue('new-blob');
+    (queueVaultUpdate as any).mockResolvedValue('synced');
+  });
+
+  it('should preview parsed entries and flag duplicates', async () => {
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, CHROME_CSV);
+
+    expect(await utils.findByText('2 entries found · 1 already in your vault')).toBeTruthy();
+    expect(utils.getByText('Duplicate')).toBeTruthy();
+    expect((utils.getByLabelText('Import GitHub') as HTMLInputElement).checked).toBe(false);
+    expect((utils.getByLabelText('Import Mail') as HTMLInputElement).checked).toBe(true);
+    expect(utils.container.textContent).not.toContain('hunter2');
+  });
+
+  it('should save selected entries with a single vault update', async () => {
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, CHROME_CSV);
+
+    fireEvent.click(await utils.findByText('Import 1 Entry'));
+
+    await waitFor(() => {
+      expect(queueVaultUpdate).toHaveBeenCalledTimes(1);
+    });
+    const [vault, key] = (encryptVault as any).mock.calls[0];
+    expect(key).toBe('vault-key');
+    expect(vault.entries.map((e: any) => e.name)).toEqual(['GitHub', 'Mail']);
+    expect(queueVaultUpdate).toHaveBeenCalledWith('new-blob');
+    expect(await utils.findByText('Imported 1 entry.')).toBeTruthy();
+  });
+
+  it('should report how the import was saved', async () => {
+    const outcomes = [
+      ['pending', /Imported 1 entry on this device. The import reaches the server once you're back online/],
+      ['conflict', /vault was changed on another device. The import is merged in the next time/],
+      ['error', /the server didn't accept the change: API error 500: boom/],
+    ] as const;
+
+    for (const [state, message] of outcomes) {
+      (queueVaultUpdate as any).mockResolvedValueOnce(state);
+      const utils = render(<ImportSettings />);
+      await previewImport(utils, CHROME_CSV);
+
+      fireEvent.click(await utils.findByText('Import 1 Entry'));
+
+      expect(await utils.findByText(message)).toBeTruthy();
+      expect(utils.queryByText('Imported 1 entry.')).toBeNull();
+      utils.unmount();
+    }
+  });
+
+  it('should include duplicates the user opts into', async () => {
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, CHROME_CSV);
+
+    fireEvent.click(await utils.findByLabelText('Import GitHub'));
+    fireEvent.click(utils.getByText('Import 2 Entries'));
+
+    await waitFor(() => {
+      expect(queueVaultUpdate).toHaveBeenCalledTimes(1);
+    });
+    expect((encryptVault as any).mock.calls[0][0].entries).toHaveLength(3);
+  });
+
+  it('should import into a vault saved before entries had types', async () => {
+    const { type: _type, ...legacyEntry } = existingEntry;
+    (decryptVault as any).mockResolvedValue({ entries: [legacyEntry] });
+
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, CHROME_CSV);
+
+    expect(await utils.findByText('2 entries found · 1 already in your vault')).toBeTruthy();
+    fireEvent.click(utils.getByText('Import 1 Entry'));
+
+    await waitFor(() => {
+      expect(queueVaultUpdate).toHaveBeenCalledTimes(1);
+    });
+    expect((encryptVault as any).mock.calls[0][0].entries[0]).toEqual(existingEntry);
+  });
+
+  it('should show parse errors without touching the vault', async () => {
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, 'title,website\nx,y');
+
+    expect(await utils.findByText(/not a Chrome CSV export/)).toBeTruthy();
+    expect(loadEncryptedVault).not.toHaveBeenCalled();
+    expect(queueVaultUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should report a wrong master password', async () => {
+    (decryptVault as any).mockRejectedValue(new Error('Failed to decrypt vault'));
+
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, CHROME_CSV);
+
+    expect(await utils.findByText('Master password is incorrect')).toBeTruthy();
+    expect(queueVaultUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should forget the unlocked vault when the window is hidden', async () => {
+    localStorage.setItem(
+      'auto_lock',
+      JSON.stringify({ idleMinutes: 0, lockOnHide: true, lockOnSleep: false })
+    );
+    const utils = render(<ImportSettings />);
+    await previewImport(utils, CHROME_CSV);
+    await utils.findByText('Import 1 Entry');
+
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => true });
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    await waitFor(() => {
+      expect(utils.queryByText('Import 1 Entry')).toBeNull();
+    });
+    expect(utils.queryByText(/entries found/)).toBeNull();
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => false });
+  });
+});
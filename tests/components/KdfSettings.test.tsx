@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import KdfSettings from '../../src/components/KdfSettings';
+import { api } from '../../src/lib/api';
+import { fetchAccountKdf, loadAccountKdf } from '../../src/lib/auth';
+import {
+  benchmarkKdf,
+  decryptVault,
+  deriveCredentials,
+  encryptVault,
+} from '../../src/lib/crypto';
+import { loadEncryptedVault, storeVaultBlob } from '../../src/lib/sync';
+import { listPasskeys } from '../../src/lib/passkey';
+
+vi.mock('../../src/lib/api', () => ({
+  api: {
+    getAccountEmail: vi.fn(() => 'user@example.com'),
+    setAccountKdf: vi.fn(),
+    changePassword: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/lib/sync', () => ({
+  loadEncryptedVault: vi.fn(),
+  storeVaultBlob: vi.fn(),
+}));
+
+vi.mock('../../src/lib/auth', () => ({
+  fetchAccountKdf: vi.fn(),
+  loadAccountKdf: vi.fn(),
+}));
+
+// Mock crypto
+vi.mock('../../src/lib/crypto', () => ({
+  benchmarkKdf: vi.fn(),
+  decryptVault: vi.fn(),
+  deriveCredentials: vi.fn(async (password: string, _email: string, kdf: any) => ({
+    authHash: `auth:${password}:${kdf.name}`,
+    encryptionKey: `enc:${password}:${kdf.name}`,
+  })),
+  encryptVault: vi.fn(),
+  DEFAULT_KDF: { name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 },
+  DEFAULT_ARGON2ID: { name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 },
+  KDF_LIMITS: {
+    pbkdf2Iterations: { min: 100000, max: 2000000 },
+    argon2MemoryMiB: { min: 16, max: 1024 },
+    argon2Iterations: { min: 1, max: 10 },
+    argon2Parallelism: { min: 1, max: 8 },
+  },
+}));
+
+const accountKdf = { name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 };
+const argon2Kdf = { name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 };
+
+const applyArgon2 = (container: HTMLElement, getByText: (text: string) => HTMLElement) => {
+  fireEvent.click(getByText('Argon2id'));
+  fireEvent.change(container.querySelector('#kdfMasterPassword')!, {
+    target: { value: 'Secret123' },
+  });
+  fireEvent.submit(container.querySelector('form')!);
+};
+
+describe('KdfSettings Component', () => {
+  const mockOnLogout = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'blob', offline: false });
+    (loadAccountKdf as any).mockResolvedValue(accountKdf);
+    (fetchAccountKdf as any).mockResolvedValue(accountKdf);
+  });
+
+  it('should show the KDF the account currently uses', async () => {
+    const { findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+
+    expect(await findByText(/PBKDF2-SHA256 · 600,000 iterations/)).toBeTruthy();
+    expect(loadAccountKdf).toHaveBeenCalledWith('user@example.com');
+  });
+
+  it('should display benchmark results', async () => {
+    (benchmarkKdf as any).mockResolvedValueOnce(420.4);
+
+    const { getByText, findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+    fireEvent.click(getByText('Run Benchmark'));
+
+    expect(await findByText(/~420 ms per unlock/)).toBeTruthy();
+  });
+
+  it('should warn when unlock would take longer than a second', async () => {
+    (benchmarkKdf as any).mockResolvedValueOnce(1800);
+
+    const { getByText, findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+    fireEvent.click(getByText('Run Benchmark'));
+
+    expect(await findByText(/slower than 1s/)).toBeTruthy();
+  });
+
+  it('should stretch the master password with Argon2id for the account', async () => {
+    const vault = { entries: [] };
+    (decryptVault as any).mockResolvedValueOnce(vault);
+    (encryptVault as any).mockResolvedValueOnce('argon-blob');
+    (api.changePassword as any).mockResolvedValueOnce({ revision: 'r2' });
+
+    const { container, getByText, findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+    await findByText(/600,000 iterations/);
+    applyArgon2(container, getByText);
+
+    await waitFor(() => {
+      expect(api.changePassword).toHaveBeenCalledWith({
+        current_password_hash: 'auth:Secret123:PBKDF2',
+        new_password_hash: 'auth:Secret123:Argon2id',
+        encrypted_vault: 'argon-blob',
+        kdf: argon2Kdf,
+      });
+    });
+    expect(deriveCredentials).toHaveBeenCalledWith('Secret123', 'user@example.com', accountKdf);
+    expect(deriveCredentials).toHaveBeenCalledWith('Secret123', 'user@example.com', argon2Kdf);
+    expect(decryptVault).toHaveBeenCalledWith('blob', 'enc:Secret123:PBKDF2');
+    expect(encryptVault).toHaveBeenCalledWith(vault, 'enc:Secret123:Argon2id', argon2Kdf);
+    expect(api.setAccountKdf).toHaveBeenCalledWith(argon2Kdf);
+    expect(storeVaultBlob).toHaveBeenCalledWith('argon-blob', 'r2');
+    expect(await findByText(/Please log in again/)).toBeTruthy();
+  });
+
+  it('should drop passkeys holding the old vault key', async () => {
+    localStorage.setItem(
+      'vault_passkeys',
+      JSON.stringify([{ id: 'a', email: 'user@example.com', name: 'Laptop' }])
+    );
+    (decryptVault as any).mockResolvedValueOnce({ entries: [] });
+    (encryptVault as any).mockResolvedValueOnce('argon-blob');
+    (api.changePassword as any).mockResolvedValueOnce({});
+
+    const { container, getByText, findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+    await findByText(/600,000 iterations/);
+    applyArgon2(container, getByText);
+
+    await findByText(/Please log in again/);
+    expect(listPasskeys('user@example.com')).toEqual([]);
+  });
+
+  it('should not claim success when the server refuses the change', async () => {
+    (decryptVault as any).mockResolvedValueOnce({ entries: [] });
+    (encryptVault as any).mockResolvedValueOnce('argon-blob');
+    (api.changePassword as any).mockRejectedValueOnce(new Error('API error 500: boom'));
+
+    const { container, getByText, findByText, queryByText } = render(
+      <KdfSettings onLogout={mockOnLogout} />
+    );
+    await findByText(/600,000 iterations/);
+    applyArgon2(container, getByText);
+
+    expect(await findByText('API error 500: boom')).toBeTruthy();
+    expect(queryByText(/Please log in again/)).toBeNull();
+    expect(api.setAccountKdf).not.toHaveBeenCalled();
+    expect(storeVaultBlob).not.toHaveBeenCalled();
+  });
+
+  it('should not change the settings while offline', async () => {
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'blob', offline: true });
+
+    const { container, getByText, findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+    applyArgon2(container, getByText);
+
+    expect(
+      await findByText("You're offline. Reconnect to change key derivation settings.")
+    ).toBeTruthy();
+    expect(api.changePassword).not.toHaveBeenCalled();
+  });
+
+  it('should not touch the account with a wrong master password', async () => {
+    (decryptVault as any).mockRejectedValueOnce(new Error('Failed to decrypt vault'));
+
+    const { container, getByText, findByText } = render(<KdfSettings onLogout={mockOnLogout} />);
+    applyArgon2(container, getByText);
+
+    expect(await findByText('Master password is incorrect')).toBeTruthy();
+    expect(api.changePassword).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '../test-utils';
 import Login from '../../src/components/Login';
 import { api } from '../../src/lib/api';
+import { loginWithMasterPassword } from '../../src/lib/auth';
 
 // Mock the API
 vi.mock('../../src/lib/api', () => ({
@@ -11,6 +12,10 @@ vi.mock('../../src/lib/api', () => ({
   },
 }));
 
+vi.mock('../../src/lib/auth', () => ({
+  loginWithMasterPassword: vi.fn(),
+}));
+
 describe('Login Component', () => {
   const mockOnLoginSuccess = vi.fn();
 
@@ -46,4 +51,30 @@ describe('Login Component', () => {
     const { container } = render(<Login onLoginSuccess={mockOnLoginSuccess} />);
     expect(container).toBeTruthy();
   });
+
+  it('should ask for a second factor before signing in', async () => {
+    const verify = vi.fn(async () => {});
+    (loginWithMasterPassword as any).mockResolvedValueOnce({ methods: ['totp'], verify });
+    const { container, findByText, getByText, queryByText } = render(
+      <Login onLoginSuccess={mockOnLoginSuccess} />
+    );
+
+    fireEvent.change(container.querySelector('#email')!, {
+      target: { value: 'user@example.com' },
+    });
+    fireEvent.change(container.querySelector('#password')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Vault'));
+
+    expect(await findByText('Two-Factor Authentication')).toBeTruthy();
+    expect(mockOnLoginSuccess).not.toHaveBeenCalled();
+    expect(queryByText('Use a recovery code instead')).toBeNull();
+
+    fireEvent.change(container.querySelector('#mfaCode')!, { target: { value: '123456' } });
+    fireEvent.click(getByText('Verify'));
+
+    await waitFor(() => expect(mockOnLoginSuccess).toHaveBeenCalled());
+    expect(verify).toHaveBeenCalledWith({ code: '123456' });
+  });
 });
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import MfaPrompt from '../../src/components/MfaPrompt';
+
+describe('MfaPrompt Component', () => {
+  const mockOnVerified = vi.fn();
+  const mockOnCancel = vi.fn();
+  const pending = {
+    methods: ['totp', 'recovery_code'] as ('totp' | 'recovery_code')[],
+    verify: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pending.verify.mockResolvedValue(undefined);
+  });
+
+  const renderPrompt = () =>
+    render(<MfaPrompt pending={pending} onVerified={mockOnVerified} onCancel={mockOnCancel} />);
+
+  it('should verify an authenticator code', async () => {
+    const { container, getByText } = renderPrompt();
+    const submit = getByText('Verify').closest('button')!;
+    expect(submit.disabled).toBe(true);
+
+    fireEvent.change(container.querySelector('#mfaCode')!, { target: { value: '123 456' } });
+    fireEvent.click(submit);
+
+    await waitFor(() => expect(mockOnVerified).toHaveBeenCalled());
+    expect(pending.verify).toHaveBeenCalledWith({ code: '123456' });
+  });
+
+  it('should switch to a recovery code', async () => {
+    const { container, getByText } = renderPrompt();
+
+    fireEvent.click(getByText('Use a recovery code instead'));
+    expect(getByText('Recovery code')).toBeTruthy();
+    fireEvent.change(container.querySelector('#mfaCode')!, { target: { value: 'abcd-efgh' } });
+    fireEvent.click(getByText('Verify'));
+
+    await waitFor(() => expect(mockOnVerified).toHaveBeenCalled());
+    expect(pending.verify).toHaveBeenCalledWith({ recovery_code: 'abcd-efgh' });
+  });
+
+  it('should show a wrong code and go back', async () => {
+    pending.verify.mockRejectedValueOnce(new Error('Invalid or expired code'));
+    const { container, getByText, findByText } = renderPrompt();
+
+    fireEvent.change(container.querySelector('#mfaCode')!, { target: { value: '000000' } });
+    fireEvent.click(getByText('Verify'));
+
+    expect(await findByText('Invalid or expired code')).toBeTruthy();
+    expect(mockOnVerified).not.toHaveBeenCalled();
+
+    fireEvent.click(getByText('Back'));
+    expect(mockOnCancel).toHaveBeenCalled();
+  });
+});
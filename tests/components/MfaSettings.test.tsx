@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import MfaSettings from '../../src/components/MfaSettings';
+import { api, ApiError } from '../../src/lib/api';
+import { copySecret } from '../../src/lib/clipboard';
+import { saveExportFile } from '../../src/lib/export';
+
+vi.mock('../../src/lib/api', async () => ({
+  ...(await vi.importActual<typeof import('../../src/lib/api')>('../../src/lib/api')),
+  api: {
+    getAccountEmail: vi.fn(() => 'user@example.com'),
+    getMfaStatus: vi.fn(),
+    setupMfa: vi.fn(),
+    enableMfa: vi.fn(),
+    disableMfa: vi.fn(),
+    regenerateRecoveryCodes: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/lib/clipboard', () => ({
+  copySecret: vi.fn(),
+}));
+
+vi.mock('../../src/lib/export', () => ({
+  saveExportFile: vi.fn(async () => true),
+}));
+
+describe('MfaSettings Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (api.getMfaStatus as any).mockResolvedValue({ enabled: false });
+  });
+
+  it('should enroll an authenticator app and show recovery codes', async () => {
+    (api.setupMfa as any).mockResolvedValue({
+      secret: 'JBSWY3DPEHPK3PXP',
+      otpauth_url: 'otpauth://totp/zCloudPass:user@example.com?secret=JBSWY3DPEHPK3PXP',
+    });
+    (api.enableMfa as any).mockResolvedValue({ recovery_codes: ['abcd-efgh', 'ijkl-mnop'] });
+    const { container, findByText, findByAltText, getByText } = render(<MfaSettings />);
+
+    fireEvent.click(await findByText('Set up authenticator app'));
+
+    const qrCode = (await findByAltText('QR code for your authenticator app')) as HTMLImageElement;
+    expect(qrCode.src.startsWith('data:image/svg+xml')).toBe(true);
+    expect(getByText('JBSW Y3DP EHPK 3PXP')).toBeTruthy();
+
+    fireEvent.change(container.querySelector('#mfaSettingsCode')!, {
+      target: { value: '123456' },
+    });
+    fireEvent.click(getByText('Turn on'));
+
+    expect(await findByText('abcd-efgh')).toBeTruthy();
+    expect(api.enableMfa).toHaveBeenCalledWith('123456');
+    expect(getByText('On · 2 recovery codes left')).toBeTruthy();
+
+    fireEvent.click(getByText('Copy'));
+    expect(copySecret).toHaveBeenCalledWith('abcd-efgh\nijkl-mnop');
+
+    fireEvent.click(getByText('Download'));
+    await waitFor(() => expect(saveExportFile).toHaveBeenCalled());
+    expect((saveExportFile as any).mock.calls[0][0].contents).toContain('ijkl-mnop');
+
+    fireEvent.click(getByText('Done'));
+    expect(container.textContent).not.toContain('abcd-efgh');
+  });
+
+  it('should turn off with a recovery code and report wrong codes', async () => {
+    (api.getMfaStatus as any).mockResolvedValue({ enabled: true, recovery_codes_remaining: 1 });
+    (api.disableMfa as any)
+      .mockRejectedValueOnce(new ApiError(400, 'API error 400: Invalid code'))
+      .mockResolvedValueOnce(undefined);
+    const { container, findByText, getByText, getAllByText } = render(<MfaSettings />);
+
+    expect(await findByText('On · 1 recovery code left')).toBeTruthy();
+    fireEvent.click(getByText('Turn off'));
+    const input = container.querySelector('#mfaSettingsCode')!;
+
+    fireEvent.change(input, { target: { value: '000000' } });
+    fireEvent.click(getAllByText('Turn off')[0]);
+    expect(await findByText('Invalid code')).toBeTruthy();
+
+    fireEvent.change(input, { target: { value: 'abcd-efgh' } });
+    fireEvent.click(getAllByText('Turn off')[0]);
+
+    expect(await findByText('Two-factor authentication is off.')).toBeTruthy();
+    expect(api.disableMfa).toHaveBeenLastCalledWith({ recovery_code: 'abcd-efgh' });
+    expect(getByText('Set up authenticator app')).toBeTruthy();
+  });
+
+  it('should replace the recovery codes', async () => {
+    (api.getMfaStatus as any).mockResolvedValue({ enabled: true, recovery_codes_remaining: 0 });
+    (api.regenerateRecoveryCodes as any).mockResolvedValue({ recovery_codes: ['qrst-uvwx'] });
+    const { container, findByText, getByText } = render(<MfaSettings />);
+
+    fireEvent.click(await findByText('New recovery codes'));
+    fireEvent.change(container.querySelector('#mfaSettingsCode')!, {
+      target: { value: '654 321' },
+    });
+    fireEvent.click(getByText('Create new codes'));
+
+    expect(await findByText('qrst-uvwx')).toBeTruthy();
+    expect(api.regenerateRecoveryCodes).toHaveBeenCalledWith({ code: '654321' });
+  });
+});
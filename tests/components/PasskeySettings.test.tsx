@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import PasskeySettings from '../../src/components/PasskeySettings';
+import { deriveVaultKey } from '../../src/lib/auth';
+import { decryptVault } from '../../src/lib/crypto';
+import { listPasskeys, unlockWithPasskey } from '../../src/lib/passkey';
+import { installVirtualAuthenticator } from '../virtual-authenticator';
+
+vi.mock('../../src/lib/api', () => ({
+  api: {
+    getAccountEmail: vi.fn(() => 'user@example.com'),
+  },
+}));
+
+vi.mock('../../src/lib/auth', () => ({
+  deriveVaultKey: vi.fn(async (password: string) => `key:${password}`),
+}));
+
+vi.mock('../../src/lib/crypto', () => ({
+  decryptVault: vi.fn(),
+}));
+
+vi.mock('../../src/lib/sync', () => ({
+  loadEncryptedVault: vi.fn(async () => ({ encrypted_vault: 'encrypted-data' })),
+}));
+
+describe('PasskeySettings Component', () => {
+  let authenticator: ReturnType<typeof installVirtualAuthenticator>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    authenticator = installVirtualAuthenticator();
+    (decryptVault as any).mockResolvedValue({ entries: [] });
+  });
+
+  afterEach(() => {
+    authenticator.uninstall();
+  });
+
+  const addPasskey = (getByText: (text: string) => HTMLElement, name: string, password: string) => {
+    fireEvent.change(document.querySelector('#passkeyName')!, { target: { value: name } });
+    fireEvent.change(document.querySelector('#passkeyMasterPassword')!, {
+      target: { value: password },
+    });
+    fireEvent.click(getByText('Add passkey'));
+  };
+
+  it('should add a passkey that unwraps the vault key', async () => {
+    const { getByText, findByText } = render(<PasskeySettings />);
+
+    addPasskey(getByText, 'Laptop', 'Secret123');
+
+    expect(await findByText('Laptop')).toBeTruthy();
+    expect(deriveVaultKey).toHaveBeenCalledWith('Secret123');
+    expect(decryptVault).toHaveBeenCalledWith('encrypted-data', 'key:Secret123');
+    expect(await unlockWithPasskey('user@example.com')).toBe('key:Secret123');
+  });
+
+  it('should not add a passkey for a wrong master password', async () => {
+    (decryptVault as any).mockRejectedValueOnce(new Error('OperationError'));
+    const { getByText, findByText } = render(<PasskeySettings />);
+
+    addPasskey(getByText, 'Laptop', 'Wrong');
+
+    expect(await findByText('Master password is incorrect')).toBeTruthy();
+    expect(authenticator.container.create).not.toHaveBeenCalled();
+    expect(listPasskeys('user@example.com')).toEqual([]);
+  });
+
+  it('should remove a passkey', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const { getByText, findByText, getByTitle, queryByText } = render(<PasskeySettings />);
+    addPasskey(getByText, 'Laptop', 'Secret123');
+    await findByText('Laptop');
+
+    fireEvent.click(getByTitle('Remove Laptop'));
+
+    expect(queryByText('Laptop')).toBeNull();
+    expect(listPasskeys('user@example.com')).toEqual([]);
+  });
+
+  it('should explain when passkeys are unavailable', () => {
+    authenticator.uninstall();
+    const { getByText, queryByText } = render(<PasskeySettings />);
+
+    expect(getByText("Passkeys aren't available in this browser.")).toBeTruthy();
+    expect(queryByText('Add passkey')).toBeNull();
+  });
+});
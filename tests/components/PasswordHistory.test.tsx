@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import PasswordHistory from '../../src/components/PasswordHistory';
+
+const history = [
+  { field: 'password', value: 'hunter2', changedAt: Date.UTC(2026, 0, 2) },
+  { field: 'password', value: 'letmein', changedAt: Date.UTC(2026, 0, 1) },
+];
+
+describe('PasswordHistory Component', () => {
+  const onCopy = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should start collapsed', () => {
+    const { getByText, queryAllByTitle } = render(
+      <PasswordHistory history={history} onCopy={onCopy} />
+    );
+
+    expect(getByText('(2)')).toBeTruthy();
+    expect(queryAllByTitle('Copy')).toHaveLength(0);
+  });
+
+  it('should reveal and copy old passwords', () => {
+    const { getByText, getAllByTitle, container } = render(
+      <PasswordHistory history={history} onCopy={onCopy} />
+    );
+
+    fireEvent.click(getByText('Password history'));
+    expect(container.textContent).not.toContain('hunter2');
+
+    fireEvent.click(getAllByTitle('Reveal')[0]);
+    expect(container.textContent).toContain('hunter2');
+    expect(container.textContent).not.toContain('letmein');
+
+    fireEvent.click(getAllByTitle('Copy')[1]);
+    expect(onCopy).toHaveBeenCalledWith('letmein');
+  });
+});
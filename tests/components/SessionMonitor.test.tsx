@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent, waitFor } from '../test-utils';
+import SessionMonitor from '../../src/components/SessionMonitor';
+import { api, ApiError } from '../../src/lib/api';
+import { loginWithMasterPassword } from '../../src/lib/auth';
+import { flushVaultQueue } from '../../src/lib/sync';
+
+vi.mock('../../src/lib/api', async () => ({
+  ...(await vi.importActual<typeof import('../../src/lib/api')>('../../src/lib/api')),
+  api: {
+    isAuthenticated: vi.fn(),
+    getSessionExpiry: vi.fn(),
+    getAccountEmail: vi.fn(() => 'user@example.com'),
+    refreshSession: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/lib/auth', () => ({
+  loginWithMasterPassword: vi.fn(),
+}));
+
+vi.mock('../../src/lib/sync', () => ({
+  flushVaultQueue: vi.fn(),
+}));
+
+const MINUTE = 60 * 1000;
+
+describe('SessionMonitor Component', () => {
+  const mockOnLogout = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (api.isAuthenticated as any).mockReturnValue(true);
+    (api.getSessionExpiry as any).mockReturnValue(Date.now() + 60 * MINUTE);
+    (flushVaultQueue as any).mockResolvedValue('synced');
+  });
+
+  it('should stay out of the way while the session is valid', () => {
+    const { queryByRole } = render(<SessionMonitor onLogout={mockOnLogout} />);
+
+    expect(queryByRole('alert')).toBeNull();
+    expect(queryByRole('dialog')).toBeNull();
+  });
+
+  it('should warn before the session ends when it cannot be refreshed', async () => {
+    (api.getSessionExpiry as any).mockReturnValue(Date.now() + 3 * MINUTE);
+    (api.refreshSession as any).mockRejectedValue(new ApiError(503, 'Unavailable'));
+    const { findByRole, getByText, findByText } = render(
+      <SessionMonitor onLogout={mockOnLogout} />
+    );
+
+    expect((await findByRole('alert')).textContent).toMatch(/Your session ends in [23]:\d\d/);
+
+    fireEvent.click(getByText('Stay signed in'));
+
+    expect(await findByText('Stay Signed In')).toBeTruthy();
+    expect(api.refreshSession).toHaveBeenCalledTimes(2);
+  });
+
+  it('should sign in again without losing an edit in progress', async () => {
+    (api.isAuthenticated as any).mockReturnValue(false);
+    const { container, findByText, getByText, queryByText } = render(
+      <>
+        <input id="draft" defaultValue="" />
+        <SessionMonitor onLogout={mockOnLogout} />
+      </>
+    );
+    fireEvent.change(container.querySelector('#draft')!, { target: { value: 'half-typed' } });
+
+    expect(await findByText('Session Expired')).toBeTruthy();
+
+    (loginWithMasterPassword as any).mockImplementation(async () => {
+      (api.isAuthenticated as any).mockReturnValue(true);
+    });
+    fireEvent.change(document.querySelector('#sessionMasterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Sign in'));
+
+    await waitFor(() => {
+      expect(queryByText('Session Expired')).toBeNull();
+    });
+    expect(loginWithMasterPassword).toHaveBeenCalledWith('user@example.com', 'Secret123');
+    expect(flushVaultQueue).toHaveBeenCalled();
+    expect((container.querySelector('#draft') as HTMLInputElement).value).toBe('half-typed');
+    expect(mockOnLogout).not.toHaveBeenCalled();
+  });
+
+  it('should ask for a second factor when signing in again', async () => {
+    (api.isAuthenticated as any).mockReturnValue(false);
+    const verify = vi.fn(async () => {
+      (api.isAuthenticated as any).mockReturnValue(true);
+    });
+    (loginWithMasterPassword as any).mockResolvedValueOnce({ methods: ['totp'], verify });
+    const { findByText, getByText, queryByText } = render(
+      <SessionMonitor onLogout={mockOnLogout} />
+    );
+    await findByText('Session Expired');
+
+    fireEvent.change(document.querySelector('#sessionMasterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Sign in'));
+    await findByText("Confirm it's you with your second factor.", { exact: false });
+
+    fireEvent.change(document.querySelector('#mfaCode')!, { target: { value: '123456' } });
+    fireEvent.click(getByText('Verify'));
+
+    await waitFor(() => {
+      expect(queryByText('Session Expired')).toBeNull();
+    });
+    expect(verify).toHaveBeenCalledWith({ code: '123456' });
+    expect(flushVaultQueue).toHaveBeenCalled();
+  });
+
+  it('should show sign in errors and allow signing out', async () => {
+    (api.isAuthenticated as any).mockReturnValue(false);
+    (loginWithMasterPassword as any).mockRejectedValue(
+      new Error('Invalid email or master password')
+    );
+    const { findByText, getByText } = render(<SessionMonitor onLogout={mockOnLogout} />);
+    await findByText('Session Expired');
+
+    fireEvent.change(document.querySelector('#sessionMasterPassword')!, {
+      target: { value: 'wrong' },
+    });
+    fireEvent.click(getByText('Sign in'));
+
+    expect(await findByText('Invalid email or master password')).toBeTruthy();
+
+    fireEvent.click(getByText('Sign out'));
+    expect(mockOnLogout).toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,81 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render } from '../test-utils';
+import { render, fireEvent, waitFor } from '../test-utils';
 import Settings from '../../src/components/Settings';
 import { api } from '../../src/lib/api';
+import {
+  decryptVault,
+  deriveCredentials,
+  encryptVault,
+} from '../../src/lib/crypto';
+import { loadEncryptedVault, storeVaultBlob } from '../../src/lib/sync';
+import { listPasskeys } from '../../src/lib/passkey';
 
 // Mock the API
 vi.mock('../../src/lib/api', () => ({
   api: {
+    getAccountEmail: vi.fn(() => 'user@example.com'),
+    getSessionExpiry: vi.fn(() => null),
+    getMfaStatus: vi.fn(async () => ({ enabled: false })),
     changePassword: vi.fn(),
     logout: vi.fn(),
   },
 }));
 
+vi.mock('../../src/lib/auth', () => ({
+  fetchAccountKdf: vi.fn(async () => ({ name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 })),
+  loadAccountKdf: vi.fn(async () => ({ name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 })),
+}));
+
+vi.mock('../../src/lib/sync', () => ({
+  getSyncError: vi.fn(() => ''),
+  loadEncryptedVault: vi.fn(async () => ({ encrypted_vault: null, offline: false })),
+  queueVaultUpdate: vi.fn(),
+  storeVaultBlob: vi.fn(),
+}));
+
+// Mock crypto
+vi.mock('../../src/lib/crypto', () => ({
+  decryptVault: vi.fn(),
+  deriveCredentials: vi.fn(async (password: string) => ({
+    authHash: `auth:${password}`,
+    encryptionKey: `enc:${password}`,
+  })),
+  encryptVault: vi.fn(),
+  createEmptyVault: vi.fn(() => ({ entries: [] })),
+  getVaultKdf: vi.fn(() => ({ name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 })),
+  inspectVault: vi.fn(() => ({
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 },
+    cipher: 'AES-256-GCM',
+  })),
+  benchmarkKdf: vi.fn(async () => 250),
+  DEFAULT_KDF: { name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 },
+  DEFAULT_ARGON2ID: { name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 },
+  KDF_LIMITS: {
+    pbkdf2Iterations: { min: 100000, max: 2000000 },
+    argon2MemoryMiB: { min: 16, max: 1024 },
+    argon2Iterations: { min: 1, max: 10 },
+    argon2Parallelism: { min: 1, max: 8 },
+  },
+}));
+
+const submitPasswordChange = (
+  container: HTMLElement,
+  current: string,
+  next: string,
+) => {
+  fireEvent.change(container.querySelector('#currentPassword')!, {
+    target: { value: current },
+  });
+  fireEvent.change(container.querySelector('#newPassword')!, {
+    target: { value: next },
+  });
+  fireEvent.change(container.querySelector('#confirmPassword')!, {
+    target: { value: next },
+  });
+  fireEvent.submit(container.querySelector('form')!);
+};
+
 describe('Settings Component', () => {
   const mockOnLogout = vi.fn();
   const mockTheme = 'light' as const;
@@ -18,6 +83,7 @@ describe('Settings Component', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    localStorage.clear();
   });
 
   it('should render without crashing', () => {
@@ -140,5 +206,117 @@ describe('Settings Component', () => {
     expect(container).toBeTruthy();
     expect(container.children.length).toBeGreaterThan(0);
   });
-});
 
+  it('should show when the session expires', () => {
+    (api.getSessionExpiry as any).mockReturnValueOnce(Date.UTC(2030, 0, 1));
+    const { getByText } = render(
+      <Settings
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    expect(getByText(/^Expires .*2030/)).toBeTruthy();
+  });
+
+  it('should re-encrypt the vault with the new password when changing it', async () => {
+    const vault = { entries: [{ id: '1', name: 'Test' }] };
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'old-blob', offline: false });
+    (decryptVault as any).mockResolvedValueOnce(vault);
+    (encryptVault as any).mockResolvedValueOnce('new-blob');
+    // Earlier tests queue results they never submit
+    (api.changePassword as any).mockReset().mockResolvedValue({ revision: 'r2' });
+
+    const { container } = render(
+      <Settings
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+    submitPasswordChange(container, 'OldPassword1', 'NewPassword1');
+
+    await waitFor(() => {
+      expect(api.changePassword).toHaveBeenCalledWith({
+        current_password_hash: 'auth:OldPassword1',
+        new_password_hash: 'auth:NewPassword1',
+        encrypted_vault: 'new-blob',
+      });
+    });
+    const accountKdf = { name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 };
+    expect(deriveCredentials).toHaveBeenCalledWith('OldPassword1', 'user@example.com', accountKdf);
+    expect(deriveCredentials).toHaveBeenCalledWith('NewPassword1', 'user@example.com', accountKdf);
+    expect(decryptVault).toHaveBeenCalledWith('old-blob', 'enc:OldPassword1');
+    expect(encryptVault).toHaveBeenCalledWith(vault, 'enc:NewPassword1', {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: 600000,
+    });
+    await waitFor(() => {
+      expect(storeVaultBlob).toHaveBeenCalledWith('new-blob', 'r2');
+    });
+  });
+
+  it('should drop passkeys holding the old vault key after a password change', async () => {
+    localStorage.setItem(
+      'vault_passkeys',
+      JSON.stringify([
+        { id: 'a', email: 'user@example.com', name: 'Laptop' },
+        { id: 'b', email: 'other@example.com', name: 'Other' },
+      ])
+    );
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: null, offline: false });
+    // Earlier tests queue results they never submit
+    (api.changePassword as any).mockReset().mockResolvedValue({});
+
+    const { container, findByText } = render(
+      <Settings
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+    submitPasswordChange(container, 'OldPassword1', 'NewPassword1');
+
+    await findByText(/Password changed successfully/);
+    expect(listPasskeys('user@example.com')).toEqual([]);
+    expect(listPasskeys('other@example.com')).toHaveLength(1);
+  });
+
+  it('should not change the password while offline', async () => {
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'old-blob', offline: true });
+
+    const { container, findByText } = render(
+      <Settings
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+    submitPasswordChange(container, 'OldPassword1', 'NewPassword1');
+
+    expect(
+      await findByText("You're offline. Reconnect to change your password.")
+    ).toBeTruthy();
+    expect(api.changePassword).not.toHaveBeenCalled();
+  });
+
+  it('should not change the password if the vault cannot be decrypted', async () => {
+    (loadEncryptedVault as any).mockResolvedValue({ encrypted_vault: 'old-blob', offline: false });
+    (decryptVault as any).mockRejectedValueOnce(new Error('Failed to decrypt vault'));
+
+    const { container, findByText } = render(
+      <Settings
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+    submitPasswordChange(container, 'WrongPassword', 'NewPassword1');
+
+    expect(await findByText('Current master password is incorrect')).toBeTruthy();
+    expect(api.changePassword).not.toHaveBeenCalled();
+    expect(mockOnLogout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import SyncStatus from '../../src/components/SyncStatus';
+import { flushVaultQueue, getSyncError, getSyncState } from '../../src/lib/sync';
+
+vi.mock('../../src/lib/sync', () => ({
+  flushVaultQueue: vi.fn(async () => 'synced'),
+  getSyncError: vi.fn(() => ''),
+  getSyncState: vi.fn(() => 'synced'),
+  subscribeSyncState: vi.fn(() => () => {}),
+}));
+
+describe('SyncStatus Component', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getSyncState as any).mockReturnValue('synced');
+    (getSyncError as any).mockReturnValue('');
+  });
+
+  it('should show the current sync state', () => {
+    (getSyncState as any).mockReturnValue('pending');
+    const { getByText } = render(<SyncStatus />);
+    expect(getByText('Pending')).toBeTruthy();
+  });
+
+  it('should include the error message in the title', () => {
+    (getSyncState as any).mockReturnValue('error');
+    (getSyncError as any).mockReturnValue('Vault too large');
+    const { getByRole } = render(<SyncStatus />);
+    expect(getByRole('button').getAttribute('title')).toContain('Vault too large');
+  });
+
+  it('should retry syncing when clicked', () => {
+    const { getByRole } = render(<SyncStatus />);
+    fireEvent.click(getByRole('button'));
+    expect(flushVaultQueue).toHaveBeenCalled();
+  });
+});
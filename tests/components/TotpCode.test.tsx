@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, fireEvent } from '../test-utils';
+import TotpCode from '../../src/components/TotpCode';
+
+// Base32 of the RFC 4226 seed "12345678901234567890"
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TotpCode Component', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should show the current code and seconds remaining', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(59 * 1000);
+
+    const { findByText, getByTitle } = render(
+      <TotpCode uri={SECRET} onCopy={vi.fn()} />
+    );
+
+    expect(await findByText('287 082')).toBeTruthy();
+    expect(getByTitle('1s remaining')).toBeTruthy();
+  });
+
+  it('should copy the unformatted code', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(59 * 1000);
+    const onCopy = vi.fn();
+
+    const { findByText, getByTitle } = render(
+      <TotpCode
+        uri={`otpauth://totp/Example:alice?secret=${SECRET}&issuer=Example`}
+        onCopy={onCopy}
+      />
+    );
+
+    await findByText('287 082');
+    fireEvent.click(getByTitle('Copy code'));
+
+    expect(onCopy).toHaveBeenCalledWith('287082');
+  });
+
+  it('should report an invalid key', () => {
+    const { getByText } = render(<TotpCode uri="not a secret!" onCopy={vi.fn()} />);
+
+    expect(getByText('Invalid base32 character in secret')).toBeTruthy();
+  });
+});
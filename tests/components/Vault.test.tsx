@@ -1,22 +1,35 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, waitFor } from '../test-utils';
+import { render, waitFor, fireEvent, act } from '../test-utils';
+import { MemoryRouter } from 'react-router-dom';
 import Vault from '../../src/components/Vault';
-import { api } from '../../src/lib/api';
-import { decryptVault } from '../../src/lib/crypto';
+import { api, ApiError } from '../../src/lib/api';
+import { decryptVault, encryptVault } from '../../src/lib/crypto';
+import { clearOfflineBreachFile, loadOfflineBreachFile } from '../../src/lib/breach';
+import { enrollPasskey } from '../../src/lib/passkey';
+import { installVirtualAuthenticator } from '../virtual-authenticator';
 
 // Mock the API
-vi.mock('../../src/lib/api', () => ({
+vi.mock('../../src/lib/api', async () => ({
+  ApiError: (await vi.importActual<typeof import('../../src/lib/api')>('../../src/lib/api'))
+    .ApiError,
   api: {
     getVault: vi.fn(),
     updateVault: vi.fn(),
     logout: vi.fn(),
+    checkHealth: vi.fn(),
+    getAccountEmail: vi.fn(() => 'user@example.com'),
   },
 }));
 
+vi.mock('../../src/lib/auth', () => ({
+  deriveVaultKey: vi.fn(async () => 'vault-key'),
+}));
+
 // Mock crypto
 vi.mock('../../src/lib/crypto', () => ({
   decryptVault: vi.fn(),
   encryptVault: vi.fn(),
+  getVaultKdf: vi.fn(),
   createEmptyVault: vi.fn(() => ({ entries: [] })),
   generatePassword: vi.fn(),
 }));
@@ -264,5 +277,679 @@ describe('Vault Component', () => {
 
     expect(container).toBeTruthy();
   });
-});
 
+  it('should show typed entries and treat legacy entries as logins', async () => {
+    // Earlier tests queue decrypt results they never consume
+    (decryptVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+    (decryptVault as any).mockResolvedValueOnce({
+      entries: [
+        { id: '1', name: 'Legacy Login', username: 'legacy-user' },
+        {
+          id: '2',
+          type: 'card',
+          name: 'Travel Card',
+          cardholderName: 'Jane Doe',
+          number: '4111111111111111',
+        },
+      ],
+    });
+
+    const { container, findByText, getByText } = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+
+    expect(await findByText('legacy-user')).toBeTruthy();
+    expect(getByText('Jane Doe')).toBeTruthy();
+
+    fireEvent.click(getByText('Travel Card'));
+
+    expect(await findByText('Card Number')).toBeTruthy();
+    expect(container.textContent).not.toContain('4111111111111111');
+  });
+
+  it('should mask hidden custom fields until revealed', async () => {
+    (decryptVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+    (decryptVault as any).mockResolvedValueOnce({
+      entries: [
+        {
+          id: '1',
+          type: 'login',
+          name: 'Bank',
+          fields: [
+            { id: 'f1', name: 'Account Number', type: 'text', value: '12345678' },
+            { id: 'f2', name: 'Phone PIN', type: 'hidden', value: '9876' },
+          ],
+        },
+      ],
+    });
+
+    const { container, findByText, getByText } = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+    fireEvent.click(await findByText('Bank'));
+
+    expect(await findByText('12345678')).toBeTruthy();
+    expect(container.textContent).not.toContain('9876');
+
+    const pinCard = getByText('Phone PIN').closest('div.rounded-xl')!;
+    fireEvent.click(pinCard.querySelector('button')!);
+
+    expect(await findByText('9876')).toBeTruthy();
+  });
+
+  it('should show a one-time code for entries with an authenticator key', async () => {
+    (decryptVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+    (decryptVault as any).mockResolvedValueOnce({
+      entries: [
+        {
+          id: '1',
+          type: 'login',
+          name: 'GitHub',
+          totp: 'otpauth://totp/GitHub:dev?secret=GEZDGNBVGY3TQOJQ&issuer=GitHub',
+        },
+      ],
+    });
+
+    const { container, findByText, getByText } = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+    fireEvent.click(await findByText('GitHub'));
+
+    expect(await findByText('One-Time Code')).toBeTruthy();
+    await waitFor(() => {
+      expect(container.textContent).toMatch(/\d{3} \d{3}/);
+    });
+  });
+
+  it('should merge changes from another device when a save conflicts', async () => {
+    const github = { id: '1', type: 'login', name: 'GitHub' };
+    const mail = { id: '2', type: 'login', name: 'Mail' };
+    const bank = { id: '3', type: 'login', name: 'Bank' };
+    const blobs: Record<string, { entries: any[] }> = {
+      v1: { entries: [github, mail] },
+      v2: { entries: [github, mail, bank] },
+      local: { entries: [mail] },
+    };
+    (decryptVault as any).mockReset();
+    (decryptVault as any).mockImplementation(async (blob: string) => blobs[blob]);
+    (encryptVault as any).mockReset();
+    (encryptVault as any).mockImplementation(async (vault: { entries: any[] }) =>
+      vault.entries.length === 1 ? 'local' : 'merged'
+    );
+    (api.getVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'v1', revision: 'r1' });
+    (api.updateVault as any).mockReset();
+    (api.updateVault as any)
+      .mockRejectedValueOnce(new ApiError(412, 'The vault was changed on another device'))
+      .mockResolvedValue({ revision: 'r3' });
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    const { container, findByText, getByText, queryByText } = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+    fireEvent.click(await findByText('GitHub'));
+
+    // Another device adds an entry before this one deletes GitHub
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'v2', revision: 'r2' });
+    fireEvent.click(container.querySelector('[class*="lucide-trash"]')!.closest('button')!);
+
+    expect(await findByText('Bank')).toBeTruthy();
+    expect(api.updateVault).toHaveBeenNthCalledWith(1, { encrypted_vault: 'local' }, 'r1');
+    expect(api.updateVault).toHaveBeenLastCalledWith({ encrypted_vault: 'merged' }, 'r2');
+    expect(queryByText('GitHub')).toBeNull();
+    expect(getByText('Mail')).toBeTruthy();
+  });
+
+  it('should ask which version to keep when both devices changed an entry', async () => {
+    const github = { id: '1', type: 'login', name: 'GitHub', username: 'octocat' };
+    const rotated = { ...github, username: 'rotated', updatedAt: 2 };
+    const mail = { id: '2', type: 'login', name: 'Mail' };
+    const blobs: Record<string, { entries: any[] }> = {
+      v1: { entries: [github, mail] },
+      v2: { entries: [rotated, mail] },
+      local: { entries: [mail] },
+    };
+    (decryptVault as any).mockReset();
+    (decryptVault as any).mockImplementation(async (blob: string) => blobs[blob]);
+    (encryptVault as any).mockReset();
+    (encryptVault as any).mockImplementation(async (vault: { entries: any[] }) =>
+      vault.entries.length === 1 ? 'local' : 'merged'
+    );
+    (api.getVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'v1', revision: 'r1' });
+    (api.updateVault as any).mockReset();
+    (api.updateVault as any)
+      .mockRejectedValueOnce(new ApiError(412, 'The vault was changed on another device'))
+      .mockResolvedValue({ revision: 'r3' });
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    const { container, findByText, getByText } = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+    fireEvent.click(await findByText('GitHub'));
+
+    // Another device edits the entry this one deletes
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'v2', revision: 'r2' });
+    fireEvent.click(container.querySelector('[class*="lucide-trash"]')!.closest('button')!);
+
+    fireEvent.click(await findByText("Keep other device's"));
+    fireEvent.click(getByText('Apply'));
+
+    await waitFor(() => {
+      expect(api.updateVault).toHaveBeenLastCalledWith({ encrypted_vault: 'merged' }, 'r2');
+    });
+    const [merged] = (encryptVault as any).mock.calls.at(-1);
+    expect(merged.entries).toEqual([mail, rotated]);
+    expect(merged.tombstones).toEqual([]);
+  });
+
+  it('should keep the old password in the history when it is changed', async () => {
+    (decryptVault as any).mockReset();
+    (decryptVault as any).mockResolvedValue({
+      entries: [{ id: '1', type: 'login', name: 'GitHub', password: 'old-pass' }],
+    });
+    (encryptVault as any).mockReset();
+    (encryptVault as any).mockResolvedValue('encrypted');
+    (api.getVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+    (api.updateVault as any).mockReset();
+    (api.updateVault as any).mockResolvedValue({});
+
+    const { container, findByText, getByText } = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+    fireEvent.click(await findByText('GitHub'));
+    fireEvent.click(container.querySelector('[class*="lucide-pencil"]')!.closest('button')!);
+    fireEvent.change(container.querySelector('#password')!, {
+      target: { value: 'new-pass' },
+    });
+    fireEvent.click(getByText('Save Entry'));
+
+    expect(await findByText('Password history')).toBeTruthy();
+    const [saved] = (encryptVault as any).mock.calls.at(-1);
+    expect(saved.entries[0]).toMatchObject({
+      password: 'new-pass',
+      passwordHistory: [{ field: 'password', value: 'old-pass' }],
+    });
+  });
+
+  const unlockWith = async (entries: any[], rest: object = {}) => {
+    (decryptVault as any).mockReset();
+    (decryptVault as any).mockResolvedValue({ entries, ...rest });
+    (encryptVault as any).mockReset();
+    (encryptVault as any).mockResolvedValue('encrypted');
+    (api.getVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+    (api.updateVault as any).mockReset();
+    (api.updateVault as any).mockResolvedValue({});
+
+    const utils = render(
+      <Vault
+        onLogout={mockOnLogout}
+        theme={mockTheme}
+        toggleTheme={mockToggleTheme}
+      />
+    );
+    await utils.findByText('Unlock Now');
+    fireEvent.change(utils.container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(utils.getByText('Unlock Now'));
+    await utils.findByText(entries[0].name);
+    return utils;
+  };
+
+  it('should sort entries and remember the choice', async () => {
+    const { container, unmount } = await unlockWith([
+      { id: '1', type: 'login', name: 'Bank', updatedAt: 1 },
+      { id: '2', type: 'login', name: 'Amazon', updatedAt: 2 },
+    ]);
+    const listedNames = () =>
+      Array.from(container.querySelectorAll('aside .font-semibold'))
+        .map((el) => el.textContent)
+        .filter((name) => name !== 'New Entry');
+
+    expect(listedNames()).toEqual(['Amazon', 'Bank']);
+
+    fireEvent.change(container.querySelector('#entrySort')!, {
+      target: { value: 'updated' },
+    });
+    expect(listedNames()).toEqual(['Amazon', 'Bank']);
+    expect(localStorage.getItem('vault_sort')).toBe('updated');
+    unmount();
+
+    const second = await unlockWith([
+      { id: '1', type: 'login', name: 'Bank', updatedAt: 3 },
+      { id: '2', type: 'login', name: 'Amazon', updatedAt: 2 },
+    ]);
+    expect((second.container.querySelector('#entrySort') as HTMLSelectElement).value).toBe(
+      'updated'
+    );
+  });
+
+  it('should record when an entry was last used', async () => {
+    Object.assign(navigator, { clipboard: { writeText: vi.fn() } });
+    const { container, getByText } = await unlockWith([
+      { id: '1', type: 'login', name: 'GitHub', password: 'hunter2', updatedAt: 1 },
+    ]);
+
+    fireEvent.click(getByText('GitHub'));
+    fireEvent.click(container.querySelector('main [class*="lucide-copy"]')!.closest('button')!);
+
+    await waitFor(() => {
+      expect(encryptVault).toHaveBeenCalled();
+    });
+    const [saved] = (encryptVault as any).mock.calls.at(-1);
+    expect(saved.entries[0].lastUsedAt).toEqual(expect.any(Number));
+    expect(saved.entries[0].updatedAt).toBe(1);
+  });
+
+  describe('folders and tags', () => {
+    const folders = [
+      { id: 'work', name: 'Work' },
+      { id: 'servers', name: 'Servers', parentId: 'work' },
+    ];
+    const entries = [
+      { id: '1', type: 'login', name: 'GitHub', folderId: 'work', tags: ['dev'] },
+      { id: '2', type: 'login', name: 'Prod DB', folderId: 'servers' },
+      { id: '3', type: 'login', name: 'Netflix' },
+    ];
+    const listed = (container: HTMLElement) =>
+      Array.from(container.querySelectorAll('aside button[draggable] .font-semibold')).map(
+        (el) => el.textContent
+      );
+
+    it('should filter the list by folder, including subfolders, and by tag', async () => {
+      const { container, getByText, getAllByText } = await unlockWith(entries, { folders });
+
+      fireEvent.click(getByText('Work'));
+      expect(listed(container)).toEqual(['GitHub', 'Prod DB']);
+
+      fireEvent.click(getByText('Servers'));
+      expect(listed(container)).toEqual(['Prod DB']);
+
+      fireEvent.click(getAllByText('dev')[0]);
+      expect(listed(container)).toEqual(['GitHub']);
+
+      fireEvent.click(getByText('All entries'));
+      expect(listed(container)).toHaveLength(3);
+    });
+
+    it('should show the folder and tags of an entry and save them from the form', async () => {
+      const { container, getByText, findByText } = await unlockWith(entries, { folders });
+
+      fireEvent.click(getByText('GitHub'));
+      expect(getByText('Work', { selector: 'main span' })).toBeTruthy();
+
+      fireEvent.click(container.querySelector('main [class*="lucide-pencil"]')!.closest('button')!);
+      fireEvent.change(container.querySelector('#folder')!, { target: { value: 'servers' } });
+      fireEvent.change(container.querySelector('#tags')!, {
+        target: { value: 'dev, shared, Dev' },
+      });
+      fireEvent.click(getByText('Save Entry'));
+
+      expect(await findByText('Work / Servers')).toBeTruthy();
+      const [saved] = (encryptVault as any).mock.calls.at(-1);
+      expect(saved.entries[0]).toMatchObject({ folderId: 'servers', tags: ['dev', 'shared'] });
+    });
+
+    it('should create folders inside the vault', async () => {
+      vi.spyOn(window, 'prompt').mockReturnValue('Banking');
+      const { getByTitle, findByText } = await unlockWith(entries, { folders });
+
+      fireEvent.click(getByTitle('New folder'));
+
+      expect(await findByText('Banking')).toBeTruthy();
+      const [saved] = (encryptVault as any).mock.calls.at(-1);
+      expect(saved.folders).toHaveLength(3);
+      expect(saved.folders[2]).toMatchObject({ name: 'Banking' });
+    });
+
+    it('should move and tag selected entries in bulk', async () => {
+      const { getByTitle, getByLabelText, getByText } = await unlockWith(entries, { folders });
+
+      fireEvent.click(getByTitle('Select entries'));
+      fireEvent.click(getByText('GitHub'));
+      fireEvent.click(getByLabelText('Select Netflix'));
+      expect(getByText('2 selected')).toBeTruthy();
+
+      fireEvent.change(getByLabelText('Move selected to folder'), {
+        target: { value: 'servers' },
+      });
+      await waitFor(() => {
+        expect(encryptVault).toHaveBeenCalled();
+      });
+      let [saved] = (encryptVault as any).mock.calls.at(-1);
+      expect(saved.entries.map((e: any) => e.folderId)).toEqual([
+        'servers',
+        'servers',
+        'servers',
+      ]);
+
+      fireEvent.change(getByLabelText('Tag selected entries'), { target: { value: 'streaming' } });
+      fireEvent.click(getByText('Tag'));
+      await waitFor(() => {
+        [saved] = (encryptVault as any).mock.calls.at(-1);
+        expect(saved.entries[2].tags).toEqual(['streaming']);
+      });
+      expect(saved.entries[0].tags).toEqual(['dev', 'streaming']);
+      expect(saved.entries[1].tags).toBeUndefined();
+    });
+
+    it('should move an entry dragged onto a folder', async () => {
+      const { getByText } = await unlockWith(entries, { folders });
+      const data: Record<string, string> = {};
+      const dataTransfer = {
+        get types() {
+          return Object.keys(data);
+        },
+        setData: (type: string, value: string) => {
+          data[type] = value;
+        },
+        getData: (type: string) => data[type] ?? '',
+      };
+
+      fireEvent.dragStart(getByText('Netflix').closest('button')!, { dataTransfer });
+      fireEvent.dragOver(getByText('Servers').parentElement!, { dataTransfer });
+      fireEvent.drop(getByText('Servers').parentElement!, { dataTransfer });
+
+      await waitFor(() => {
+        expect(encryptVault).toHaveBeenCalled();
+      });
+      const [saved] = (encryptVault as any).mock.calls.at(-1);
+      expect(saved.entries[2]).toMatchObject({ name: 'Netflix', folderId: 'servers' });
+    });
+  });
+
+  describe('favorites', () => {
+    const entries = [
+      { id: '1', type: 'login', name: 'Amazon', username: 'me', updatedAt: 1 },
+      { id: '2', type: 'login', name: 'GitHub', username: 'me', updatedAt: 1 },
+      { id: '3', type: 'login', name: 'Gmail', username: 'me', favorite: true, updatedAt: 1 },
+    ];
+    const listed = (container: HTMLElement) =>
+      Array.from(container.querySelectorAll('aside button[draggable] .font-semibold')).map(
+        (el) => el.textContent
+      );
+
+    it('should pin favorites above the rest of the list', async () => {
+      const { container, getByText, getByTitle, queryByText } = await unlockWith(entries);
+
+      expect(getByText('Favorites')).toBeTruthy();
+      expect(listed(container)).toEqual(['Gmail', 'Amazon', 'GitHub']);
+
+      fireEvent.click(getByTitle('Remove from favorites'));
+      await waitFor(() => {
+        expect(queryByText('Favorites')).toBeNull();
+      });
+      expect(listed(container)).toEqual(['Amazon', 'GitHub', 'Gmail']);
+    });
+
+    it('should rank favorites first in search results', async () => {
+      const { container } = await unlockWith(entries);
+
+      fireEvent.change(container.querySelector('header input')!, {
+        target: { value: 'g' },
+      });
+
+      expect(listed(container)).toEqual(['Gmail', 'GitHub']);
+    });
+
+    it('should toggle favorites from the list and the detail view', async () => {
+      const { container, getAllByTitle, getByText } = await unlockWith(entries);
+
+      fireEvent.click(getAllByTitle('Add to favorites')[0]);
+
+      await waitFor(() => {
+        expect(listed(container)).toEqual(['Amazon', 'Gmail', 'GitHub']);
+      });
+      let [saved] = (encryptVault as any).mock.calls.at(-1);
+      expect(saved.entries[0].favorite).toBe(true);
+      expect(saved.entries[0].updatedAt).not.toBe(1);
+
+      fireEvent.click(getByText('GitHub'));
+      fireEvent.click(container.querySelector('main [title="Add to favorites"]')!);
+      await waitFor(() => {
+        [saved] = (encryptVault as any).mock.calls.at(-1);
+        expect(saved.entries[1].favorite).toBe(true);
+      });
+    });
+    it('should keep both favorites when starred before the first is saved', async () => {
+      const { container, getAllByTitle, getByText } = await unlockWith(entries);
+      const [amazon, github] = getAllByTitle('Add to favorites');
+
+      // Both clicks land before the first save has re-rendered the list
+      act(() => {
+        fireEvent.click(amazon);
+        fireEvent.click(github);
+      });
+
+      await waitFor(() => {
+        expect(listed(container)).toEqual(['Amazon', 'GitHub', 'Gmail']);
+      });
+      expect(encryptVault).toHaveBeenCalledTimes(2);
+      const [saved] = (encryptVault as any).mock.calls.at(-1);
+      expect(saved.entries.map((e: any) => e.favorite)).toEqual([true, true, true]);
+      expect(getByText('Favorites')).toBeTruthy();
+    });
+  });
+
+  describe('search', () => {
+    const entries = [
+      { id: '1', type: 'login', name: 'GitHub', username: 'alice', url: 'https://github.com' },
+      { id: '2', type: 'login', name: 'Gitea', username: 'bob', tags: ['work'] },
+      { id: '3', type: 'note', name: 'Wi-Fi', notes: 'router is in the hallway' },
+    ];
+    const search = (container: HTMLElement, value: string) =>
+      fireEvent.change(container.querySelector('header input')!, { target: { value } });
+    const listed = (container: HTMLElement) =>
+      Array.from(container.querySelectorAll('aside button[draggable] .font-semibold')).map(
+        (el) => el.textContent
+      );
+
+    it('should support field-scoped queries', async () => {
+      const { container } = await unlockWith(entries);
+
+      search(container, 'user:bob');
+      expect(listed(container)).toEqual(['Gitea']);
+
+      search(container, 'tag:work git');
+      expect(listed(container)).toEqual(['Gitea']);
+
+      search(container, 'hallway');
+      expect(listed(container)).toEqual(['Wi-Fi']);
+    });
+
+    it('should highlight matched characters in the list', async () => {
+      const { container } = await unlockWith(entries);
+
+      search(container, 'ghb');
+
+      expect(listed(container)).toEqual(['GitHub']);
+      expect(
+        Array.from(container.querySelectorAll('aside mark')).map((el) => el.textContent)
+      ).toEqual(['G', 'H', 'b']);
+    });
+  });
+
+  it('should auto-lock when the window is hidden', async () => {
+    localStorage.setItem(
+      'auto_lock',
+      JSON.stringify({ idleMinutes: 0, lockOnHide: true, lockOnSleep: false })
+    );
+    const { findByText, queryByText } = await unlockWith([
+      { id: '1', type: 'login', name: 'GitHub', password: 'hunter2' },
+    ]);
+
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => true });
+    document.dispatchEvent(new Event('visibilitychange'));
+
+    expect(await findByText('Unlock Now')).toBeTruthy();
+    expect(queryByText('GitHub')).toBeNull();
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => false });
+  });
+
+  it('should not bring the vault back when a save finishes after locking', async () => {
+    const { getByTitle, getAllByTitle, findByText, queryByText } = await unlockWith([
+      { id: '1', type: 'login', name: 'Amazon', password: 'hunter2' },
+      { id: '2', type: 'login', name: 'GitHub', password: 'hunter3' },
+    ]);
+    let finishEncrypt!: (blob: string) => void;
+    (encryptVault as any).mockImplementationOnce(
+      () => new Promise((resolve) => (finishEncrypt = resolve))
+    );
+
+    // The second save waits behind the first
+    const [amazon, github] = getAllByTitle('Add to favorites');
+    act(() => {
+      fireEvent.click(amazon);
+      fireEvent.click(github);
+    });
+    await waitFor(() => {
+      expect(encryptVault).toHaveBeenCalledTimes(1);
+    });
+    fireEvent.click(getByTitle('Lock Vault'));
+    expect(await findByText('Unlock Now')).toBeTruthy();
+
+    await act(async () => {
+      finishEncrypt('encrypted');
+    });
+
+    // The change made before locking still reaches the server
+    await waitFor(() => {
+      expect(api.updateVault).toHaveBeenCalled();
+    });
+    expect(encryptVault).toHaveBeenCalledTimes(1);
+    expect(queryByText('Amazon')).toBeNull();
+  });
+
+  it('should unlock with a passkey', async () => {
+    const authenticator = installVirtualAuthenticator();
+    await enrollPasskey('user@example.com', 'vault-key', 'Laptop');
+    (decryptVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+    (decryptVault as any).mockResolvedValue({
+      entries: [{ id: '1', type: 'login', name: 'GitHub', password: 'hunter2' }],
+    });
+
+    const { findByText, queryByText } = render(
+      <Vault onLogout={mockOnLogout} theme={mockTheme} toggleTheme={mockToggleTheme} />
+    );
+    fireEvent.click(await findByText('Unlock with passkey'));
+
+    expect(await findByText('GitHub')).toBeTruthy();
+    expect(decryptVault).toHaveBeenCalledWith('encrypted-data', 'vault-key');
+    expect(queryByText('Unlock Now')).toBeNull();
+    authenticator.uninstall();
+  });
+
+  it('should badge entries with breached passwords', async () => {
+    // SHA-1 of 'password'
+    loadOfflineBreachFile('5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8:3861493\n');
+    const { findByTitle, getAllByTitle, getByText, findByText } = await unlockWith([
+      { id: '1', type: 'login', name: 'GitHub', password: 'password' },
+      { id: '2', type: 'login', name: 'Gmail', password: 'x7#Kq9!mZ2@w' },
+    ]);
+
+    expect(await findByTitle('Password found in 3,861,493 known breaches')).toBeTruthy();
+    expect(getAllByTitle(/known breach/)).toHaveLength(1);
+
+    fireEvent.click(getByText('GitHub'));
+    expect(await findByText(/Change it as soon as you can/)).toBeTruthy();
+    clearOfflineBreachFile();
+  });
+
+  it('should open an entry for editing when sent from the health report', async () => {
+    (decryptVault as any).mockReset();
+    (decryptVault as any).mockResolvedValue({
+      entries: [
+        { id: '1', type: 'login', name: 'GitHub', password: 'password' },
+        { id: '2', type: 'login', name: 'Gmail', password: 'hunter2' },
+      ],
+    });
+    (api.getVault as any).mockReset();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'encrypted-data' });
+
+    const { container, getByText, findByText } = render(
+      <Vault onLogout={mockOnLogout} theme={mockTheme} toggleTheme={mockToggleTheme} />,
+      {
+        wrapper: ({ children }) => (
+          <MemoryRouter initialEntries={[{ pathname: '/vault', state: { editEntryId: '2' } }]}>
+            {children}
+          </MemoryRouter>
+        ),
+      }
+    );
+    await findByText('Unlock Now');
+    fireEvent.change(container.querySelector('#masterPassword')!, {
+      target: { value: 'Secret123' },
+    });
+    fireEvent.click(getByText('Unlock Now'));
+
+    expect(await findByText('Edit Entry')).toBeTruthy();
+    expect((container.querySelector('#name') as HTMLInputElement).value).toBe('Gmail');
+  });
+});
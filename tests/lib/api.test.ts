@@ -1,16 +1,28 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { api } from '../../src/lib/api';
+import { api, ApiError } from '../../src/lib/api';
+import { createCookieTokenStore, createMemoryTokenStore, type TokenStore } from '../../src/lib/tokens';
 
 // Mock fetch globally
 global.fetch = vi.fn();
 
 describe('API Client', () => {
+  let tokens: TokenStore;
+
+  // Start a session as if it was kept from an earlier run
+  const signIn = async (token: string) => {
+    localStorage.setItem('account_email', 'user@example.com');
+    await tokens.save(token);
+    await api.restoreSession();
+  };
+
   beforeEach(() => {
     // Clear all mocks before each test
     vi.clearAllMocks();
     // Clear localStorage before each test
     localStorage.clear();
     console.log = vi.fn();
+    tokens = createMemoryTokenStore();
+    api.useTokenStore(tokens);
   });
 
   afterEach(() => {
@@ -28,7 +40,7 @@ describe('API Client', () => {
 
       const result = await api.register({
         email: 'test@example.com',
-        master_password: 'TestPassword123',
+        master_password_hash: 'auth-hash-123',
       });
 
       expect(global.fetch).toHaveBeenCalledWith(
@@ -52,7 +64,7 @@ describe('API Client', () => {
       await expect(
         api.register({
           email: 'existing@example.com',
-          master_password: 'TestPassword123',
+          master_password_hash: 'auth-hash-123',
         })
       ).rejects.toThrow('API error 409');
     });
@@ -68,7 +80,7 @@ describe('API Client', () => {
       await api.register({
         username: 'testuser',
         email: 'user@example.com',
-        master_password: 'TestPassword123',
+        master_password_hash: 'auth-hash-123',
         encrypted_vault: 'encrypted-data-here',
       });
 
@@ -80,6 +92,24 @@ describe('API Client', () => {
     });
   });
 
+  describe('prelogin', () => {
+    it("should fetch the account's KDF without a session", async () => {
+      const kdf = { name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 };
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ kdf }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      });
+
+      await expect(api.prelogin('test@example.com')).resolves.toEqual({ kdf });
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      expect(url).toContain('/auth/prelogin');
+      expect(JSON.parse(init.body)).toEqual({ email: 'test@example.com' });
+      expect(init.headers.Authorization).toBeUndefined();
+    });
+  });
+
   describe('login', () => {
     it('should send login request and store session token', async () => {
       const mockResponse = {
@@ -94,11 +124,51 @@ describe('API Client', () => {
 
       const result = await api.login({
         email: 'test@example.com',
-        master_password: 'TestPassword123',
+        master_password_hash: 'auth-hash-123',
       });
 
       expect(result.session_token).toBe('test-token-123');
-      expect(localStorage.getItem('session_token')).toBe('test-token-123');
+      expect(await tokens.load()).toBe('test-token-123');
+      expect(api.getAccountEmail()).toBe('test@example.com');
+    });
+
+    it('should only send the password hash', async () => {
+      const mockResponse = {
+        ok: true,
+        json: async () => ({
+          session_token: 'token',
+          expires_at: '2024-12-31T00:00:00Z',
+        }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      };
+      (global.fetch as any).mockResolvedValueOnce(mockResponse);
+
+      await api.login({
+        email: 'test@example.com',
+        master_password_hash: 'auth-hash-123',
+      });
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body).toEqual({
+        email: 'test@example.com',
+        master_password_hash: 'auth-hash-123',
+      });
+    });
+
+    it('should reject with an ApiError carrying the status', async () => {
+      const mockResponse = {
+        ok: false,
+        status: 401,
+        text: async () => 'Invalid credentials',
+      };
+      (global.fetch as any).mockResolvedValueOnce(mockResponse);
+
+      const error = await api
+        .login({ email: 'test@example.com', master_password_hash: 'bad' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(401);
     });
 
     it('should handle login errors', async () => {
@@ -112,7 +182,7 @@ describe('API Client', () => {
       await expect(
         api.login({
           email: 'test@example.com',
-          master_password: 'WrongPassword',
+          master_password_hash: 'wrong-hash',
         })
       ).rejects.toThrow('Session expired');
     });
@@ -130,7 +200,7 @@ describe('API Client', () => {
 
       await api.login({
         email: 'test@example.com',
-        master_password: 'TestPassword123',
+        master_password_hash: 'auth-hash-123',
       });
 
       expect(global.fetch).toHaveBeenCalledWith(
@@ -143,9 +213,81 @@ describe('API Client', () => {
     });
   });
 
+  describe('loginLegacy', () => {
+    it('should send the raw master password and store the session', async () => {
+      const mockResponse = {
+        ok: true,
+        json: async () => ({
+          session_token: 'legacy-token',
+          expires_at: '2024-12-31T00:00:00Z',
+        }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      };
+      (global.fetch as any).mockResolvedValueOnce(mockResponse);
+
+      await api.loginLegacy({
+        email: 'old@example.com',
+        master_password: 'LegacyPassword',
+      });
+
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body.master_password).toBe('LegacyPassword');
+      expect(await tokens.load()).toBe('legacy-token');
+      expect(api.getAccountEmail()).toBe('old@example.com');
+    });
+
+    it('should only flag a legacy account on 426', async () => {
+      for (const [status, legacy] of [
+        [426, true],
+        [401, false],
+      ] as const) {
+        (global.fetch as any).mockResolvedValueOnce({
+          ok: false,
+          status,
+          text: async () => '',
+        });
+
+        const error = await api
+          .login({ email: 'old@example.com', master_password_hash: 'hash' })
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.isLegacyAuth).toBe(legacy);
+      }
+    });
+  });
+
+  describe('migrateAuth', () => {
+    it('should send authenticated migration request', async () => {
+      await signIn('valid-token');
+      const mockResponse = {
+        ok: true,
+        text: async () => '',
+        headers: new Headers(),
+      };
+      (global.fetch as any).mockResolvedValueOnce(mockResponse);
+
+      await api.migrateAuth({
+        current_password: 'LegacyPassword',
+        new_password_hash: 'new-hash',
+        encrypted_vault: 'reencrypted-vault',
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/auth/migrate'),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({
+            Authorization: 'Bearer valid-token',
+          }),
+        })
+      );
+    });
+  });
+
   describe('getVault', () => {
     it('should send authenticated request to get vault', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: true,
         json: async () => ({ encrypted_vault: 'encrypted-data' }),
@@ -167,12 +309,25 @@ describe('API Client', () => {
       expect(result.encrypted_vault).toBe('encrypted-data');
     });
 
+    it('should read the revision from the ETag header', async () => {
+      await signIn('valid-token');
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ encrypted_vault: 'encrypted-data' }),
+        headers: new Headers({ 'content-type': 'application/json', ETag: '"r1"' }),
+      });
+
+      const result = await api.getVault();
+
+      expect(result.revision).toBe('"r1"');
+    });
+
     it('should throw error when no session token exists', async () => {
       await expect(api.getVault()).rejects.toThrow('No session token found');
     });
 
     it('should handle 401 errors and clear token', async () => {
-      localStorage.setItem('session_token', 'invalid-token');
+      await signIn('invalid-token');
       const mockResponse = {
         ok: false,
         status: 401,
@@ -181,13 +336,13 @@ describe('API Client', () => {
       (global.fetch as any).mockResolvedValueOnce(mockResponse);
 
       await expect(api.getVault()).rejects.toThrow('Session expired');
-      expect(localStorage.getItem('session_token')).toBeNull();
+      expect(await tokens.load()).toBeNull();
     });
   });
 
   describe('updateVault', () => {
     it('should send authenticated request to update vault', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: true,
         text: async () => '',
@@ -216,8 +371,47 @@ describe('API Client', () => {
       ).rejects.toThrow('No session token found');
     });
 
+    it('should send If-Match with the base revision and return the new one', async () => {
+      await signIn('valid-token');
+      const mockResponse = {
+        ok: true,
+        text: async () => '',
+        headers: new Headers({ ETag: '"r2"' }),
+      };
+      (global.fetch as any).mockResolvedValueOnce(mockResponse);
+
+      const result = await api.updateVault({ encrypted_vault: 'data' }, '"r1"');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/vault'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-Match': '"r1"' }),
+        })
+      );
+      expect(result.revision).toBe('"r2"');
+    });
+
+    it('should report conflicting writes', async () => {
+      await signIn('valid-token');
+      for (const status of [409, 412]) {
+        (global.fetch as any).mockResolvedValueOnce({
+          ok: false,
+          status,
+          text: async () => 'Precondition Failed',
+        });
+
+        const error = await api
+          .updateVault({ encrypted_vault: 'data' }, '"r1"')
+          .catch((e) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.isConflict).toBe(true);
+        expect(error.message).toBe('The vault was changed on another device');
+      }
+    });
+
     it('should handle update errors', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: false,
         status: 500,
@@ -233,7 +427,7 @@ describe('API Client', () => {
 
   describe('changePassword', () => {
     it('should send authenticated request to change password', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: true,
         text: async () => '',
@@ -242,8 +436,8 @@ describe('API Client', () => {
       (global.fetch as any).mockResolvedValueOnce(mockResponse);
 
       await api.changePassword({
-        current_password: 'OldPass123',
-        new_password: 'NewPass456',
+        current_password_hash: 'old-hash',
+        new_password_hash: 'new-hash',
       });
 
       expect(global.fetch).toHaveBeenCalledWith(
@@ -258,7 +452,7 @@ describe('API Client', () => {
     });
 
     it('should include password change data in request body', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: true,
         text: async () => '',
@@ -267,22 +461,42 @@ describe('API Client', () => {
       (global.fetch as any).mockResolvedValueOnce(mockResponse);
 
       await api.changePassword({
-        current_password: 'CurrentPass',
-        new_password: 'NewPassword',
+        current_password_hash: 'current-hash',
+        new_password_hash: 'new-hash',
+        encrypted_vault: 'reencrypted-vault',
       });
 
       const callArgs = (global.fetch as any).mock.calls[0][1];
       const body = JSON.parse(callArgs.body);
       
-      expect(body.current_password).toBe('CurrentPass');
-      expect(body.new_password).toBe('NewPassword');
+      expect(body.current_password_hash).toBe('current-hash');
+      expect(body.new_password_hash).toBe('new-hash');
+      expect(body.encrypted_vault).toBe('reencrypted-vault');
+      expect(body.current_password).toBeUndefined();
+    });
+
+    it('should return the revision the vault was stored at', async () => {
+      await signIn('valid-token');
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        text: async () => '',
+        headers: new Headers({ ETag: '"r2"' }),
+      });
+
+      const result = await api.changePassword({
+        current_password_hash: 'current-hash',
+        new_password_hash: 'new-hash',
+        encrypted_vault: 'reencrypted-vault',
+      });
+
+      expect(result.revision).toBe('"r2"');
     });
 
     it('should throw error when no session token exists', async () => {
       await expect(
         api.changePassword({
-          current_password: 'Current',
-          new_password: 'New',
+          current_password_hash: 'current-hash',
+          new_password_hash: 'new-hash',
         })
       ).rejects.toThrow('No session token found');
     });
@@ -319,9 +533,72 @@ describe('API Client', () => {
     });
   });
 
+  describe('refreshSession', () => {
+    it('should swap the token for a fresh one', async () => {
+      await signIn('old-token');
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          session_token: 'new-token',
+          expires_at: '2030-01-01T00:00:00Z',
+        }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      });
+
+      await api.refreshSession();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/auth/refresh'),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer old-token' }),
+        })
+      );
+      expect(await tokens.load()).toBe('new-token');
+      expect(api.getSessionExpiry()).toBe(Date.UTC(2030, 0, 1));
+    });
+
+    it('should drop the session when the refresh is refused', async () => {
+      await signIn('old-token');
+      localStorage.setItem('session_expires_at', '2030-01-01T00:00:00Z');
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        text: async () => 'Unauthorized',
+      });
+
+      await expect(api.refreshSession()).rejects.toThrow('Session expired');
+      expect(api.isAuthenticated()).toBe(false);
+      expect(api.getSessionExpiry()).toBeNull();
+    });
+  });
+
+  describe('getSessionExpiry', () => {
+    it('should remember the expiry from login', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ session_token: 'token', expires_at: '2030-01-01T00:00:00Z' }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      });
+
+      await api.login({ email: 'test@example.com', master_password_hash: 'hash' });
+
+      expect(api.getSessionExpiry()).toBe(Date.UTC(2030, 0, 1));
+      api.logout();
+      expect(api.getSessionExpiry()).toBeNull();
+    });
+
+    it('should be null when the expiry is missing or invalid', () => {
+      expect(api.getSessionExpiry()).toBeNull();
+
+      localStorage.setItem('session_expires_at', 'soon');
+      expect(api.getSessionExpiry()).toBeNull();
+    });
+  });
+
   describe('isAuthenticated', () => {
-    it('should return true when session token exists', () => {
-      localStorage.setItem('session_token', 'valid-token');
+    it('should return true when session token exists', async () => {
+      await signIn('valid-token');
       expect(api.isAuthenticated()).toBe(true);
     });
 
@@ -330,30 +607,42 @@ describe('API Client', () => {
       expect(api.isAuthenticated()).toBe(false);
     });
 
-    it('should return false for empty session token', () => {
-      localStorage.setItem('session_token', '');
+    it('should return false for empty session token', async () => {
+      await signIn('');
       expect(api.isAuthenticated()).toBe(false);
     });
   });
 
   describe('logout', () => {
-    it('should remove session token from localStorage', () => {
-      localStorage.setItem('session_token', 'valid-token');
+    it('should clear the stored token', async () => {
+      await signIn('valid-token');
       
       api.logout();
       
-      expect(localStorage.getItem('session_token')).toBeNull();
+      expect(await tokens.load()).toBeNull();
+    });
+
+    it('should forget the account email and KDF', async () => {
+      await signIn('valid-token');
+      localStorage.setItem('account_email', 'user@example.com');
+      api.setAccountKdf({ name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 });
+      expect(api.getAccountKdf()).toEqual({ name: 'PBKDF2', hash: 'SHA-256', iterations: 600000 });
+
+      api.logout();
+
+      expect(api.getAccountEmail()).toBeNull();
+      expect(api.getAccountKdf()).toBeNull();
     });
 
-    it('should work even if no token exists', () => {
+    it('should work even if no token exists', async () => {
       localStorage.clear();
       
       expect(() => api.logout()).not.toThrow();
-      expect(localStorage.getItem('session_token')).toBeNull();
+      expect(await tokens.load()).toBeNull();
     });
 
-    it('should update isAuthenticated status', () => {
-      localStorage.setItem('session_token', 'valid-token');
+    it('should update isAuthenticated status', async () => {
+      await signIn('valid-token');
       expect(api.isAuthenticated()).toBe(true);
       
       api.logout();
@@ -362,9 +651,198 @@ describe('API Client', () => {
     });
   });
 
+  describe('two-factor authentication', () => {
+    const json = (body: unknown) => ({
+      ok: true,
+      json: async () => body,
+      headers: new Headers({ 'content-type': 'application/json' }),
+    });
+
+    it('should not start a session when login asks for a second factor', async () => {
+      (global.fetch as any).mockResolvedValueOnce(
+        json({ mfa_required: true, mfa_token: 'mfa-token', methods: ['totp'] })
+      );
+
+      const result = await api.login({ email: 'test@example.com', master_password_hash: 'hash' });
+
+      expect(result).toEqual({ mfa_required: true, mfa_token: 'mfa-token', methods: ['totp'] });
+      expect(api.isAuthenticated()).toBe(false);
+      expect(api.getAccountEmail()).toBeNull();
+    });
+
+    it('should start the session once the code is verified', async () => {
+      (global.fetch as any).mockResolvedValueOnce(
+        json({ session_token: 'mfa-session', expires_at: '2030-01-01T00:00:00Z' })
+      );
+
+      await api.verifyMfa('test@example.com', 'mfa-token', { recovery_code: 'abcd-efgh' });
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      expect(url).toContain('/auth/mfa/verify');
+      expect(JSON.parse(init.body)).toEqual({
+        mfa_token: 'mfa-token',
+        recovery_code: 'abcd-efgh',
+      });
+      expect(await tokens.load()).toBe('mfa-session');
+      expect(api.getAccountEmail()).toBe('test@example.com');
+    });
+
+    it('should enroll, replace recovery codes and turn it off', async () => {
+      await signIn('valid-token');
+      (global.fetch as any)
+        .mockResolvedValueOnce(json({ enabled: false }))
+        .mockResolvedValueOnce(json({ secret: 'JBSWY3DPEHPK3PXP', otpauth_url: 'otpauth://totp/x' }))
+        .mockResolvedValueOnce(json({ recovery_codes: ['a', 'b'] }))
+        .mockResolvedValueOnce(json({ recovery_codes: ['c', 'd'] }))
+        .mockResolvedValueOnce({ ok: true, text: async () => '', headers: new Headers() });
+
+      expect(await api.getMfaStatus()).toEqual({ enabled: false });
+      expect((await api.setupMfa()).secret).toBe('JBSWY3DPEHPK3PXP');
+      expect(await api.enableMfa('123456')).toEqual({ recovery_codes: ['a', 'b'] });
+      expect(await api.regenerateRecoveryCodes({ code: '654321' })).toEqual({
+        recovery_codes: ['c', 'd'],
+      });
+      await api.disableMfa({ recovery_code: 'c' });
+
+      const calls = (global.fetch as any).mock.calls;
+      expect(calls.map(([url]: [string]) => url.replace(/.*\/auth/, ''))).toEqual([
+        '/mfa',
+        '/mfa/setup',
+        '/mfa/enable',
+        '/mfa/recovery-codes',
+        '/mfa/disable',
+      ]);
+      expect(calls.every(([, init]: [string, RequestInit]) =>
+        (init.headers as Record<string, string>).Authorization === 'Bearer valid-token'
+      )).toBe(true);
+      expect(JSON.parse(calls[2][1].body)).toEqual({ code: '123456' });
+      expect(JSON.parse(calls[4][1].body)).toEqual({ recovery_code: 'c' });
+    });
+
+    it('should keep the session when a settings code is wrong', async () => {
+      await signIn('valid-token');
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        text: async () => 'Invalid code',
+      });
+
+      await expect(api.disableMfa({ code: '000000' })).rejects.toThrow('API error 400');
+      expect(api.isAuthenticated()).toBe(true);
+    });
+  });
+
+  describe('restoreSession', () => {
+    it('should pick up the stored token', async () => {
+      localStorage.setItem('account_email', 'user@example.com');
+      await tokens.save('kept-token');
+
+      expect(await api.restoreSession()).toBe(true);
+      expect(api.isAuthenticated()).toBe(true);
+    });
+
+    it('should drop a session that has no account email', async () => {
+      await tokens.save('kept-token');
+
+      expect(await api.restoreSession()).toBe(false);
+      expect(api.isAuthenticated()).toBe(false);
+      await vi.waitFor(async () => {
+        expect(await tokens.load()).toBeNull();
+      });
+    });
+
+    it('should report no session when the store is empty or fails', async () => {
+      expect(await api.restoreSession()).toBe(false);
+
+      tokens.load = vi.fn().mockRejectedValue(new Error('Keychain locked'));
+      expect(await api.restoreSession()).toBe(false);
+      expect(api.isAuthenticated()).toBe(false);
+    });
+
+    it('should move a token left in localStorage into the store', async () => {
+      localStorage.setItem('account_email', 'user@example.com');
+      localStorage.setItem('session_token', 'legacy-token');
+
+      expect(await api.restoreSession()).toBe(true);
+      expect(await tokens.load()).toBe('legacy-token');
+      expect(localStorage.getItem('session_token')).toBeNull();
+    });
+
+    it('should not carry over a token left without an account email', async () => {
+      localStorage.setItem('session_token', 'legacy-token');
+
+      expect(await api.restoreSession()).toBe(false);
+      expect(await tokens.load()).toBeNull();
+      expect(localStorage.getItem('session_token')).toBeNull();
+    });
+
+    it('should keep the token out of localStorage after login', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ session_token: 'secret-token', expires_at: '2030-01-01T00:00:00Z' }),
+        headers: new Headers({ 'content-type': 'application/json' }),
+      });
+
+      await api.login({ email: 'test@example.com', master_password_hash: 'hash' });
+
+      expect(Object.values(localStorage)).not.toContain('secret-token');
+    });
+  });
+
+  describe('cookie sessions', () => {
+    beforeEach(() => {
+      tokens = createCookieTokenStore();
+      api.useTokenStore(tokens);
+    });
+
+    it('should send credentials instead of a bearer token', async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ expires_at: '2030-01-01T00:00:00Z' }),
+          headers: new Headers({ 'content-type': 'application/json' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ encrypted_vault: 'encrypted-data' }),
+          headers: new Headers({ 'content-type': 'application/json' }),
+        });
+
+      await api.login({ email: 'test@example.com', master_password_hash: 'hash' });
+      await api.getVault();
+
+      const [login, vault] = (global.fetch as any).mock.calls;
+      expect(login[1].credentials).toBe('include');
+      expect(vault[1].credentials).toBe('include');
+      expect(vault[1].headers.Authorization).toBeUndefined();
+      expect(api.isAuthenticated()).toBe(true);
+    });
+
+    it('should survive a reload and ask the backend to end it', async () => {
+      await signIn('ignored');
+      expect(api.isAuthenticated()).toBe(true);
+      (global.fetch as any).mockResolvedValueOnce({ ok: true });
+
+      api.logout();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/auth/logout'),
+        { method: 'POST', credentials: 'include' }
+      );
+      expect(await api.restoreSession()).toBe(false);
+    });
+
+    it('should not turn a legacy bearer token into a cookie session', async () => {
+      localStorage.setItem('session_token', 'legacy-token');
+
+      expect(await api.restoreSession()).toBe(false);
+      expect(localStorage.getItem('session_token')).toBeNull();
+    });
+  });
+
   describe('error handling', () => {
     it('should handle non-JSON responses gracefully', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: true,
         text: async () => 'Plain text response',
@@ -378,14 +856,14 @@ describe('API Client', () => {
     });
 
     it('should handle network errors', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       (global.fetch as any).mockRejectedValueOnce(new Error('Network error'));
 
       await expect(api.getVault()).rejects.toThrow('Network error');
     });
 
     it('should log API errors to console', async () => {
-      localStorage.setItem('session_token', 'valid-token');
+      await signIn('valid-token');
       const mockResponse = {
         ok: false,
         status: 500,
@@ -0,0 +1,229 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { loginWithMasterPassword, deriveVaultKey } from '../../src/lib/auth';
+import { api, ApiError } from '../../src/lib/api';
+import { decryptVault, deriveCredentials, encryptVault } from '../../src/lib/crypto';
+
+// Mock the API, keeping the real ApiError class
+vi.mock('../../src/lib/api', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/lib/api')>();
+  return {
+    ApiError: actual.ApiError,
+    api: {
+      prelogin: vi.fn(),
+      login: vi.fn(),
+      loginLegacy: vi.fn(),
+      verifyMfa: vi.fn(),
+      getVault: vi.fn(),
+      migrateAuth: vi.fn(),
+      getAccountEmail: vi.fn(),
+      getAccountKdf: vi.fn(),
+      setAccountKdf: vi.fn(),
+      logout: vi.fn(),
+    },
+  };
+});
+
+// Mock crypto
+vi.mock('../../src/lib/crypto', () => ({
+  ACCOUNT_LEGACY_KDF: { name: 'PBKDF2', hash: 'SHA-256', iterations: 100000 },
+  deriveCredentials: vi.fn(async (password: string) => ({
+    authHash: `auth:${password}`,
+    encryptionKey: `enc:${password}`,
+  })),
+  decryptVault: vi.fn(),
+  encryptVault: vi.fn(),
+}));
+
+const legacyKdf = { name: 'PBKDF2', hash: 'SHA-256', iterations: 100000 };
+const argon2Kdf = { name: 'Argon2id', memory: 65536, iterations: 3, parallelism: 4 };
+
+const challenge = {
+  mfa_required: true,
+  mfa_token: 'mfa-token',
+  methods: ['totp', 'recovery_code'],
+};
+
+describe('Auth Module', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    console.log = vi.fn();
+    (api.prelogin as any).mockResolvedValue({ kdf: argon2Kdf });
+  });
+
+  describe('loginWithMasterPassword', () => {
+    it('should log in with the auth hash only', async () => {
+      (api.login as any).mockResolvedValueOnce({ session_token: 'token' });
+
+      await expect(loginWithMasterPassword('user@example.com', 'Secret123')).resolves.toBeNull();
+
+      expect(api.login).toHaveBeenCalledWith({
+        email: 'user@example.com',
+        master_password_hash: 'auth:Secret123',
+      });
+      expect(api.loginLegacy).not.toHaveBeenCalled();
+      expect(api.migrateAuth).not.toHaveBeenCalled();
+    });
+
+    it("should stretch the master password with the account's KDF", async () => {
+      (api.login as any).mockResolvedValueOnce({ session_token: 'token' });
+
+      await loginWithMasterPassword('user@example.com', 'Secret123');
+
+      expect(api.prelogin).toHaveBeenCalledWith('user@example.com');
+      expect(deriveCredentials).toHaveBeenCalledWith('Secret123', 'user@example.com', argon2Kdf);
+      expect(api.setAccountKdf).toHaveBeenCalledWith(argon2Kdf);
+    });
+
+    it('should use the original KDF with backends that have no prelogin', async () => {
+      (api.prelogin as any).mockRejectedValueOnce(new ApiError(404, 'API error 404'));
+      (api.login as any).mockResolvedValueOnce({ session_token: 'token' });
+
+      await loginWithMasterPassword('user@example.com', 'Secret123');
+
+      expect(deriveCredentials).toHaveBeenCalledWith('Secret123', 'user@example.com', legacyKdf);
+    });
+
+    it('should not remember the KDF after a failed login', async () => {
+      (api.login as any).mockRejectedValueOnce(new ApiError(401, 'Session expired'));
+
+      await expect(loginWithMasterPassword('user@example.com', 'Wrong')).rejects.toThrow();
+      expect(api.setAccountKdf).not.toHaveBeenCalled();
+    });
+
+    it('should migrate a legacy account after a legacy login', async () => {
+      const vault = { entries: [{ id: '1', name: 'Test' }] };
+      (api.login as any).mockRejectedValueOnce(new ApiError(426, 'API error 426: legacy_auth_required'));
+      (api.loginLegacy as any).mockResolvedValueOnce({ session_token: 'token' });
+      (api.getVault as any).mockResolvedValueOnce({ encrypted_vault: 'legacy-blob' });
+      (decryptVault as any).mockResolvedValueOnce(vault);
+      (encryptVault as any).mockResolvedValueOnce('migrated-blob');
+
+      await loginWithMasterPassword('user@example.com', 'Secret123');
+
+      expect(decryptVault).toHaveBeenCalledWith('legacy-blob', 'Secret123');
+      expect(encryptVault).toHaveBeenCalledWith(vault, 'enc:Secret123');
+      expect(api.migrateAuth).toHaveBeenCalledWith({
+        current_password: 'Secret123',
+        new_password_hash: 'auth:Secret123',
+        encrypted_vault: 'migrated-blob',
+      });
+    });
+
+    it('should never send the master password after a wrong password', async () => {
+      (api.login as any).mockRejectedValueOnce(new ApiError(401, 'Session expired'));
+
+      await expect(
+        loginWithMasterPassword('user@example.com', 'Wrong')
+      ).rejects.toThrow('Invalid email or master password');
+      expect(api.loginLegacy).not.toHaveBeenCalled();
+      expect(api.migrateAuth).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid credentials when the legacy login fails', async () => {
+      (api.login as any).mockRejectedValueOnce(new ApiError(426, 'API error 426: legacy_auth_required'));
+      (api.loginLegacy as any).mockRejectedValueOnce(new ApiError(401, 'Session expired'));
+
+      await expect(
+        loginWithMasterPassword('user@example.com', 'Wrong')
+      ).rejects.toThrow('Invalid email or master password');
+      expect(api.migrateAuth).not.toHaveBeenCalled();
+    });
+
+    it('should not fall back unless the server asks for a legacy login', async () => {
+      (api.login as any).mockRejectedValueOnce(new ApiError(500, 'API error 500'));
+
+      await expect(
+        loginWithMasterPassword('user@example.com', 'Secret123')
+      ).rejects.toThrow('API error 500');
+      expect(api.loginLegacy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('second factor', () => {
+    it('should hand back a pending login when a code is needed', async () => {
+      (api.login as any).mockResolvedValueOnce(challenge);
+      (api.verifyMfa as any).mockResolvedValueOnce({ session_token: 'token' });
+
+      const pending = await loginWithMasterPassword('user@example.com', 'Secret123');
+
+      expect(pending?.methods).toEqual(['totp', 'recovery_code']);
+      expect(api.setAccountKdf).not.toHaveBeenCalled();
+      await pending!.verify({ code: '123456' });
+      expect(api.verifyMfa).toHaveBeenCalledWith('user@example.com', 'mfa-token', {
+        code: '123456',
+      });
+      expect(api.setAccountKdf).toHaveBeenCalledWith(argon2Kdf);
+    });
+
+    it('should report a wrong or expired code', async () => {
+      (api.login as any).mockResolvedValueOnce(challenge);
+      (api.verifyMfa as any).mockRejectedValueOnce(new ApiError(401, 'Session expired'));
+
+      const pending = await loginWithMasterPassword('user@example.com', 'Secret123');
+
+      await expect(pending!.verify({ recovery_code: 'abcd-efgh' })).rejects.toThrow(
+        'Invalid or expired code'
+      );
+    });
+
+    it('should migrate a legacy account only once the code is verified', async () => {
+      (api.login as any).mockRejectedValueOnce(new ApiError(426, 'API error 426: legacy_auth_required'));
+      (api.loginLegacy as any).mockResolvedValueOnce(challenge);
+      (api.verifyMfa as any).mockResolvedValueOnce({ session_token: 'token' });
+      (api.getVault as any).mockResolvedValueOnce({ encrypted_vault: null });
+
+      const pending = await loginWithMasterPassword('user@example.com', 'Secret123');
+      expect(api.migrateAuth).not.toHaveBeenCalled();
+
+      await pending!.verify({ code: '123456' });
+
+      expect(api.migrateAuth).toHaveBeenCalledWith({
+        current_password: 'Secret123',
+        new_password_hash: 'auth:Secret123',
+        encrypted_vault: undefined,
+      });
+    });
+
+    it('should sign out again when the migration fails', async () => {
+      (api.login as any).mockRejectedValueOnce(new ApiError(426, 'API error 426: legacy_auth_required'));
+      (api.loginLegacy as any).mockResolvedValueOnce({ session_token: 'token' });
+      (api.getVault as any).mockResolvedValueOnce({ encrypted_vault: 'legacy-blob' });
+      (decryptVault as any).mockResolvedValueOnce({ entries: [] });
+      (encryptVault as any).mockResolvedValueOnce('migrated-blob');
+      (api.migrateAuth as any).mockRejectedValueOnce(new ApiError(500, 'API error 500: boom'));
+
+      await expect(loginWithMasterPassword('user@example.com', 'Secret123')).rejects.toThrow(
+        "Couldn't upgrade your account's sign-in: API error 500: boom"
+      );
+      expect(api.logout).toHaveBeenCalled();
+      expect(api.setAccountKdf).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deriveVaultKey', () => {
+    it('should derive the encryption key for the logged-in account', async () => {
+      (api.getAccountEmail as any).mockReturnValueOnce('user@example.com');
+
+      await expect(deriveVaultKey('Secret123')).resolves.toBe('enc:Secret123');
+      expect(deriveCredentials).toHaveBeenCalledWith('Secret123', 'user@example.com', argon2Kdf);
+      expect(api.setAccountKdf).toHaveBeenCalledWith(argon2Kdf);
+    });
+
+    it('should use the KDF from the last login when offline', async () => {
+      (api.getAccountEmail as any).mockReturnValueOnce('user@example.com');
+      (api.prelogin as any).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      (api.getAccountKdf as any).mockReturnValueOnce(argon2Kdf);
+      console.warn = vi.fn();
+
+      await deriveVaultKey('Secret123');
+
+      expect(deriveCredentials).toHaveBeenCalledWith('Secret123', 'user@example.com', argon2Kdf);
+    });
+
+    it('should fail when no account is logged in', async () => {
+      (api.getAccountEmail as any).mockReturnValueOnce(null);
+
+      await expect(deriveVaultKey('Secret123')).rejects.toThrow('Session expired');
+    });
+  });
+});
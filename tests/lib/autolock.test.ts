@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isTauri } from '@tauri-apps/api/core';
+import { getCurrentWindow } from '@tauri-apps/api/window';
+import {
+  DEFAULT_AUTO_LOCK,
+  getAutoLockConfig,
+  saveAutoLockConfig,
+  watchAutoLock,
+} from '../../src/lib/autolock';
+
+vi.mock('@tauri-apps/api/core', () => ({
+  isTauri: vi.fn(() => false),
+}));
+
+vi.mock('@tauri-apps/api/window', () => ({
+  getCurrentWindow: vi.fn(),
+}));
+
+const MINUTE = 60 * 1000;
+
+// Watchers still running at the end of a test
+let stops: (() => void)[] = [];
+const watch = (...args: Parameters<typeof watchAutoLock>) => {
+  const stop = watchAutoLock(...args);
+  stops.push(stop);
+  return stop;
+};
+
+const setHidden = (hidden: boolean) => {
+  Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+  document.dispatchEvent(new Event('visibilitychange'));
+};
+
+describe('Auto-lock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    stops.forEach((stop) => stop());
+    stops = [];
+    setHidden(false);
+    vi.useRealTimers();
+  });
+
+  describe('config', () => {
+    it('should default and persist settings', () => {
+      expect(getAutoLockConfig()).toEqual(DEFAULT_AUTO_LOCK);
+
+      saveAutoLockConfig({ idleMinutes: 5, lockOnHide: true, lockOnSleep: false });
+
+      expect(getAutoLockConfig()).toEqual({ idleMinutes: 5, lockOnHide: true, lockOnSleep: false });
+    });
+
+    it('should ignore invalid saved settings', () => {
+      localStorage.setItem('auto_lock', JSON.stringify({ idleMinutes: 7, lockOnHide: 'yes' }));
+      expect(getAutoLockConfig()).toEqual(DEFAULT_AUTO_LOCK);
+
+      localStorage.setItem('auto_lock', 'not json');
+      expect(getAutoLockConfig()).toEqual(DEFAULT_AUTO_LOCK);
+    });
+  });
+
+  describe('watchAutoLock', () => {
+    it('should lock once after the idle timeout', () => {
+      const onLock = vi.fn();
+      watch(onLock, { idleMinutes: 5, lockOnHide: false, lockOnSleep: false });
+
+      vi.advanceTimersByTime(4 * MINUTE);
+      expect(onLock).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(MINUTE + 5000);
+      vi.advanceTimersByTime(MINUTE);
+      expect(onLock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restart the idle timeout on activity', () => {
+      const onLock = vi.fn();
+      watch(onLock, { idleMinutes: 5, lockOnHide: false, lockOnSleep: false });
+
+      vi.advanceTimersByTime(4 * MINUTE);
+      window.dispatchEvent(new Event('keydown'));
+      vi.advanceTimersByTime(4 * MINUTE);
+
+      expect(onLock).not.toHaveBeenCalled();
+    });
+
+    it('should never lock on idle when disabled', () => {
+      const onLock = vi.fn();
+      watch(onLock, { idleMinutes: 0, lockOnHide: false, lockOnSleep: false });
+
+      vi.advanceTimersByTime(120 * MINUTE);
+
+      expect(onLock).not.toHaveBeenCalled();
+    });
+
+    it('should lock when the page is hidden, if enabled', () => {
+      const onLock = vi.fn();
+      const stop = watch(onLock, { idleMinutes: 0, lockOnHide: false, lockOnSleep: false });
+      setHidden(true);
+      expect(onLock).not.toHaveBeenCalled();
+      stop();
+
+      setHidden(false);
+      watch(onLock, { idleMinutes: 0, lockOnHide: true, lockOnSleep: false });
+      setHidden(true);
+      expect(onLock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should lock after the system sleeps in the desktop app', () => {
+      (isTauri as any).mockReturnValue(true);
+      const onLock = vi.fn();
+      watch(onLock, { idleMinutes: 0, lockOnHide: false, lockOnSleep: true });
+
+      vi.advanceTimersByTime(MINUTE);
+      expect(onLock).not.toHaveBeenCalled();
+
+      // Suspended: the clock jumps without timers running
+      vi.setSystemTime(Date.now() + 30 * MINUTE);
+      vi.advanceTimersByTime(5000);
+      expect(onLock).toHaveBeenCalledTimes(1);
+      (isTauri as any).mockReturnValue(false);
+    });
+
+    it('should lock when the desktop window is minimized', async () => {
+      (isTauri as any).mockReturnValue(true);
+      let onResized: () => Promise<void> = async () => {};
+      const unlisten = vi.fn();
+      const appWindow = {
+        onResized: vi.fn(async (handler: () => Promise<void>) => {
+          onResized = handler;
+          return unlisten;
+        }),
+        isMinimized: vi.fn(async () => true),
+      };
+      (getCurrentWindow as any).mockReturnValue(appWindow);
+      const onLock = vi.fn();
+
+      const stop = watch(onLock, { idleMinutes: 0, lockOnHide: true, lockOnSleep: false });
+      await vi.waitFor(() => expect(appWindow.onResized).toHaveBeenCalled());
+      await onResized();
+      expect(onLock).toHaveBeenCalledTimes(1);
+
+      await Promise.resolve();
+      stop();
+      expect(unlisten).toHaveBeenCalled();
+      (isTauri as any).mockReturnValue(false);
+    });
+
+    it('should stop watching when stopped', () => {
+      const onLock = vi.fn();
+      const stop = watch(onLock, { idleMinutes: 1, lockOnHide: true, lockOnSleep: false });
+
+      stop();
+      setHidden(true);
+      vi.advanceTimersByTime(10 * MINUTE);
+
+      expect(onLock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  checkBreaches,
+  checkVaultBreaches,
+  clearOfflineBreachFile,
+  createHibpSource,
+  createOfflineSource,
+  getBreachSource,
+  HIBP_RANGE_URL,
+  loadOfflineBreachFile,
+  parseRangeResponse,
+  setBreachCheckMode,
+  sha1Hex,
+} from '../../src/lib/breach';
+
+// SHA-1 of 'password'
+const PASSWORD_HASH = '5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8';
+
+const rangeResponse = (body: string, ok = true) => ({
+  ok,
+  status: ok ? 200 : 503,
+  text: async () => body,
+});
+
+describe('Breach Module', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    clearOfflineBreachFile();
+  });
+
+  it('should hash to upper-case hex SHA-1', async () => {
+    expect(await sha1Hex('password')).toBe(PASSWORD_HASH);
+  });
+
+  it('should parse range responses and drop padding', () => {
+    const result = parseRangeResponse(
+      '1E4C9B93F3F0682250B6CF8331B7EE68FD8:9545824\r\n' +
+        '00D4F6E8FA6EECAD2A3AA415EEC418D38EC:0\r\n' +
+        '011053FD0102E94D6AE2F8B83D76FAF94F6:1'
+    );
+
+    expect([...result]).toEqual([
+      ['1E4C9B93F3F0682250B6CF8331B7EE68FD8', 9545824],
+      ['011053FD0102E94D6AE2F8B83D76FAF94F6', 1],
+    ]);
+  });
+
+  it('should send only the hash prefix to the range API', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(
+      rangeResponse('1E4C9B93F3F0682250B6CF8331B7EE68FD8:42')
+    );
+
+    const breached = await checkBreaches(
+      ['password', 'password'],
+      createHibpSource(fetchImpl as any)
+    );
+
+    expect(breached).toEqual(new Map([['password', 42]]));
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(fetchImpl).toHaveBeenCalledWith(`${HIBP_RANGE_URL}5BAA6`, {
+      headers: { 'Add-Padding': 'true' },
+    });
+    const sent = JSON.stringify(fetchImpl.mock.calls);
+    expect(sent).not.toContain(PASSWORD_HASH.slice(5));
+  });
+
+  it('should cache lookups per prefix and retry failures', async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(rangeResponse('', false))
+      .mockResolvedValue(rangeResponse('1E4C9B93F3F0682250B6CF8331B7EE68FD8:42'));
+    const source = createHibpSource(fetchImpl as any);
+
+    await expect(checkBreaches(['password'], source)).rejects.toThrow(
+      'Breach check failed (503)'
+    );
+    await checkBreaches(['password'], source);
+    await checkBreaches(['password'], source);
+
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should look hashes up in an offline file', async () => {
+    const source = createOfflineSource(
+      `${PASSWORD_HASH.toLowerCase()}:7\n` +
+        'not a hash\n' +
+        // SHA-1 of 'letmein', no count
+        'B7A875FC1EA228B9061041B7CEC4BD3C52AB3CE3\n'
+    );
+
+    const breached = await checkBreaches(['password', 'letmein', 'x7#Kq9!mZ2@w'], source);
+
+    expect(breached).toEqual(
+      new Map([
+        ['password', 7],
+        ['letmein', 1],
+      ])
+    );
+  });
+
+  it('should report the worst breach count per entry', async () => {
+    const source = createOfflineSource(
+      `${PASSWORD_HASH}:7\nB7A875FC1EA228B9061041B7CEC4BD3C52AB3CE3:30\n`
+    );
+
+    const counts = await checkVaultBreaches(
+      {
+        entries: [
+          { id: '1', type: 'login', name: 'A', username: 'letmein', password: 'password' },
+          { id: '2', type: 'wifi', name: 'B', password: 'letmein' },
+          { id: '3', type: 'login', name: 'C', password: 'x7#Kq9!mZ2@w' },
+          { id: '4', type: 'note', name: 'D', notes: 'password' },
+        ],
+      },
+      source
+    );
+
+    expect(counts).toEqual(
+      new Map([
+        ['1', 7],
+        ['2', 30],
+      ])
+    );
+  });
+
+  describe('getBreachSource', () => {
+    it('should stay offline unless enabled', () => {
+      expect(getBreachSource()).toBeNull();
+
+      setBreachCheckMode('online');
+      expect(getBreachSource()).not.toBeNull();
+
+      setBreachCheckMode('off');
+      expect(getBreachSource()).toBeNull();
+    });
+
+    it('should prefer a loaded hash file', async () => {
+      global.fetch = vi.fn();
+      setBreachCheckMode('online');
+
+      expect(loadOfflineBreachFile(`${PASSWORD_HASH}:3\n`)).toBe(1);
+      const breached = await checkBreaches(['password'], getBreachSource()!);
+
+      expect(breached.get('password')).toBe(3);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject files without hashes', () => {
+      expect(() => loadOfflineBreachFile('hello\nworld')).toThrow(
+        'No SHA-1 hashes found in the file'
+      );
+      expect(getBreachSource()).toBeNull();
+    });
+  });
+});
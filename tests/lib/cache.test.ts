@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { readCache, removeCache, writeCache } from '../../src/lib/cache';
+
+vi.mock('@tauri-apps/api/core', () => ({
+  invoke: vi.fn(),
+  isTauri: vi.fn(() => false),
+}));
+
+describe('Local cache', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (isTauri as any).mockReturnValue(false);
+  });
+
+  it('should round-trip JSON values without IndexedDB', async () => {
+    await writeCache('vault:a', { encrypted_vault: 'blob', cachedAt: 1 });
+    expect(await readCache('vault:a')).toEqual({ encrypted_vault: 'blob', cachedAt: 1 });
+
+    await removeCache('vault:a');
+    expect(await readCache('vault:a')).toBeNull();
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await readCache('missing')).toBeNull();
+  });
+
+  it('should store files under hex keys in the desktop app', async () => {
+    (isTauri as any).mockReturnValue(true);
+    (invoke as any).mockResolvedValue(null);
+
+    await writeCache('q:a', [1]);
+    expect(invoke).toHaveBeenCalledWith('cache_write', { key: '713a61', value: '[1]' });
+
+    (invoke as any).mockResolvedValue('{"ok":true}');
+    expect(await readCache('q:a')).toEqual({ ok: true });
+    expect(invoke).toHaveBeenLastCalledWith('cache_read', { key: '713a61' });
+
+    await removeCache('q:a');
+    expect(invoke).toHaveBeenLastCalledWith('cache_remove', { key: '713a61' });
+  });
+
+  it('should ignore corrupt entries', async () => {
+    (isTauri as any).mockReturnValue(true);
+    (invoke as any).mockResolvedValue('{not json');
+
+    expect(await readCache('q:a')).toBeNull();
+  });
+});
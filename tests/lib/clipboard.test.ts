@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import {
+  clearClipboard,
+  copySecret,
+  getClipboardClearSeconds,
+  getClipboardCountdown,
+  saveClipboardClearSeconds,
+  subscribeClipboard,
+} from '../../src/lib/clipboard';
+
+vi.mock('@tauri-apps/api/core', () => ({
+  invoke: vi.fn(),
+  isTauri: vi.fn(() => false),
+}));
+
+// A clipboard that remembers what was last written
+let contents = '';
+const clipboard = {
+  writeText: vi.fn(async (text: string) => {
+    contents = text;
+  }),
+  readText: vi.fn(async () => contents),
+};
+
+describe('Clipboard', () => {
+  beforeEach(async () => {
+    Object.assign(navigator, { clipboard });
+    await clearClipboard();
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    localStorage.clear();
+    contents = '';
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should default and persist the clear timeout', () => {
+    expect(getClipboardClearSeconds()).toBe(30);
+
+    saveClipboardClearSeconds(0);
+    expect(getClipboardClearSeconds()).toBe(0);
+
+    saveClipboardClearSeconds(45);
+    expect(getClipboardClearSeconds()).toBe(30);
+  });
+
+  it('should clear the secret after the timeout', async () => {
+    saveClipboardClearSeconds(10);
+    await copySecret('hunter2');
+
+    expect(contents).toBe('hunter2');
+    expect(getClipboardCountdown()).toEqual({ clearsAt: Date.now() + 10000, seconds: 10 });
+
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(contents).toBe('hunter2');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(contents).toBe('');
+    expect(getClipboardCountdown()).toBeNull();
+  });
+
+  it('should leave the clipboard alone if something else was copied', async () => {
+    await copySecret('hunter2');
+    contents = 'copied elsewhere';
+
+    expect(await clearClipboard()).toBe(false);
+    expect(contents).toBe('copied elsewhere');
+  });
+
+  it('should restart the countdown on a new copy', async () => {
+    await copySecret('first');
+    await vi.advanceTimersByTimeAsync(20000);
+    await copySecret('second');
+    await vi.advanceTimersByTimeAsync(20000);
+
+    expect(contents).toBe('second');
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(contents).toBe('');
+  });
+
+  it('should never clear when disabled', async () => {
+    saveClipboardClearSeconds(0);
+    await copySecret('hunter2');
+
+    expect(getClipboardCountdown()).toBeNull();
+    await vi.advanceTimersByTimeAsync(600000);
+    expect(contents).toBe('hunter2');
+  });
+
+  it('should fall back to copy events when the clipboard is unreadable', async () => {
+    clipboard.readText.mockRejectedValue(new Error('denied'));
+
+    await copySecret('hunter2');
+    expect(await clearClipboard()).toBe(true);
+    expect(contents).toBe('');
+
+    await copySecret('hunter2');
+    document.dispatchEvent(new Event('copy'));
+    expect(await clearClipboard()).toBe(false);
+    expect(contents).toBe('hunter2');
+    clipboard.readText.mockImplementation(async () => contents);
+  });
+
+  it('should notify subscribers', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeClipboard(listener);
+
+    await copySecret('hunter2');
+    await clearClipboard();
+    unsubscribe();
+    await copySecret('hunter2');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use the native clipboard in the desktop app', async () => {
+    (isTauri as any).mockReturnValue(true);
+    (invoke as any).mockImplementation(async (command: string) =>
+      command === 'clipboard_read' ? 'hunter2' : undefined
+    );
+
+    await copySecret('hunter2');
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(invoke).toHaveBeenCalledWith('clipboard_write_secret', { text: 'hunter2' });
+    expect(invoke).toHaveBeenCalledWith('clipboard_read');
+    expect(invoke).toHaveBeenCalledWith('clipboard_clear');
+    expect(clipboard.writeText).not.toHaveBeenCalled();
+    (isTauri as any).mockReturnValue(false);
+  });
+});
@@ -4,6 +4,12 @@ import {
   decryptVault,
   createEmptyVault,
   generatePassword,
+  deriveCredentials,
+  inspectVault,
+  getVaultKdf,
+  benchmarkKdf,
+  ACCOUNT_LEGACY_KDF,
+  DEFAULT_KDF,
   type Vault,
   type VaultEntry,
 } from '../../src/lib/crypto';
@@ -64,6 +70,75 @@ describe('Crypto Module', () => {
     });
   });
 
+  describe('deriveCredentials', () => {
+    it('should derive an auth hash distinct from the encryption key', async () => {
+      const { authHash, encryptionKey } = await deriveCredentials(
+        'TestPassword123!',
+        'user@example.com'
+      );
+
+      expect(authHash).not.toBe(encryptionKey);
+      expect(authHash).not.toContain('TestPassword123!');
+      expect(atob(authHash)).toHaveLength(32);
+      expect(atob(encryptionKey)).toHaveLength(32);
+    });
+
+    it('should be deterministic for the same password and email', async () => {
+      const first = await deriveCredentials('TestPassword123!', 'user@example.com');
+      const second = await deriveCredentials('TestPassword123!', ' User@Example.com ');
+
+      expect(second).toEqual(first);
+    });
+
+    it('should salt by email', async () => {
+      const alice = await deriveCredentials('SamePassword', 'alice@example.com');
+      const bob = await deriveCredentials('SamePassword', 'bob@example.com');
+
+      expect(alice.authHash).not.toBe(bob.authHash);
+      expect(alice.encryptionKey).not.toBe(bob.encryptionKey);
+    });
+
+    it('should default to the original KDF of older accounts', async () => {
+      const implicit = await deriveCredentials('TestPassword123!', 'user@example.com');
+      const explicit = await deriveCredentials(
+        'TestPassword123!',
+        'user@example.com',
+        ACCOUNT_LEGACY_KDF
+      );
+
+      expect(explicit).toEqual(implicit);
+    });
+
+    it("should stretch the master password with the account's KDF", async () => {
+      const argon2 = { name: 'Argon2id' as const, memory: 16384, iterations: 1, parallelism: 1 };
+      const legacy = await deriveCredentials('TestPassword123!', 'user@example.com');
+      const stretched = await deriveCredentials('TestPassword123!', 'user@example.com', argon2);
+
+      expect(stretched.authHash).not.toBe(legacy.authHash);
+      expect(stretched.encryptionKey).not.toBe(legacy.encryptionKey);
+      expect(stretched.authHash).not.toBe(stretched.encryptionKey);
+    });
+
+    it('should refuse out-of-range account KDF parameters', async () => {
+      await expect(
+        deriveCredentials('TestPassword123!', 'user@example.com', {
+          name: 'PBKDF2',
+          hash: 'SHA-256',
+          iterations: 1000,
+        })
+      ).rejects.toThrow('Account asks for unsupported PBKDF2 settings');
+    });
+
+    it('should produce a key that can encrypt and decrypt a vault', async () => {
+      const { encryptionKey } = await deriveCredentials('TestPassword123!', 'user@example.com');
+      const vault = { entries: [{ id: '1', name: 'Test' }] };
+
+      const encrypted = await encryptVault(vault, encryptionKey);
+      await expect(decryptVault(encrypted, encryptionKey)).resolves.toEqual(vault);
+      await expect(decryptVault(encrypted, 'TestPassword123!')).rejects.toThrow();
+    });
+  });
+
   describe('encryptVault and decryptVault', () => {
     let testVault: Vault;
     const masterPassword = 'TestPassword123!';
@@ -249,4 +324,167 @@ describe('Crypto Module', () => {
       }
     });
   });
+
+  describe('vault envelope', () => {
+    const masterPassword = 'TestPassword123!';
+    const vault: Vault = { entries: [{ id: '1', name: 'Test', password: 'secret' }] };
+
+    // Build a blob in the original unversioned salt || iv || ciphertext layout
+    const encryptLegacy = async (
+      data: Vault,
+      password: string,
+      salt = crypto.getRandomValues(new Uint8Array(16))
+    ) => {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const baseKey = await crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(password),
+        'PBKDF2',
+        false,
+        ['deriveKey']
+      );
+      const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt']
+      );
+      const ciphertext = new Uint8Array(
+        await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv },
+          key,
+          new TextEncoder().encode(JSON.stringify(data))
+        )
+      );
+      return btoa(String.fromCharCode(...salt, ...iv, ...ciphertext));
+    };
+
+    it('should record version, KDF and cipher in the envelope', async () => {
+      const encrypted = await encryptVault(vault, masterPassword);
+
+      expect(atob(encrypted).slice(0, 3)).toBe('ZCP');
+      expect(inspectVault(encrypted)).toEqual({
+        version: 1,
+        kdf: DEFAULT_KDF,
+        cipher: 'AES-256-GCM',
+      });
+    });
+
+    it('should honour custom KDF parameters', async () => {
+      const kdf = { name: 'PBKDF2' as const, hash: 'SHA-256' as const, iterations: 100000 };
+      const encrypted = await encryptVault(vault, masterPassword, kdf);
+
+      expect(inspectVault(encrypted).kdf).toEqual(kdf);
+      expect(await decryptVault(encrypted, masterPassword)).toEqual(vault);
+    });
+
+    it('should decrypt legacy unversioned blobs', async () => {
+      const legacy = await encryptLegacy(vault, masterPassword);
+
+      expect(inspectVault(legacy).version).toBe(0);
+      expect(await decryptVault(legacy, masterPassword)).toEqual(vault);
+    });
+
+    it('should decrypt legacy blobs whose salt starts like an envelope', async () => {
+      const random = () => crypto.getRandomValues(new Uint8Array(1))[0];
+      const salts = [
+        // Magic only; the rest of the header doesn't parse
+        [0x5a, 0x43, 0x50, 7, ...Array.from({ length: 12 }, random)],
+        // A whole header that parses, so only decryption tells them apart:
+        // version 1, PBKDF2 with 100000 iterations, 2-byte salt, AES-GCM, 1-byte iv
+        [0x5a, 0x43, 0x50, 1, 1, 4, 0, 0x01, 0x86, 0xa0, 2, random(), random(), 1, 1, random()],
+      ];
+
+      for (const salt of salts) {
+        const legacy = await encryptLegacy(vault, masterPassword, Uint8Array.from(salt));
+
+        expect(await decryptVault(legacy, masterPassword)).toEqual(vault);
+      }
+    });
+
+    it('should upgrade legacy blobs to the current format when re-encrypted', async () => {
+      const legacy = await encryptLegacy(vault, masterPassword);
+      const decrypted = await decryptVault(legacy, masterPassword);
+      const upgraded = await encryptVault(decrypted, masterPassword);
+
+      expect(inspectVault(upgraded).version).toBe(1);
+      expect(await decryptVault(upgraded, masterPassword)).toEqual(vault);
+    });
+
+    it('should reject a tampered header', async () => {
+      const kdf = { name: 'PBKDF2' as const, hash: 'SHA-256' as const, iterations: 100000 };
+      const bytes = Uint8Array.from(atob(await encryptVault(vault, masterPassword, kdf)), (c) =>
+        c.charCodeAt(0)
+      );
+      // Flip a bit in the salt, which is covered by the associated data
+      bytes[12] ^= 0x01;
+      const tampered = btoa(String.fromCharCode(...bytes));
+
+      await expect(decryptVault(tampered, masterPassword)).rejects.toThrow(
+        'Failed to decrypt vault'
+      );
+    });
+
+    it('should reject unknown envelope versions', async () => {
+      const bytes = Uint8Array.from(atob(await encryptVault(vault, masterPassword)), (c) =>
+        c.charCodeAt(0)
+      );
+      bytes[3] = 99;
+
+      await expect(
+        decryptVault(btoa(String.fromCharCode(...bytes)), masterPassword)
+      ).rejects.toThrow('Failed to decrypt vault');
+    });
+  });
+
+  describe('Argon2id', () => {
+    const masterPassword = 'TestPassword123!';
+    const vault: Vault = { entries: [{ id: '1', name: 'Test', password: 'secret' }] };
+    // The smallest parameters Settings offers keep the tests fast
+    const kdf = { name: 'Argon2id' as const, memory: 16384, iterations: 1, parallelism: 1 };
+
+    it('should encrypt and decrypt with Argon2id', async () => {
+      const encrypted = await encryptVault(vault, masterPassword, kdf);
+
+      expect(inspectVault(encrypted).kdf).toEqual(kdf);
+      expect(await decryptVault(encrypted, masterPassword)).toEqual(vault);
+    });
+
+    it('should fail to decrypt with the wrong password', async () => {
+      const encrypted = await encryptVault(vault, masterPassword, kdf);
+
+      await expect(decryptVault(encrypted, 'WrongPassword')).rejects.toThrow(
+        'Failed to decrypt vault'
+      );
+    });
+
+    it('should refuse out-of-range parameters from a vault header', async () => {
+      const bytes = Uint8Array.from(atob(await encryptVault(vault, masterPassword, kdf)), (c) =>
+        c.charCodeAt(0)
+      );
+      // Memory in KiB sits right after magic, version, KDF id and length
+      new DataView(bytes.buffer).setUint32(6, 0xffffffff);
+      const tampered = btoa(String.fromCharCode(...bytes));
+
+      await expect(decryptVault(tampered, masterPassword)).rejects.toThrow(
+        'Vault asks for unsupported Argon2id settings'
+      );
+      await expect(
+        encryptVault(vault, masterPassword, { ...kdf, parallelism: 255 })
+      ).rejects.toThrow('unsupported Argon2id settings');
+    });
+
+    it('should keep the vault KDF when re-encrypting', async () => {
+      const encrypted = await encryptVault(vault, masterPassword, kdf);
+
+      expect(getVaultKdf(encrypted)).toEqual(kdf);
+    });
+
+    it('should benchmark a derivation', async () => {
+      const elapsed = await benchmarkKdf(kdf);
+
+      expect(elapsed).toBeGreaterThan(0);
+    });
+  });
 });
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ENTRY_SCHEMAS,
+  ENTRY_TYPES,
+  MAX_PASSWORD_HISTORY,
+  cleanCustomFields,
+  createCustomField,
+  getEntrySubtitle,
+  getEntryUrl,
+  getFieldValue,
+  getHistoryFieldLabel,
+  normalizeEntry,
+  sortEntries,
+  updatePasswordHistory,
+  type VaultEntry,
+} from '../../src/lib/entries';
+
+describe('Entries Module', () => {
+  describe('normalizeEntry', () => {
+    it('should treat untyped entries as logins', () => {
+      const legacy = { id: '1', name: 'Gmail', username: 'me@gmail.com' } as any;
+
+      expect(normalizeEntry(legacy)).toEqual({ ...legacy, type: 'login' });
+    });
+
+    it('should leave typed entries untouched', () => {
+      const card: VaultEntry = { id: '2', type: 'card', name: 'Visa', number: '4111' };
+
+      expect(normalizeEntry(card)).toBe(card);
+    });
+
+    it('should treat unknown types as logins', () => {
+      const odd = { id: '3', type: 'mystery', name: 'Odd' } as any;
+
+      expect(normalizeEntry(odd).type).toBe('login');
+    });
+  });
+
+  describe('ENTRY_SCHEMAS', () => {
+    it('should define a schema for every entry type', () => {
+      expect(ENTRY_TYPES).toEqual([
+        'login',
+        'card',
+        'identity',
+        'note',
+        'sshKey',
+        'apiToken',
+        'wifi',
+      ]);
+      for (const type of ENTRY_TYPES) {
+        expect(ENTRY_SCHEMAS[type].type).toBe(type);
+      }
+    });
+
+    it('should not reuse the reserved entry keys as field keys', () => {
+      for (const type of ENTRY_TYPES) {
+        for (const field of ENTRY_SCHEMAS[type].fields) {
+          expect(['id', 'type', 'name', 'notes', 'fields']).not.toContain(field.key);
+        }
+      }
+    });
+  });
+
+  describe('getFieldValue', () => {
+    it('should read per-type fields', () => {
+      const wifi: VaultEntry = { id: '1', type: 'wifi', name: 'Home', ssid: 'HomeNet' };
+
+      expect(getFieldValue(wifi, 'ssid')).toBe('HomeNet');
+      expect(getFieldValue(wifi, 'password')).toBeUndefined();
+    });
+
+    it('should treat empty strings as missing', () => {
+      const login: VaultEntry = { id: '1', type: 'login', name: 'Site', username: '' };
+
+      expect(getFieldValue(login, 'username')).toBeUndefined();
+    });
+  });
+
+  describe('getEntryUrl', () => {
+    it('should return the url of logins and API tokens only', () => {
+      expect(
+        getEntryUrl({ id: '1', type: 'login', name: 'A', url: 'https://a.com' })
+      ).toBe('https://a.com');
+      expect(
+        getEntryUrl({ id: '2', type: 'apiToken', name: 'B', url: 'https://b.com' })
+      ).toBe('https://b.com');
+      expect(getEntryUrl({ id: '3', type: 'note', name: 'C' })).toBeUndefined();
+    });
+  });
+
+  describe('getEntrySubtitle', () => {
+    it('should use the type subtitle field', () => {
+      expect(
+        getEntrySubtitle({ id: '1', type: 'card', name: 'Visa', cardholderName: 'Jane Doe' })
+      ).toBe('Jane Doe');
+    });
+
+    it('should fall back to the url without scheme', () => {
+      expect(
+        getEntrySubtitle({ id: '1', type: 'login', name: 'GitHub', url: 'https://github.com' })
+      ).toBe('github.com');
+    });
+
+    it('should fall back to the type label', () => {
+      expect(getEntrySubtitle({ id: '1', type: 'note', name: 'Recovery' })).toBe('Secure Note');
+    });
+  });
+
+  describe('custom fields', () => {
+    it('should create blank fields with unique ids', () => {
+      const first = createCustomField();
+      const second = createCustomField('hidden');
+
+      expect(first).toMatchObject({ name: '', type: 'text', value: '' });
+      expect(second.type).toBe('hidden');
+      expect(first.id).not.toBe(second.id);
+    });
+
+    it('should default boolean fields to false', () => {
+      expect(createCustomField('boolean').value).toBe('false');
+    });
+
+    it('should drop blank fields and keep the order of the rest', () => {
+      const fields = [
+        { id: 'a', name: 'Security question', type: 'text' as const, value: 'Blue' },
+        { id: 'b', name: '  ', type: 'text' as const, value: '' },
+        { id: 'c', name: '', type: 'boolean' as const, value: 'false' },
+        { id: 'd', name: ' PIN ', type: 'hidden' as const, value: '1234' },
+      ];
+
+      expect(cleanCustomFields(fields)).toEqual([
+        { id: 'a', name: 'Security question', type: 'text', value: 'Blue' },
+        { id: 'd', name: 'PIN', type: 'hidden', value: '1234' },
+      ]);
+    });
+
+    it('should return undefined when nothing is left', () => {
+      expect(cleanCustomFields([])).toBeUndefined();
+    });
+  });
+
+  describe('updatePasswordHistory', () => {
+    const login: VaultEntry = { id: '1', type: 'login', name: 'GitHub', password: 'old' };
+
+    it('should record a replaced password', () => {
+      const next = { ...login, password: 'new' };
+
+      expect(updatePasswordHistory(login, next, 1000)).toEqual([
+        { field: 'password', value: 'old', changedAt: 1000 },
+      ]);
+    });
+
+    it('should record a cleared password', () => {
+      expect(updatePasswordHistory(login, { ...login, password: undefined }, 1000)).toHaveLength(1);
+    });
+
+    it('should ignore unchanged passwords and other fields', () => {
+      const next = { ...login, username: 'octocat' };
+
+      expect(updatePasswordHistory(login, next, 1000)).toBeUndefined();
+      expect(updatePasswordHistory(undefined, login, 1000)).toBeUndefined();
+    });
+
+    it('should keep the newest entries up to the limit', () => {
+      let entry = login;
+      for (let i = 0; i < MAX_PASSWORD_HISTORY + 5; i++) {
+        const next: VaultEntry = { ...entry, password: `p${i}` };
+        next.passwordHistory = updatePasswordHistory(entry, next, i);
+        entry = next;
+      }
+
+      expect(entry.passwordHistory).toHaveLength(MAX_PASSWORD_HISTORY);
+      expect(entry.passwordHistory![0]).toEqual({
+        field: 'password',
+        value: `p${MAX_PASSWORD_HISTORY + 3}`,
+        changedAt: MAX_PASSWORD_HISTORY + 4,
+      });
+    });
+
+    it('should track other secret fields marked for history', () => {
+      const ssh: VaultEntry = { id: '2', type: 'sshKey', name: 'Server', passphrase: 'a' };
+
+      expect(updatePasswordHistory(ssh, { ...ssh, passphrase: 'b' }, 1)).toEqual([
+        { field: 'passphrase', value: 'a', changedAt: 1 },
+      ]);
+      expect(getHistoryFieldLabel('passphrase')).toBe('Passphrase');
+    });
+  });
+
+  describe('sortEntries', () => {
+    const entries: VaultEntry[] = [
+      { id: '1', type: 'login', name: 'bank', createdAt: 1, updatedAt: 5, lastUsedAt: 9 },
+      { id: '2', type: 'login', name: 'Amazon', createdAt: 3, updatedAt: 3 },
+      { id: '3', type: 'note', name: 'Wi-Fi codes', createdAt: 2, updatedAt: 8, lastUsedAt: 4 },
+      { id: '4', type: 'login', name: 'Legacy' },
+    ];
+    const sorted = (sort: Parameters<typeof sortEntries>[1]) =>
+      sortEntries(entries, sort).map((e) => e.id);
+
+    it('should sort by name ignoring case', () => {
+      expect(sorted('name')).toEqual(['2', '1', '4', '3']);
+    });
+
+    it('should put the newest first for time-based sorts', () => {
+      expect(sorted('lastUsed')).toEqual(['1', '3', '2', '4']);
+      expect(sorted('updated')).toEqual(['3', '1', '2', '4']);
+      expect(sorted('created')).toEqual(['2', '3', '1', '4']);
+    });
+
+    it('should not reorder the input', () => {
+      sortEntries(entries, 'name');
+      expect(entries.map((e) => e.id)).toEqual(['1', '2', '3', '4']);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import { decryptVault, type Vault } from '../../src/lib/crypto';
+import {
+  exportCsv,
+  exportEncryptedBackup,
+  exportJson,
+  exportKeePassXml,
+  saveExportFile,
+} from '../../src/lib/export';
+import { parseCsvRecords } from '../../src/lib/import/csv';
+import { parseKeePassXml } from '../../src/lib/import/keepass';
+
+vi.mock('@tauri-apps/api/core', () => ({
+  invoke: vi.fn(),
+  isTauri: vi.fn(() => false),
+}));
+
+const vault: Vault = {
+  entries: [
+    {
+      id: '1',
+      type: 'login',
+      name: 'GitHub',
+      url: 'https://github.com',
+      username: 'octocat',
+      password: 'hunter2',
+      totp: 'otpauth://totp/x?secret=JBSWY3DP',
+      notes: 'Work, "main" account\nsecond line',
+      fields: [
+        { id: 'f1', name: 'PIN', type: 'hidden', value: '4242' },
+        { id: 'f2', name: 'Password', type: 'text', value: 'clash' },
+      ],
+    },
+    {
+      id: '2',
+      type: 'card',
+      name: 'Visa',
+      cardholderName: 'Jane Doe',
+      number: '4111111111111111',
+    },
+  ],
+};
+
+describe('Export Module', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should write encrypted backups that decrypt with the backup password', async () => {
+    const file = await exportEncryptedBackup(vault, 'backup-password', {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: 100000,
+    });
+    const backup = JSON.parse(file.contents);
+
+    expect(file.fileName).toMatch(/^zcloudpass-backup-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(backup.format).toBe('zcloudpass-backup');
+    expect(backup.version).toBe(1);
+    expect(file.contents).not.toContain('hunter2');
+    expect(await decryptVault(backup.vault, 'backup-password')).toEqual(vault);
+    await expect(decryptVault(backup.vault, 'wrong')).rejects.toThrow();
+  });
+
+  it('should write plaintext JSON', () => {
+    const file = exportJson(vault);
+
+    expect(file.mimeType).toBe('application/json');
+    expect(JSON.parse(file.contents).entries).toEqual(vault.entries);
+  });
+
+  it('should write CSV with one column per field', () => {
+    const records = parseCsvRecords(exportCsv(vault).contents);
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      type: 'login',
+      name: 'GitHub',
+      url: 'https://github.com',
+      username: 'octocat',
+      password: 'hunter2',
+      totp: 'otpauth://totp/x?secret=JBSWY3DP',
+      notes: 'Work, "main" account\nsecond line',
+      fields: 'PIN: 4242\nPassword: clash',
+      number: '',
+    });
+    expect(records[1]).toMatchObject({
+      type: 'card',
+      cardholdername: 'Jane Doe',
+      number: '4111111111111111',
+      password: '',
+    });
+  });
+
+  it('should write KeePass XML that KeePass importers can read back', () => {
+    const file = exportKeePassXml(vault);
+    const [login, card] = parseKeePassXml(file.contents);
+
+    expect(file.contents).toContain('<Value ProtectInMemory="True">hunter2</Value>');
+    expect(login).toMatchObject({
+      name: 'GitHub',
+      url: 'https://github.com',
+      username: 'octocat',
+      password: 'hunter2',
+      totp: 'otpauth://totp/x?secret=JBSWY3DP',
+      notes: 'Work, "main" account\nsecond line',
+    });
+    expect(login.fields?.map(({ name, type, value }) => ({ name, type, value }))).toEqual([
+      { name: 'PIN', type: 'hidden', value: '4242' },
+      { name: 'Password (2)', type: 'text', value: 'clash' },
+    ]);
+    expect(card.fields?.map((f) => [f.name, f.value])).toEqual([
+      ['Cardholder Name', 'Jane Doe'],
+      ['Card Number', '4111111111111111'],
+    ]);
+  });
+
+  it('should download files in the browser', async () => {
+    const createObjectURL = vi.fn(() => 'blob:export');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    const saved = await saveExportFile(exportJson(vault));
+
+    expect(saved).toBe(true);
+    expect(click).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    expect(invoke).not.toHaveBeenCalled();
+    click.mockRestore();
+  });
+
+  it('should use the native save dialog in the desktop app', async () => {
+    (isTauri as any).mockReturnValueOnce(true);
+    (invoke as any).mockResolvedValueOnce(false);
+    const file = exportCsv(vault);
+
+    const saved = await saveExportFile(file);
+
+    expect(saved).toBe(false);
+    expect(invoke).toHaveBeenCalledWith('save_file', {
+      fileName: file.fileName,
+      contents: file.contents,
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import type { VaultEntry } from '../../src/lib/entries';
+import {
+  buildFolderTree,
+  collectTags,
+  createFolder,
+  deleteFolder,
+  flattenFolderTree,
+  getFolderPath,
+  matchesFilter,
+  moveEntries,
+  parseTags,
+  tagEntries,
+} from '../../src/lib/folders';
+
+const folders = [
+  { id: 'work', name: 'Work' },
+  { id: 'servers', name: 'Servers', parentId: 'work' },
+  { id: 'prod', name: 'Production', parentId: 'servers' },
+  { id: 'home', name: 'Home' },
+];
+
+const entry = (id: string, extra: Partial<VaultEntry> = {}): VaultEntry =>
+  ({ id, type: 'login', name: id, ...extra }) as VaultEntry;
+
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('Folders', () => {
+  it('should create folders with a fresh id and trimmed name', () => {
+    const folder = createFolder('  Banking ', 'home');
+    expect(folder).toMatchObject({ name: 'Banking', parentId: 'home' });
+    expect(folder.id).not.toBe(createFolder('Banking').id);
+  });
+
+  it('should nest folders under their parents sorted by name', () => {
+    const tree = buildFolderTree(folders);
+
+    expect(tree.map((n) => n.folder.name)).toEqual(['Home', 'Work']);
+    expect(tree[1].children[0].folder.name).toBe('Servers');
+    expect(tree[1].children[0].children[0].folder.name).toBe('Production');
+  });
+
+  it('should show folders whose parent is gone at the top level', () => {
+    const tree = buildFolderTree([{ id: 'a', name: 'Orphan', parentId: 'missing' }]);
+    expect(tree.map((n) => n.folder.name)).toEqual(['Orphan']);
+  });
+
+  it('should flatten the tree with depths', () => {
+    expect(
+      flattenFolderTree(buildFolderTree(folders)).map(
+        ({ folder, depth }) => `${depth}:${folder.name}`
+      )
+    ).toEqual(['0:Home', '0:Work', '1:Servers', '2:Production']);
+  });
+
+  it('should build the full path of a folder', () => {
+    expect(getFolderPath(folders, 'prod')).toBe('Work / Servers / Production');
+    expect(getFolderPath(folders, 'missing')).toBeUndefined();
+    expect(getFolderPath(folders, undefined)).toBeUndefined();
+  });
+
+  it('should delete subfolders and unfile their entries', () => {
+    const vault = {
+      entries: [entry('a', { folderId: 'prod' }), entry('b', { folderId: 'home' })],
+      folders,
+    };
+
+    const result = deleteFolder(vault, 'servers', NOW);
+
+    expect(result.folders!.map((f) => f.id)).toEqual(['work', 'home']);
+    expect(result.entries[0]).toEqual(entry('a', { folderId: undefined, updatedAt: NOW }));
+    expect(result.entries[1]).toBe(vault.entries[1]);
+  });
+
+  it('should match entries in a folder or any of its subfolders', () => {
+    const inProd = entry('a', { folderId: 'prod' });
+
+    expect(matchesFilter(inProd, { kind: 'folder', id: 'work' }, folders)).toBe(true);
+    expect(matchesFilter(inProd, { kind: 'folder', id: 'home' }, folders)).toBe(false);
+    expect(matchesFilter(entry('b'), { kind: 'folder', id: 'work' }, folders)).toBe(false);
+    expect(matchesFilter(entry('b'), { kind: 'all' }, folders)).toBe(true);
+  });
+
+  it('should move only entries that change folder', () => {
+    const vault = { entries: [entry('a', { folderId: 'home' }), entry('b')] };
+
+    const result = moveEntries(vault, new Set(['a', 'b']), 'home', NOW);
+
+    expect(result.entries[0]).toBe(vault.entries[0]);
+    expect(result.entries[1]).toEqual(entry('b', { folderId: 'home', updatedAt: NOW }));
+  });
+});
+
+describe('Tags', () => {
+  it('should parse comma-separated tags without duplicates', () => {
+    expect(parseTags(' work, Shared,,work , shared ')).toEqual(['work', 'Shared']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  it('should collect every tag in the vault', () => {
+    expect(
+      collectTags([entry('a', { tags: ['work', 'Banking'] }), entry('b', { tags: ['Work'] })])
+    ).toEqual(['Banking', 'work']);
+  });
+
+  it('should match tags case-insensitively', () => {
+    const tagged = entry('a', { tags: ['Work'] });
+    expect(matchesFilter(tagged, { kind: 'tag', tag: 'work' }, [])).toBe(true);
+    expect(matchesFilter(tagged, { kind: 'tag', tag: 'home' }, [])).toBe(false);
+  });
+
+  it('should add a tag to entries that lack it', () => {
+    const vault = { entries: [entry('a', { tags: ['WORK'] }), entry('b'), entry('c')] };
+
+    const result = tagEntries(vault, new Set(['a', 'b']), 'work', NOW);
+
+    expect(result.entries[0]).toBe(vault.entries[0]);
+    expect(result.entries[1]).toEqual(entry('b', { tags: ['work'], updatedAt: NOW }));
+    expect(result.entries[2]).toBe(vault.entries[2]);
+  });
+});
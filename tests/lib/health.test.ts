@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import type { VaultEntry } from '../../src/lib/entries';
+import { analyzeVault, collectPasswords } from '../../src/lib/health';
+
+const NOW = Date.UTC(2026, 6, 1);
+const MONTH = 30 * 24 * 60 * 60 * 1000;
+const STRONG = 'x7#Kq9!mZ2@w';
+
+const login = (id: string, password: string, extra: Partial<VaultEntry> = {}): VaultEntry =>
+  ({ id, type: 'login', name: `Entry ${id}`, password, createdAt: NOW, ...extra }) as VaultEntry;
+
+describe('Health Module', () => {
+  it('should collect password-like fields only', () => {
+    const items = collectPasswords({
+      entries: [
+        login('1', STRONG, { username: 'alice' }),
+        { id: '2', type: 'wifi', name: 'Home', ssid: 'net', password: 'wifi-pass' },
+        { id: '3', type: 'card', name: 'Visa', number: '4111', cvv: '123' },
+        { id: '4', type: 'note', name: 'Note', notes: 'password' },
+      ],
+    });
+
+    expect(items.map((i) => `${i.entry.id}:${i.field}`)).toEqual(['1:password', '2:password']);
+  });
+
+  it('should flag weak passwords, weakest first', () => {
+    const report = analyzeVault(
+      { entries: [login('1', STRONG), login('2', 'Summer2024!'), login('3', 'password')] },
+      { now: NOW }
+    );
+
+    expect(report.weak.map((i) => i.entry.id)).toEqual(['3', '2']);
+  });
+
+  it('should group reused passwords', () => {
+    const report = analyzeVault(
+      {
+        entries: [
+          login('1', STRONG),
+          login('2', 'k8Hs2Lw0Pq'),
+          login('3', STRONG),
+          { id: '4', type: 'wifi', name: 'Home', password: STRONG },
+        ],
+      },
+      { now: NOW }
+    );
+
+    expect(report.reused.map((g) => g.map((i) => i.entry.id))).toEqual([['1', '3', '4']]);
+  });
+
+  it('should flag passwords older than the chosen age', () => {
+    const entries = [
+      login('1', STRONG, { createdAt: NOW - 18 * MONTH }),
+      login('2', 'k8Hs2Lw0Pq', {
+        createdAt: NOW - 30 * MONTH,
+        passwordHistory: [{ field: 'password', value: 'old', changedAt: NOW - 2 * MONTH }],
+      }),
+      login('3', 'Zq3!vB8#nL1w', { createdAt: undefined }),
+    ];
+
+    expect(analyzeVault({ entries }, { now: NOW }).old.map((i) => i.entry.id)).toEqual(['1']);
+    expect(
+      analyzeVault({ entries }, { now: NOW, maxAgeMonths: 24 }).old.map((i) => i.entry.id)
+    ).toEqual([]);
+    expect(
+      analyzeVault({ entries }, { now: NOW, maxAgeMonths: 1 }).old.map((i) => i.entry.id)
+    ).toEqual(['1', '2']);
+  });
+
+  it('should flag breached passwords, most breached first', () => {
+    const report = analyzeVault(
+      { entries: [login('1', STRONG), login('2', 'k8Hs2Lw0Pq'), login('3', 'Zq3!vB8#nL1w')] },
+      {
+        now: NOW,
+        breaches: new Map([
+          [STRONG, 3],
+          ['Zq3!vB8#nL1w', 120],
+        ]),
+      }
+    );
+
+    expect(report.breached.map((i) => [i.entry.id, i.breachCount])).toEqual([
+      ['3', 120],
+      ['1', 3],
+    ]);
+    expect(report.score).toBe(33);
+  });
+
+  it('should score the share of passwords without issues', () => {
+    expect(analyzeVault({ entries: [] }, { now: NOW }).score).toBe(100);
+    expect(
+      analyzeVault(
+        {
+          entries: [
+            login('1', STRONG),
+            login('2', 'k8Hs2Lw0Pq'),
+            login('3', 'password'),
+            login('4', 'password'),
+          ],
+        },
+        { now: NOW }
+      )
+    ).toMatchObject({ score: 50, total: 4 });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvRecords, pickColumn, requireColumns } from '../../../src/lib/import/csv';
+
+describe('CSV Reader', () => {
+  it('should split simple rows', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('should handle quoted commas, quotes and newlines', () => {
+    const text = 'name,notes\n"Bank, Inc","He said ""hi""\nsecond line"\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'notes'],
+      ['Bank, Inc', 'He said "hi"\nsecond line'],
+    ]);
+  });
+
+  it('should handle CRLF line endings, a BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\r\n\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should keep empty cells', () => {
+    expect(parseCsv('a,,c\n,2,')).toEqual([
+      ['a', '', 'c'],
+      ['', '2', ''],
+    ]);
+  });
+
+  it('should key records by lowercased header', () => {
+    const records = parseCsvRecords('Title, URL\nGitHub,https://github.com\nShort');
+
+    expect(records).toEqual([
+      { title: 'GitHub', url: 'https://github.com' },
+      { title: 'Short', url: '' },
+    ]);
+  });
+
+  it('should pick the first non-empty column', () => {
+    expect(pickColumn({ url: '', website: 'example.com' }, 'url', 'website')).toBe(
+      'example.com'
+    );
+    expect(pickColumn({}, 'url')).toBe('');
+  });
+
+  it('should report missing columns', () => {
+    const records = parseCsvRecords('name,url\nx,y');
+
+    expect(() => requireColumns(records, ['name', 'password'], 'Test CSV')).toThrow(
+      'This file is not a Test CSV export (missing column: password)'
+    );
+  });
+});
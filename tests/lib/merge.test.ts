@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import type { VaultEntry } from '../../src/lib/entries';
+import { applyConflictChoices, mergeVaults } from '../../src/lib/merge';
+
+const login = (
+  id: string,
+  name: string,
+  password = 'secret',
+  updatedAt?: number
+): VaultEntry => ({
+  id,
+  type: 'login',
+  name,
+  password,
+  ...(updatedAt !== undefined && { updatedAt }),
+});
+
+const names = (entries: VaultEntry[]) => entries.map((e) => e.name);
+
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('mergeVaults', () => {
+  describe('with a common base', () => {
+    const base = { entries: [login('1', 'GitHub'), login('2', 'Mail')] };
+
+    it('should keep entries added on either side', () => {
+      const local = { entries: [...base.entries, login('3', 'Bank')] };
+      const remote = { entries: [...base.entries, login('4', 'Shop')] };
+
+      const { vault, conflicts } = mergeVaults(local, remote, base, NOW);
+
+      expect(names(vault.entries)).toEqual(['GitHub', 'Mail', 'Shop', 'Bank']);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should apply edits made on one side', () => {
+      const local = { entries: [login('1', 'GitHub', 'new'), base.entries[1]] };
+      const remote = { entries: [base.entries[0], login('2', 'Webmail')] };
+
+      const { vault } = mergeVaults(local, remote, base, NOW);
+
+      expect(vault.entries).toEqual([login('1', 'GitHub', 'new'), login('2', 'Webmail')]);
+    });
+
+    it('should apply deletions of unchanged entries', () => {
+      const local = {
+        entries: [base.entries[1]],
+        tombstones: [{ id: '1', deletedAt: NOW }],
+      };
+
+      const { vault, conflicts } = mergeVaults(local, base, base, NOW);
+
+      expect(names(vault.entries)).toEqual(['Mail']);
+      expect(vault.tombstones).toEqual([{ id: '1', deletedAt: NOW }]);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should report entries both sides edited differently', () => {
+      const local = { entries: [login('1', 'GitHub', 'mine'), base.entries[1]] };
+      const remote = { entries: [login('1', 'GitHub', 'theirs'), base.entries[1]] };
+
+      const { vault, conflicts } = mergeVaults(local, remote, base, NOW);
+
+      expect(conflicts).toEqual([
+        { id: '1', local: local.entries[0], remote: remote.entries[0] },
+      ]);
+      expect(vault.entries[0]).toEqual(login('1', 'GitHub', 'mine'));
+    });
+
+    it('should report an entry edited on one side and deleted on the other', () => {
+      const local = {
+        entries: [base.entries[1]],
+        tombstones: [{ id: '1', deletedAt: NOW }],
+      };
+      const remote = { entries: [login('1', 'GitHub', 'rotated'), base.entries[1]] };
+
+      const { vault, conflicts } = mergeVaults(local, remote, base, NOW);
+
+      expect(conflicts).toEqual([{ id: '1', local: null, remote: remote.entries[0] }]);
+      expect(names(vault.entries)).toEqual(['Mail']);
+    });
+  });
+
+  describe('without a base', () => {
+    it('should keep the most recently edited version', () => {
+      const local = { entries: [login('1', 'GitHub', 'old', 100)] };
+      const remote = { entries: [login('1', 'GitHub', 'new', 200)] };
+
+      const { vault, conflicts } = mergeVaults(local, remote, null, NOW);
+
+      expect(vault.entries).toEqual(remote.entries);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should apply deletions newer than the last edit', () => {
+      const local = { entries: [], tombstones: [{ id: '1', deletedAt: 300 }] };
+      const remote = { entries: [login('1', 'GitHub', 'secret', 200)] };
+
+      expect(mergeVaults(local, remote, null, NOW).vault.entries).toEqual([]);
+    });
+
+    it('should report edits made after the other side deleted the entry', () => {
+      const local = { entries: [login('1', 'GitHub', 'secret', 400)] };
+      const remote = { entries: [], tombstones: [{ id: '1', deletedAt: 300 }] };
+
+      const { vault, conflicts } = mergeVaults(local, remote, null, NOW);
+
+      expect(conflicts).toEqual([{ id: '1', local: local.entries[0], remote: null }]);
+      expect(vault.entries).toEqual(local.entries);
+      expect(vault.tombstones).toEqual([]);
+    });
+
+    it('should report differing entries with the same timestamp', () => {
+      const local = { entries: [login('1', 'GitHub', 'mine')] };
+      const remote = { entries: [login('1', 'GitHub', 'theirs')] };
+
+      expect(mergeVaults(local, remote, null, NOW).conflicts).toHaveLength(1);
+    });
+  });
+
+  it('should not treat a newer last-used time as an edit', () => {
+    const base = { entries: [login('1', 'GitHub')] };
+    const local = { entries: [{ ...login('1', 'GitHub', 'rotated'), updatedAt: 5 }] };
+    const remote = { entries: [{ ...login('1', 'GitHub'), lastUsedAt: 7 }] };
+
+    const { vault, conflicts } = mergeVaults(local, remote, base, NOW);
+
+    expect(conflicts).toEqual([]);
+    expect(vault.entries).toEqual([
+      { ...login('1', 'GitHub', 'rotated'), updatedAt: 5, lastUsedAt: 7 },
+    ]);
+  });
+
+  it('should merge folders added, renamed and deleted on either side', () => {
+    const base = {
+      entries: [],
+      folders: [
+        { id: 'a', name: 'Work' },
+        { id: 'b', name: 'Home' },
+        { id: 'c', name: 'Old' },
+      ],
+    };
+    const local = {
+      entries: [],
+      folders: [{ id: 'a', name: 'Work' }, { id: 'b', name: 'House' }, { id: 'd', name: 'New' }],
+    };
+    const remote = {
+      entries: [],
+      folders: [{ id: 'a', name: 'Office' }, { id: 'b', name: 'Home' }, { id: 'c', name: 'Old' }],
+    };
+
+    expect(mergeVaults(local, remote, base, NOW).vault.folders).toEqual([
+      { id: 'a', name: 'Office' },
+      { id: 'b', name: 'House' },
+      { id: 'd', name: 'New' },
+    ]);
+  });
+
+  it('should keep folders from both sides without a base', () => {
+    const local = { entries: [], folders: [{ id: 'a', name: 'Work' }] };
+    const remote = { entries: [], folders: [{ id: 'b', name: 'Home' }] };
+
+    expect(mergeVaults(local, remote, null, NOW).vault.folders).toEqual([
+      { id: 'b', name: 'Home' },
+      { id: 'a', name: 'Work' },
+    ]);
+  });
+
+  it('should drop expired tombstones', () => {
+    const old = NOW - 365 * 24 * 60 * 60 * 1000;
+    const local = { entries: [], tombstones: [{ id: '1', deletedAt: old }] };
+    const remote = { entries: [], tombstones: [{ id: '2', deletedAt: NOW }] };
+
+    expect(mergeVaults(local, remote, null, NOW).vault.tombstones).toEqual([
+      { id: '2', deletedAt: NOW },
+    ]);
+  });
+});
+
+describe('applyConflictChoices', () => {
+  const mine = login('1', 'GitHub', 'mine');
+  const theirs = login('1', 'GitHub', 'theirs');
+  const mail = login('2', 'Mail');
+  const merged = { entries: [mine, mail], tombstones: [] };
+  const conflicts = [{ id: '1', local: mine, remote: theirs }];
+
+  it('should keep the chosen version in place', () => {
+    expect(applyConflictChoices(merged, conflicts, { '1': 'remote' }, NOW).entries).toEqual([
+      theirs,
+      mail,
+    ]);
+    expect(applyConflictChoices(merged, conflicts, { '1': 'local' }, NOW).entries).toEqual([
+      mine,
+      mail,
+    ]);
+  });
+
+  it('should keep both versions as separate entries', () => {
+    const { entries } = applyConflictChoices(merged, conflicts, { '1': 'both' }, NOW);
+
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toEqual(theirs);
+    expect(entries[1]).toMatchObject({ name: 'GitHub', password: 'mine' });
+    expect(entries[1].id).not.toBe('1');
+  });
+
+  it('should record a tombstone when the deletion wins', () => {
+    const deleted = [{ id: '1', local: null, remote: theirs }];
+    const vault = { entries: [mail], tombstones: [] };
+
+    const result = applyConflictChoices(vault, deleted, { '1': 'local' }, NOW);
+    expect(result.entries).toEqual([mail]);
+    expect(result.tombstones).toEqual([{ id: '1', deletedAt: NOW }]);
+
+    const restored = applyConflictChoices(vault, deleted, { '1': 'remote' }, NOW);
+    expect(restored.entries).toEqual([mail, theirs]);
+    expect(restored.tombstones).toEqual([]);
+  });
+});
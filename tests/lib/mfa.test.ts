@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTotpSecret,
+  otpauthQrCode,
+  parseMfaCode,
+  recoveryCodesFile,
+} from '../../src/lib/mfa';
+
+describe('MFA helpers', () => {
+  describe('parseMfaCode', () => {
+    it('should accept authenticator codes typed in groups', () => {
+      expect(parseMfaCode('123456')).toEqual({ code: '123456' });
+      expect(parseMfaCode(' 123 456 ')).toEqual({ code: '123456' });
+      expect(parseMfaCode('1234-5678')).toEqual({ code: '12345678' });
+    });
+
+    it('should reject anything that is not an authenticator code', () => {
+      expect(parseMfaCode('')).toBeNull();
+      expect(parseMfaCode('12345')).toBeNull();
+      expect(parseMfaCode('abcd-efgh')).toBeNull();
+    });
+
+    it('should pass recovery codes through without whitespace', () => {
+      expect(parseMfaCode(' abcd-efgh ', true)).toEqual({ recovery_code: 'abcd-efgh' });
+      expect(parseMfaCode('   ', true)).toBeNull();
+    });
+  });
+
+  it('should group the secret for typing by hand', () => {
+    expect(formatTotpSecret('JBSWY3DPEHPK3PXP')).toBe('JBSW Y3DP EHPK 3PXP');
+    expect(formatTotpSecret('JBSWY3')).toBe('JBSW Y3');
+  });
+
+  it('should render the otpauth URL as an SVG QR code', async () => {
+    const url = await otpauthQrCode(
+      'otpauth://totp/zCloudPass:user@example.com?secret=JBSWY3DPEHPK3PXP&issuer=zCloudPass'
+    );
+
+    expect(url.startsWith('data:image/svg+xml;charset=utf-8,')).toBe(true);
+    expect(decodeURIComponent(url)).toContain('<svg');
+  });
+
+  it('should list the recovery codes in a text file', () => {
+    const file = recoveryCodesFile(['abcd-efgh', 'ijkl-mnop'], 'user@example.com');
+
+    expect(file.fileName).toBe('zcloudpass-recovery-codes.txt');
+    expect(file.mimeType).toBe('text/plain');
+    expect(file.contents).toContain('Account: user@example.com');
+    expect(file.contents).toContain('abcd-efgh\nijkl-mnop\n');
+  });
+});
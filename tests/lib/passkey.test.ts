@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  clearPasskeys,
+  enrollPasskey,
+  isPasskeySupported,
+  listPasskeys,
+  removePasskey,
+  unlockWithPasskey,
+} from '../../src/lib/passkey';
+import { installVirtualAuthenticator } from '../virtual-authenticator';
+
+const EMAIL = 'user@example.com';
+const VAULT_KEY = 'c2VjcmV0LXZhdWx0LWtleQ==';
+
+describe('Passkey unlock', () => {
+  let authenticator: ReturnType<typeof installVirtualAuthenticator>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    authenticator = installVirtualAuthenticator();
+  });
+
+  afterEach(() => {
+    authenticator.uninstall();
+  });
+
+  it('should only be offered where WebAuthn exists', () => {
+    expect(isPasskeySupported()).toBe(true);
+
+    authenticator.uninstall();
+    expect(isPasskeySupported()).toBe(false);
+  });
+
+  it('should give back the vault key with the enrolled passkey', async () => {
+    const record = await enrollPasskey(EMAIL, VAULT_KEY, 'Laptop');
+
+    expect(record.name).toBe('Laptop');
+    expect(listPasskeys(EMAIL)).toEqual([record]);
+    expect(listPasskeys('other@example.com')).toEqual([]);
+    expect(await unlockWithPasskey(EMAIL)).toBe(VAULT_KEY);
+
+    // Once to create it, once more to evaluate the PRF
+    expect(authenticator.container.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip the second prompt when PRF runs on creation', async () => {
+    authenticator.uninstall();
+    authenticator = installVirtualAuthenticator({ prfOnCreate: true });
+
+    await enrollPasskey(EMAIL, VAULT_KEY, '');
+
+    expect(authenticator.container.get).not.toHaveBeenCalled();
+    expect(listPasskeys(EMAIL)[0].name).toBe('Passkey');
+    expect(await unlockWithPasskey(EMAIL)).toBe(VAULT_KEY);
+  });
+
+  it('should never store the vault key in the clear', async () => {
+    await enrollPasskey(EMAIL, VAULT_KEY, 'Laptop');
+
+    expect(localStorage.getItem('vault_passkeys')).not.toContain(VAULT_KEY);
+  });
+
+  it('should refuse authenticators without PRF', async () => {
+    authenticator.uninstall();
+    authenticator = installVirtualAuthenticator({ prf: false });
+
+    await expect(enrollPasskey(EMAIL, VAULT_KEY, 'Key')).rejects.toThrow(
+      "This authenticator can't unlock the vault"
+    );
+    expect(listPasskeys(EMAIL)).toEqual([]);
+  });
+
+  it('should report a dismissed prompt', async () => {
+    authenticator.cancelNextRequest();
+    await expect(enrollPasskey(EMAIL, VAULT_KEY, 'Laptop')).rejects.toThrow(
+      'Passkey setup was cancelled'
+    );
+
+    await enrollPasskey(EMAIL, VAULT_KEY, 'Laptop');
+    authenticator.cancelNextRequest();
+    await expect(unlockWithPasskey(EMAIL)).rejects.toThrow('Passkey unlock was cancelled');
+  });
+
+  it('should not unwrap with a different PRF secret', async () => {
+    await enrollPasskey(EMAIL, VAULT_KEY, 'Laptop');
+    // The same credential id, answered with another secret
+    const [credential] = authenticator.credentials.values();
+    credential.secret = await crypto.subtle.generateKey(
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    await expect(unlockWithPasskey(EMAIL)).rejects.toThrow(
+      'This passkey no longer matches your vault'
+    );
+  });
+
+  it('should remove one passkey or all of an account', async () => {
+    const first = await enrollPasskey(EMAIL, VAULT_KEY, 'Laptop');
+    await enrollPasskey(EMAIL, VAULT_KEY, 'Phone');
+    await enrollPasskey('other@example.com', 'other-key', 'Other');
+
+    removePasskey(first.id);
+    expect(listPasskeys(EMAIL).map((record) => record.name)).toEqual(['Phone']);
+
+    clearPasskeys(EMAIL);
+    expect(listPasskeys(EMAIL)).toEqual([]);
+    expect(listPasskeys('other@example.com')).toHaveLength(1);
+    await expect(unlockWithPasskey(EMAIL)).rejects.toThrow('No passkey is set up on this device');
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import type { VaultEntry } from '../../src/lib/entries';
+import { fuzzyMatch, parseSearchQuery, searchEntries } from '../../src/lib/search';
+
+const entries: VaultEntry[] = [
+  {
+    id: '1',
+    type: 'login',
+    name: 'GitHub',
+    username: 'alice',
+    url: 'https://github.com',
+    password: 'hunter2',
+    tags: ['work'],
+  },
+  {
+    id: '2',
+    type: 'login',
+    name: 'Gmail',
+    username: 'bob@gmail.com',
+    password: 'github',
+    notes: 'Recovery phone is the old one',
+  },
+  {
+    id: '3',
+    type: 'note',
+    name: 'Wi-Fi codes',
+    fields: [
+      { id: 'a', name: 'Router', type: 'text', value: 'Netgear' },
+      { id: 'b', name: 'Admin PIN', type: 'hidden', value: '4242' },
+    ],
+  },
+  {
+    id: '4',
+    type: 'identity',
+    name: 'Passport',
+    email: 'alice@example.com',
+    documentNumber: 'X123',
+    tags: ['Travel', 'work'],
+  },
+];
+
+const ids = (query: string) => searchEntries(entries, query).map((r) => r.entry.id);
+
+describe('Search Module', () => {
+  describe('parseSearchQuery', () => {
+    it('should split terms and recognise scopes', () => {
+      expect(parseSearchQuery('url:github  alice Tag:Work')).toEqual([
+        { value: 'github', scope: 'url' },
+        { value: 'alice', scope: undefined },
+        { value: 'Work', scope: 'tag' },
+      ]);
+    });
+
+    it('should keep quoted phrases together', () => {
+      expect(parseSearchQuery('tag:"side project" "old one"')).toEqual([
+        { value: 'side project', scope: 'tag' },
+        { value: 'old one', scope: undefined },
+      ]);
+    });
+
+    it('should treat unknown prefixes as text and skip unfinished scopes', () => {
+      expect(parseSearchQuery('host:8080 https://x.io url:')).toEqual([
+        { value: 'host:8080', scope: undefined },
+        { value: 'https://x.io', scope: undefined },
+      ]);
+    });
+  });
+
+  describe('fuzzyMatch', () => {
+    it('should prefer substrings at word starts', () => {
+      expect(fuzzyMatch('hub', 'GitHub hub')!.indices).toEqual([7, 8, 9]);
+      expect(fuzzyMatch('git', 'GitHub')!.score).toBeGreaterThan(
+        fuzzyMatch('hub', 'GitHub')!.score
+      );
+    });
+
+    it('should match characters in order with gaps', () => {
+      expect(fuzzyMatch('gthb', 'GitHub')!.indices).toEqual([0, 2, 3, 5]);
+      expect(fuzzyMatch('bg', 'GitHub')).toBeNull();
+    });
+
+    it('should reject matches spread across long text', () => {
+      expect(fuzzyMatch('ab', 'a' + 'x'.repeat(20) + 'b')).toBeNull();
+    });
+  });
+
+  describe('searchEntries', () => {
+    it('should return everything for an empty query', () => {
+      expect(ids('  ')).toEqual(['1', '2', '3', '4']);
+    });
+
+    it('should rank name matches above other fields', () => {
+      expect(ids('git')).toEqual(['1']);
+      expect(ids('gm')[0]).toBe('2');
+    });
+
+    it('should require every term to match', () => {
+      expect(ids('alice work')).toEqual(['1', '4']);
+      expect(ids('alice travel')).toEqual(['4']);
+    });
+
+    it('should scope terms to a field', () => {
+      expect(ids('url:github')).toEqual(['1']);
+      expect(ids('user:alice')).toEqual(['1', '4']);
+      expect(ids('user:bob')).toEqual(['2']);
+      expect(ids('tag:travel')).toEqual(['4']);
+      expect(ids('note:"old one"')).toEqual(['2']);
+    });
+
+    it('should not fuzzy match scoped terms', () => {
+      expect(ids('url:ghb')).toEqual([]);
+    });
+
+    it('should search notes and custom fields but never secrets', () => {
+      expect(ids('recovery')).toEqual(['2']);
+      expect(ids('netgear')).toEqual(['3']);
+      expect(ids('router')).toEqual(['3']);
+      expect(ids('hunter2')).toEqual([]);
+      expect(ids('4242')).toEqual([]);
+      expect(ids('X123')).toEqual([]);
+    });
+
+    it('should report matched characters in the name and subtitle', () => {
+      const [result] = searchEntries(entries, 'gi ali');
+
+      expect(result.highlights).toEqual({ name: [0, 1], subtitle: [0, 1, 2] });
+    });
+
+    it('should not highlight the type label subtitle', () => {
+      const [result] = searchEntries(entries, 'router e');
+
+      expect(result.entry.id).toBe('3');
+      expect(result.highlights.subtitle).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { api, ApiError } from '../../src/lib/api';
+import {
+  checkSession,
+  getSessionState,
+  refreshSession,
+  startSessionWatch,
+  subscribeSession,
+} from '../../src/lib/session';
+
+vi.mock('../../src/lib/api', async () => ({
+  ...(await vi.importActual<typeof import('../../src/lib/api')>('../../src/lib/api')),
+  api: {
+    isAuthenticated: vi.fn(),
+    getSessionExpiry: vi.fn(),
+    refreshSession: vi.fn(),
+  },
+}));
+
+const NOW = Date.UTC(2026, 6, 1);
+const MINUTE = 60 * 1000;
+
+const expiresIn = (ms: number | null) =>
+  (api.getSessionExpiry as any).mockReturnValue(ms === null ? null : Date.now() + ms);
+
+describe('Session', () => {
+  let stop: () => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.clearAllMocks();
+    (api.isAuthenticated as any).mockReturnValue(true);
+    expiresIn(null);
+    (api.refreshSession as any).mockResolvedValue({
+      session_token: 'new-token',
+      expires_at: new Date(NOW + 60 * MINUTE).toISOString(),
+    });
+    // Start each test from a fresh, active session
+    stop = startSessionWatch();
+  });
+
+  afterEach(() => {
+    stop();
+    vi.useRealTimers();
+  });
+
+  it('should stay active without refreshing far from expiry', () => {
+    expiresIn(30 * MINUTE);
+
+    expect(checkSession()).toBe('active');
+    expect(api.refreshSession).not.toHaveBeenCalled();
+  });
+
+  it('should stay active when the backend gives no expiry', () => {
+    expiresIn(null);
+
+    expect(checkSession()).toBe('active');
+  });
+
+  it('should refresh shortly before expiry', async () => {
+    expiresIn(4 * MINUTE);
+
+    checkSession();
+    await vi.waitFor(() => expect(api.refreshSession).toHaveBeenCalledTimes(1));
+    expect(getSessionState()).toBe('active');
+  });
+
+  it('should warn when refreshing fails and retry later', async () => {
+    (api.refreshSession as any).mockRejectedValue(new ApiError(404, 'Not found'));
+    expiresIn(4 * MINUTE);
+
+    checkSession();
+    await vi.waitFor(() => expect(getSessionState()).toBe('expiring'));
+
+    checkSession();
+    expect(api.refreshSession).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(30000);
+    await vi.waitFor(() => expect(api.refreshSession).toHaveBeenCalledTimes(2));
+  });
+
+  it('should expire when the refresh is refused', async () => {
+    (api.refreshSession as any).mockRejectedValue(new ApiError(401, 'Session expired'));
+    expiresIn(4 * MINUTE);
+
+    checkSession();
+
+    await vi.waitFor(() => expect(getSessionState()).toBe('expired'));
+  });
+
+  it('should expire once the expiry passes or the token is dropped', () => {
+    expiresIn(-1);
+    expect(checkSession()).toBe('expired');
+
+    expiresIn(30 * MINUTE);
+    expect(checkSession()).toBe('active');
+
+    (api.isAuthenticated as any).mockReturnValue(false);
+    expect(checkSession()).toBe('expired');
+  });
+
+  it('should share one refresh between concurrent calls', async () => {
+    const [first, second] = await Promise.all([refreshSession(), refreshSession()]);
+
+    expect(first).toBe(true);
+    expect(second).toBe(true);
+    expect(api.refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check periodically and notify subscribers', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeSession(listener);
+    expiresIn(MINUTE / 2);
+    (api.refreshSession as any).mockReturnValue(new Promise(() => {}));
+
+    vi.advanceTimersByTime(15000);
+    expect(getSessionState()).toBe('active');
+
+    vi.advanceTimersByTime(15000);
+    expect(getSessionState()).toBe('expired');
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('should forget the state when stopped', () => {
+    (api.isAuthenticated as any).mockReturnValue(false);
+    checkSession();
+
+    stop();
+
+    expect(getSessionState()).toBe('active');
+  });
+});
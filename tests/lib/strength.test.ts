@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { estimateStrength } from '../../src/lib/strength';
+
+describe('Strength Module', () => {
+  it('should score an empty password as zero', () => {
+    expect(estimateStrength('')).toEqual({ entropy: 0, score: 0, patterns: [] });
+  });
+
+  it('should recognise common passwords, including l33t and capitalised forms', () => {
+    for (const password of ['password', 'P@ssw0rd', 'Iloveyou', 'drowssap']) {
+      const estimate = estimateStrength(password);
+      expect(estimate.score).toBe(0);
+      expect(estimate.patterns).toContain('common password');
+    }
+  });
+
+  it('should recognise keyboard walks, sequences and repeats', () => {
+    expect(estimateStrength('asdfghjkl').patterns).toEqual(['keyboard pattern']);
+    expect(estimateStrength('lmnopq').patterns).toEqual(['sequence']);
+    expect(estimateStrength('zzzzzzzz').patterns).toEqual(['repeated characters']);
+  });
+
+  it('should see through a word with a year appended', () => {
+    const estimate = estimateStrength('Summer2024!');
+
+    expect(estimate.patterns).toEqual(['common password', 'year']);
+    expect(estimate.score).toBeLessThan(3);
+  });
+
+  it('should rate random passwords as strong', () => {
+    expect(estimateStrength('x7#Kq9!mZ2@w')).toMatchObject({ score: 4, patterns: [] });
+    expect(estimateStrength('k8Hs2Lw0Pq').score).toBe(4);
+  });
+
+  it('should give more entropy to longer passwords of the same kind', () => {
+    expect(estimateStrength('k8Hs2Lw0Pq7x').entropy).toBeGreaterThan(
+      estimateStrength('k8Hs2Lw0Pq').entropy
+    );
+  });
+});
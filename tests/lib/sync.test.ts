@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { api, ApiError } from '../../src/lib/api';
+import { writeCache } from '../../src/lib/cache';
+
+const store = new Map<string, unknown>();
+
+vi.mock('../../src/lib/api', async () => {
+  const actual = await vi.importActual<typeof import('../../src/lib/api')>(
+    '../../src/lib/api'
+  );
+  return {
+    ApiError: actual.ApiError,
+    api: {
+      getVault: vi.fn(),
+      updateVault: vi.fn(),
+      checkHealth: vi.fn(),
+      getAccountEmail: vi.fn(() => 'User@Example.com'),
+    },
+  };
+});
+
+vi.mock('../../src/lib/cache', () => ({
+  readCache: vi.fn(async (key: string) => store.get(key) ?? null),
+  writeCache: vi.fn(async (key: string, value: unknown) => {
+    store.set(key, value);
+  }),
+  removeCache: vi.fn(async (key: string) => {
+    store.delete(key);
+  }),
+}));
+
+// sync.ts keeps its state at module level; load a fresh copy per test
+const loadSync = () => import('../../src/lib/sync');
+
+describe('Vault sync', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    store.clear();
+  });
+
+  it('should cache the vault fetched from the server', async () => {
+    const sync = await loadSync();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'remote' });
+
+    const result = await sync.loadEncryptedVault();
+
+    expect(result).toEqual({ encrypted_vault: 'remote', offline: false });
+    expect(store.get('vault:user@example.com')).toMatchObject({
+      encrypted_vault: 'remote',
+    });
+    expect(sync.getSyncState()).toBe('synced');
+  });
+
+  it('should fall back to the cache when the server is unreachable', async () => {
+    const sync = await loadSync();
+    store.set('vault:user@example.com', { encrypted_vault: 'cached', cachedAt: 1 });
+    (api.getVault as any).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = await sync.loadEncryptedVault();
+
+    expect(result).toEqual({ encrypted_vault: 'cached', offline: true });
+    expect(sync.getSyncState()).toBe('offline');
+  });
+
+  it('should rethrow when offline with nothing cached', async () => {
+    const sync = await loadSync();
+    (api.getVault as any).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(sync.loadEncryptedVault()).rejects.toThrow('Failed to fetch');
+  });
+
+  it('should not use the cache for client errors', async () => {
+    const sync = await loadSync();
+    store.set('vault:user@example.com', { encrypted_vault: 'cached', cachedAt: 1 });
+    (api.getVault as any).mockRejectedValue(new ApiError(401, 'Unauthorized'));
+
+    await expect(sync.loadEncryptedVault()).rejects.toThrow('Unauthorized');
+  });
+
+  it('should prefer queued changes over the server copy', async () => {
+    const sync = await loadSync();
+    store.set('queue:user@example.com', {
+      encrypted_vault: 'local',
+      queuedAt: 1,
+      base: { encrypted_vault: null, revision: null },
+    });
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'remote' });
+    (api.updateVault as any).mockResolvedValue({});
+
+    const result = await sync.loadEncryptedVault();
+
+    expect(result.encrypted_vault).toBe('local');
+    await sync.flushVaultQueue();
+    expect(api.updateVault).toHaveBeenCalledWith({ encrypted_vault: 'local' }, null);
+    expect(store.has('queue:user@example.com')).toBe(false);
+  });
+
+  it('should push queued updates and clear the queue', async () => {
+    const sync = await loadSync();
+    (api.updateVault as any).mockResolvedValue({});
+
+    const state = await sync.queueVaultUpdate('blob');
+
+    expect(state).toBe('synced');
+    expect(api.updateVault).toHaveBeenCalledWith({ encrypted_vault: 'blob' }, null);
+    expect(store.has('queue:user@example.com')).toBe(false);
+    expect(store.get('vault:user@example.com')).toMatchObject({ encrypted_vault: 'blob' });
+  });
+
+  it('should make updates conditional on the revision they were based on', async () => {
+    const sync = await loadSync();
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'remote', revision: 'r1' });
+    (api.updateVault as any).mockResolvedValue({ revision: 'r2' });
+
+    await sync.loadEncryptedVault();
+    await sync.queueVaultUpdate('edit-1');
+    await sync.queueVaultUpdate('edit-2');
+
+    expect(api.updateVault).toHaveBeenNthCalledWith(1, { encrypted_vault: 'edit-1' }, 'r1');
+    expect(api.updateVault).toHaveBeenNthCalledWith(2, { encrypted_vault: 'edit-2' }, 'r2');
+    expect(store.get('vault:user@example.com')).toMatchObject({
+      encrypted_vault: 'edit-2',
+      revision: 'r2',
+    });
+  });
+
+  it('should keep updates queued when another device saved first', async () => {
+    const sync = await loadSync();
+    store.set('vault:user@example.com', { encrypted_vault: 'base', revision: 'r1', cachedAt: 1 });
+    (api.updateVault as any).mockRejectedValue(
+      new ApiError(412, 'The vault was changed on another device')
+    );
+
+    const state = await sync.queueVaultUpdate('local');
+
+    expect(state).toBe('conflict');
+    expect(store.get('queue:user@example.com')).toMatchObject({
+      encrypted_vault: 'local',
+      base: { encrypted_vault: 'base', revision: 'r1' },
+    });
+  });
+
+  it('should push a merge on top of the remote revision', async () => {
+    const sync = await loadSync();
+    store.set('vault:user@example.com', { encrypted_vault: 'base', revision: 'r1', cachedAt: 1 });
+    (api.updateVault as any).mockRejectedValueOnce(new ApiError(409, 'Conflict'));
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'remote', revision: 'r2' });
+    await sync.queueVaultUpdate('local');
+
+    const conflict = await sync.fetchVaultConflict();
+    expect(conflict).toMatchObject({
+      base: 'base',
+      local: 'local',
+      remote: { encrypted_vault: 'remote', revision: 'r2' },
+    });
+
+    (api.updateVault as any).mockResolvedValue({ revision: 'r3' });
+    const state = await sync.resolveVaultConflict(conflict!, 'merged');
+
+    expect(state).toBe('synced');
+    expect(api.updateVault).toHaveBeenLastCalledWith({ encrypted_vault: 'merged' }, 'r2');
+    expect(store.has('queue:user@example.com')).toBe(false);
+  });
+
+  it('should not resolve a conflict with outdated local changes', async () => {
+    const sync = await loadSync();
+    (api.updateVault as any).mockRejectedValue(new ApiError(409, 'Conflict'));
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'remote', revision: 'r2' });
+    await sync.queueVaultUpdate('local');
+    const conflict = await sync.fetchVaultConflict();
+
+    store.set('queue:user@example.com', {
+      ...(store.get('queue:user@example.com') as object),
+      encrypted_vault: 'newer',
+      queuedAt: conflict!.queuedAt + 1,
+    });
+
+    expect(await sync.resolveVaultConflict(conflict!, 'merged')).toBe('conflict');
+    expect(store.get('queue:user@example.com')).toMatchObject({ encrypted_vault: 'newer' });
+  });
+
+  it('should keep updates queued while offline', async () => {
+    const sync = await loadSync();
+    (api.updateVault as any).mockRejectedValue(new ApiError(503, 'Service Unavailable'));
+
+    const state = await sync.queueVaultUpdate('blob');
+
+    expect(state).toBe('pending');
+    expect(store.get('queue:user@example.com')).toMatchObject({ encrypted_vault: 'blob' });
+  });
+
+  it('should report rejected updates and keep them queued', async () => {
+    const sync = await loadSync();
+    (api.updateVault as any).mockRejectedValue(new ApiError(413, 'Vault too large'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const state = await sync.queueVaultUpdate('blob');
+
+    expect(state).toBe('error');
+    expect(sync.getSyncError()).toBe('Vault too large');
+    expect(store.has('queue:user@example.com')).toBe(true);
+  });
+
+  it('should notify subscribers of state changes', async () => {
+    const sync = await loadSync();
+    (api.updateVault as any).mockResolvedValue({});
+    const states: string[] = [];
+    const unsubscribe = sync.subscribeSyncState(() => states.push(sync.getSyncState()));
+
+    await sync.queueVaultUpdate('blob');
+    unsubscribe();
+
+    expect(states).toEqual(['pending', 'syncing', 'synced']);
+  });
+
+  it('should drop queued changes replaced by a stored vault', async () => {
+    const sync = await loadSync();
+    store.set('queue:user@example.com', {
+      encrypted_vault: 'local',
+      queuedAt: 1,
+      base: { encrypted_vault: null, revision: null },
+    });
+
+    await sync.storeVaultBlob('server', 'r2');
+
+    expect(store.has('queue:user@example.com')).toBe(false);
+    expect(writeCache).toHaveBeenCalledWith(
+      'vault:user@example.com',
+      expect.objectContaining({ encrypted_vault: 'server', revision: 'r2' })
+    );
+  });
+
+  it('should look up the revision of a stored vault before pushing on top of it', async () => {
+    const sync = await loadSync();
+    await sync.storeVaultBlob('server');
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'server', revision: 'r2' });
+    (api.updateVault as any).mockResolvedValue({ revision: 'r3' });
+
+    const state = await sync.queueVaultUpdate('edit');
+
+    expect(state).toBe('synced');
+    expect(api.updateVault).toHaveBeenCalledWith({ encrypted_vault: 'edit' }, 'r2');
+  });
+
+  it('should not overwrite a vault saved elsewhere after storing one without a revision', async () => {
+    const sync = await loadSync();
+    await sync.storeVaultBlob('server');
+    (api.getVault as any).mockResolvedValue({ encrypted_vault: 'other-device', revision: 'r3' });
+
+    const state = await sync.queueVaultUpdate('edit');
+
+    expect(state).toBe('conflict');
+    expect(api.updateVault).not.toHaveBeenCalled();
+    expect(store.get('queue:user@example.com')).toMatchObject({
+      encrypted_vault: 'edit',
+      base: { encrypted_vault: 'server' },
+    });
+  });
+
+  it('should flush the queue when the browser comes back online', async () => {
+    const sync = await loadSync();
+    store.set('queue:user@example.com', {
+      encrypted_vault: 'local',
+      queuedAt: 1,
+      base: { encrypted_vault: null, revision: null },
+    });
+    (api.updateVault as any).mockResolvedValue({});
+
+    const stop = sync.startBackgroundSync();
+    window.dispatchEvent(new Event('online'));
+    await sync.flushVaultQueue();
+    stop();
+
+    expect(api.updateVault).toHaveBeenCalledWith({ encrypted_vault: 'local' }, null);
+    expect(store.has('queue:user@example.com')).toBe(false);
+  });
+});
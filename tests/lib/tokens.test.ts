@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { invoke, isTauri } from '@tauri-apps/api/core';
+import {
+  COOKIE_SESSION,
+  createCookieTokenStore,
+  createKeychainTokenStore,
+  createMemoryTokenStore,
+  createTokenStore,
+} from '../../src/lib/tokens';
+
+vi.mock('@tauri-apps/api/core', () => ({
+  invoke: vi.fn(),
+  isTauri: vi.fn(() => false),
+}));
+
+describe('Token stores', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('memory', () => {
+    it('should hold the token without touching localStorage', async () => {
+      const store = createMemoryTokenStore();
+      expect(await store.load()).toBeNull();
+
+      await store.save('secret-token');
+
+      expect(await store.load()).toBe('secret-token');
+      expect(localStorage.length).toBe(0);
+
+      await store.clear();
+      expect(await store.load()).toBeNull();
+    });
+
+    it('should keep each store separate', async () => {
+      const first = createMemoryTokenStore('first-token');
+      const second = createMemoryTokenStore();
+
+      expect(await first.load()).toBe('first-token');
+      expect(await second.load()).toBeNull();
+    });
+  });
+
+  describe('cookie', () => {
+    it('should only remember that a session exists', async () => {
+      const store = createCookieTokenStore();
+      expect(store.cookie).toBe(true);
+      expect(await store.load()).toBeNull();
+
+      await store.save('secret-token');
+
+      expect(await store.load()).toBe(COOKIE_SESSION);
+      expect(Object.values(localStorage)).not.toContain('secret-token');
+
+      await store.clear();
+      expect(await createCookieTokenStore().load()).toBeNull();
+    });
+  });
+
+  describe('keychain', () => {
+    it('should go through the native commands', async () => {
+      (invoke as any).mockResolvedValueOnce(undefined).mockResolvedValueOnce('secret-token');
+      const store = createKeychainTokenStore();
+
+      await store.save('secret-token');
+      expect(await store.load()).toBe('secret-token');
+      await store.clear();
+
+      expect(invoke).toHaveBeenNthCalledWith(1, 'token_save', { token: 'secret-token' });
+      expect(invoke).toHaveBeenNthCalledWith(2, 'token_load');
+      expect(invoke).toHaveBeenNthCalledWith(3, 'token_clear');
+      expect(localStorage.length).toBe(0);
+    });
+
+    it('should pass keychain errors on', async () => {
+      (invoke as any).mockRejectedValueOnce('No keychain available');
+
+      await expect(createKeychainTokenStore().load()).rejects.toBe('No keychain available');
+    });
+  });
+
+  describe('createTokenStore', () => {
+    it('should use the keychain in the desktop app and memory on the web', async () => {
+      expect(createTokenStore().cookie).toBeUndefined();
+      await createTokenStore().load();
+      expect(invoke).not.toHaveBeenCalled();
+
+      (isTauri as any).mockReturnValue(true);
+      await createTokenStore().load();
+      expect(invoke).toHaveBeenCalledWith('token_load');
+      (isTauri as any).mockReturnValue(false);
+    });
+
+    it('should use cookies when configured', () => {
+      vi.stubEnv('VITE_TOKEN_STORE', 'cookie');
+
+      expect(createTokenStore().cookie).toBe(true);
+      vi.unstubAllEnvs();
+    });
+  });
+});
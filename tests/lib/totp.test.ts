@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  generateHotp,
+  generateTotp,
+  parseTotp,
+  type TotpAlgorithm,
+} from '../../src/lib/totp';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// RFC 6238 Appendix B: seeds are ASCII digits of the hash output length
+const SEEDS: Record<TotpAlgorithm, Uint8Array> = {
+  SHA1: ascii('12345678901234567890'),
+  SHA256: ascii('12345678901234567890123456789012'),
+  SHA512: ascii(
+    '1234567890123456789012345678901234567890123456789012345678901234'
+  ),
+};
+
+const RFC_6238_VECTORS: [number, string, TotpAlgorithm][] = [
+  [59, '94287082', 'SHA1'],
+  [59, '46119246', 'SHA256'],
+  [59, '90693936', 'SHA512'],
+  [1111111109, '07081804', 'SHA1'],
+  [1111111109, '68084774', 'SHA256'],
+  [1111111109, '25091201', 'SHA512'],
+  [1111111111, '14050471', 'SHA1'],
+  [1111111111, '67062674', 'SHA256'],
+  [1111111111, '99943326', 'SHA512'],
+  [1234567890, '89005924', 'SHA1'],
+  [1234567890, '91819424', 'SHA256'],
+  [1234567890, '93441116', 'SHA512'],
+  [2000000000, '69279037', 'SHA1'],
+  [2000000000, '90698825', 'SHA256'],
+  [2000000000, '38618901', 'SHA512'],
+  [20000000000, '65353130', 'SHA1'],
+  [20000000000, '77737706', 'SHA256'],
+  [20000000000, '47863826', 'SHA512'],
+];
+
+describe('TOTP Module', () => {
+  describe('generateTotp', () => {
+    it.each(RFC_6238_VECTORS)(
+      'should match the RFC 6238 vector at T=%i (%s, %s)',
+      async (time, expected, algorithm) => {
+        const { code } = await generateTotp(
+          { secret: SEEDS[algorithm], algorithm, digits: 8, period: 30 },
+          time * 1000
+        );
+        expect(code).toBe(expected);
+      }
+    );
+
+    it('should report seconds remaining in the period', async () => {
+      const config = { secret: SEEDS.SHA1, algorithm: 'SHA1' as const, digits: 6, period: 30 };
+
+      expect((await generateTotp(config, 59 * 1000)).remaining).toBe(1);
+      expect((await generateTotp(config, 60 * 1000)).remaining).toBe(30);
+    });
+
+    it('should support custom periods', async () => {
+      const config = { secret: SEEDS.SHA1, algorithm: 'SHA1' as const, digits: 6, period: 60 };
+      const first = await generateTotp(config, 60 * 1000);
+      const sameWindow = await generateTotp(config, 119 * 1000);
+      const nextWindow = await generateTotp(config, 120 * 1000);
+
+      expect(sameWindow.code).toBe(first.code);
+      expect(nextWindow.code).not.toBe(first.code);
+      expect(sameWindow.remaining).toBe(1);
+    });
+  });
+
+  describe('generateHotp', () => {
+    // RFC 4226 Appendix D
+    it('should match the RFC 4226 vectors', async () => {
+      const expected = ['755224', '287082', '359152', '969429', '338314'];
+      for (let counter = 0; counter < expected.length; counter++) {
+        expect(await generateHotp(SEEDS.SHA1, counter)).toBe(expected[counter]);
+      }
+    });
+  });
+
+  describe('base32Decode', () => {
+    it('should decode RFC 4648 test vectors', () => {
+      const decode = (input: string) => new TextDecoder().decode(base32Decode(input));
+
+      expect(decode('MY======')).toBe('f');
+      expect(decode('MZXW6===')).toBe('foo');
+      expect(decode('MZXW6YTBOI======')).toBe('foobar');
+    });
+
+    it('should ignore case and spaces', () => {
+      expect(base32Decode('mzxw 6ytb oi')).toEqual(base32Decode('MZXW6YTBOI'));
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('MZXW1')).toThrow('Invalid base32');
+    });
+  });
+
+  describe('parseTotp', () => {
+    it('should accept a bare base32 secret with defaults', () => {
+      const config = parseTotp('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+
+      expect(Array.from(config.secret)).toEqual(Array.from(SEEDS.SHA1));
+      expect(config).toMatchObject({ algorithm: 'SHA1', digits: 6, period: 30 });
+    });
+
+    it('should parse otpauth URIs', () => {
+      const config = parseTotp(
+        'otpauth://totp/Example:alice@example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&algorithm=SHA256&digits=8&period=60'
+      );
+
+      expect(config).toMatchObject({
+        algorithm: 'SHA256',
+        digits: 8,
+        period: 60,
+        issuer: 'Example',
+        account: 'alice@example.com',
+      });
+    });
+
+    it('should prefer the issuer parameter over the label', () => {
+      const config = parseTotp(
+        'otpauth://totp/Label%3Abob?secret=MZXW6YTBOI&issuer=Official'
+      );
+
+      expect(config.issuer).toBe('Official');
+      expect(config.account).toBe('bob');
+    });
+
+    it('should reject HOTP URIs and unsupported parameters', () => {
+      expect(() => parseTotp('otpauth://hotp/x?secret=MZXW6YTBOI')).toThrow('Only TOTP');
+      expect(() => parseTotp('otpauth://totp/x?secret=MZXW6YTBOI&algorithm=MD5')).toThrow(
+        'Unsupported TOTP algorithm'
+      );
+      expect(() => parseTotp('otpauth://totp/x?secret=MZXW6YTBOI&digits=7')).toThrow(
+        'Unsupported TOTP length'
+      );
+      expect(() => parseTotp('otpauth://totp/x')).toThrow('no secret');
+    });
+  });
+});
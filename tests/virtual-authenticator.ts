@@ -0,0 +1,102 @@
+import { vi } from 'vitest';
+
+// A software authenticator behind navigator.credentials, like the virtual
+// authenticators browsers offer for testing. Each credential gets a random
+// secret and evaluates PRF as HMAC-SHA256(secret, salt), so the same
+// credential and salt always give the same output.
+interface VirtualCredential {
+  id: Uint8Array;
+  secret: CryptoKey;
+}
+
+interface VirtualAuthenticatorOptions {
+  // Authenticators without PRF still create credentials
+  prf?: boolean;
+  // Some authenticators evaluate PRF while creating the credential
+  prfOnCreate?: boolean;
+}
+
+const key = (bytes: Uint8Array) => Array.from(bytes).join(',');
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const notAllowed = () => new DOMException('The operation was cancelled.', 'NotAllowedError');
+
+export function installVirtualAuthenticator({
+  prf = true,
+  prfOnCreate = false,
+}: VirtualAuthenticatorOptions = {}) {
+  const credentials = new Map<string, VirtualCredential>();
+  let cancelNext = false;
+
+  const evaluate = async (credential: VirtualCredential, salt?: BufferSource) =>
+    salt && prf ? crypto.subtle.sign('HMAC', credential.secret, salt) : undefined;
+
+  const publicKeyCredential = (
+    credential: VirtualCredential,
+    first: ArrayBuffer | undefined,
+    created: boolean
+  ) => ({
+    type: 'public-key',
+    id: toBase64Url(credential.id),
+    rawId: credential.id.buffer,
+    getClientExtensionResults: () => ({
+      prf: first
+        ? { ...(created ? { enabled: true } : {}), results: { first } }
+        : created
+          ? { enabled: prf }
+          : {},
+    }),
+  });
+
+  const container = {
+    create: vi.fn(async ({ publicKey }: CredentialCreationOptions) => {
+      if (cancelNext) {
+        cancelNext = false;
+        throw notAllowed();
+      }
+      const credential: VirtualCredential = {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        secret: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+      };
+      credentials.set(key(credential.id), credential);
+      const first = prfOnCreate
+        ? await evaluate(credential, publicKey!.extensions?.prf?.eval?.first)
+        : undefined;
+      return publicKeyCredential(credential, first, true);
+    }),
+
+    // Picks the first allowed credential it holds, as if the user chose it
+    get: vi.fn(async ({ publicKey }: CredentialRequestOptions) => {
+      if (cancelNext) {
+        cancelNext = false;
+        throw notAllowed();
+      }
+      const credential = publicKey!.allowCredentials
+        ?.map((allowed) => credentials.get(key(new Uint8Array(allowed.id as ArrayBuffer))))
+        .find(Boolean);
+      if (!credential) throw notAllowed();
+      const prfInputs = publicKey!.extensions?.prf;
+      const salt =
+        prfInputs?.evalByCredential?.[toBase64Url(credential.id)]?.first ?? prfInputs?.eval?.first;
+      return publicKeyCredential(credential, await evaluate(credential, salt), false);
+    }),
+  };
+
+  Object.defineProperty(navigator, 'credentials', { value: container, configurable: true });
+  (window as any).PublicKeyCredential = class PublicKeyCredential {};
+
+  return {
+    credentials,
+    container,
+    // The user dismisses the next prompt
+    cancelNextRequest: () => {
+      cancelNext = true;
+    },
+    uninstall: () => {
+      delete (navigator as any).credentials;
+      delete (window as any).PublicKeyCredential;
+    },
+  };
+}